@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
-import type { ParsedTrace } from '@/lib/trace-parser';
+import { loadCurrentTrace } from '@/lib/stored-trace-upgrade';
 
 // Demo user ID for unauthenticated access
 const DEMO_USER_ID = 'demo-user-00000000-0000-0000-0000-000000000000';
@@ -43,8 +43,10 @@ export async function GET(
         created_at,
         trace_id,
         traces!inner (
+          id,
           raw_content,
-          parsed_data
+          parsed_data,
+          raw_content_reconstructed
         )
       `)
       .eq('id', id)
@@ -71,7 +73,7 @@ export async function GET(
       selectionPath: baselineData.selection_path,
       createdAt: new Date(baselineData.created_at).getTime(),
       rawContent: traceData.raw_content,
-      trace: traceData.parsed_data as ParsedTrace,
+      trace: await loadCurrentTrace(traceData, traceData.raw_content),
     };
 
     return NextResponse.json(formattedBaseline);
@@ -8,6 +8,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-admin';
 import type { ParsedTrace } from '@/lib/trace-parser';
 import { extractSelectionPath } from '@/lib/baseline-storage-api';
+import { serializeParsedTrace, deserializeParsedTrace } from '@/lib/trace-serialization';
+import { loadCurrentTrace } from '@/lib/stored-trace-upgrade';
 
 // Demo user ID for unauthenticated access
 const DEMO_USER_ID = 'demo-user-00000000-0000-0000-0000-000000000000';
@@ -39,8 +41,9 @@ export async function GET(request: NextRequest) {
         created_at,
         trace_id,
         traces!inner (
-          raw_content,
-          parsed_data
+          id,
+          parsed_data,
+          raw_content_reconstructed
         )
       `)
       .eq('user_id', userId)
@@ -51,8 +54,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to fetch baselines' }, { status: 500 });
     }
 
-    // Transform to BaselineTrace format
-    const formattedBaselines = baselines.map((baseline: any) => {
+    // Transform to BaselineTrace format; raw content is left to the single-baseline route
+    const formattedBaselines = await Promise.all(baselines.map(async (baseline: any) => {
       const traceData = Array.isArray(baseline.traces) ? baseline.traces[0] : baseline.traces;
       return {
         id: baseline.id,
@@ -60,10 +63,9 @@ export async function GET(request: NextRequest) {
         filename: baseline.filename,
         selectionPath: baseline.selection_path,
         createdAt: new Date(baseline.created_at).getTime(),
-        rawContent: traceData.raw_content,
-        trace: traceData.parsed_data as ParsedTrace,
+        trace: await loadCurrentTrace(traceData),
       };
-    });
+    }));
 
     return NextResponse.json(formattedBaselines);
   } catch (error) {
@@ -90,21 +92,32 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { name, filename, rawContent, trace } = body as {
+    const { name, filename, rawContent, rawContentReconstructed = false, trace: serializedTrace } = body as {
       name: string;
       filename: string;
       rawContent: string;
-      trace: ParsedTrace;
+      rawContentReconstructed?: boolean;  // Rebuilt from a localStorage baseline, not the original trace
+      trace: unknown;
     };
 
     // Validate required fields
-    if (!name || !filename || !rawContent || !trace) {
+    if (!name || !filename || !rawContent || !serializedTrace) {
       return NextResponse.json(
         { error: 'Missing required fields: name, filename, rawContent, trace' },
         { status: 400 }
       );
     }
 
+    let trace: ParsedTrace;
+    try {
+      trace = deserializeParsedTrace(serializedTrace, rawContentReconstructed ? undefined : rawContent);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid trace' },
+        { status: 400 }
+      );
+    }
+
     // Calculate file size
     const fileSize = new Blob([rawContent]).size;
 
@@ -132,7 +145,8 @@ export async function POST(request: NextRequest) {
         user_id: userId,
         filename,
         raw_content: rawContent,
-        parsed_data: trace as unknown as Record<string, unknown>,
+        raw_content_reconstructed: rawContentReconstructed,
+        parsed_data: serializeParsedTrace(trace) as unknown as Record<string, unknown>,
         file_size: fileSize,
       })
       .select()
@@ -174,7 +188,7 @@ export async function POST(request: NextRequest) {
       selectionPath: baselineData.selection_path,
       createdAt: new Date(baselineData.created_at).getTime(),
       rawContent,
-      trace,
+      trace: serializeParsedTrace(trace),
     }, { status: 201 });
   } catch (error) {
     console.error('Unexpected error in POST /api/baselines:', error);
@@ -38,6 +38,8 @@ export function CompareView({ baseline, current, diff }: CompareViewProps) {
     diff.removedFeatures.length > 0 ||
     diff.optionChanges.length > 0 ||
     diff.valueChanges.length > 0 ||
+    diff.propertyChanges.length > 0 ||
+    diff.componentChanges.length > 0 ||
     integrationChanges > 0 ||
     variableChanges > 0 ||
     conditionChanges > 0;
@@ -57,8 +59,14 @@ export function CompareView({ baseline, current, diff }: CompareViewProps) {
           <div className="flex flex-wrap gap-4">
             <SummaryBadge count={diff.valueChanges.length} label="Value Changes" color="blue" />
             <SummaryBadge count={diff.optionChanges.length} label="Option Changes" color="yellow" />
+            {diff.propertyChanges.length > 0 && (
+              <SummaryBadge count={diff.propertyChanges.length} label="Property Changes" color="orange" />
+            )}
             <SummaryBadge count={diff.addedFeatures.length} label="Features Added" color="green" />
             <SummaryBadge count={diff.removedFeatures.length} label="Features Removed" color="red" />
+            {diff.componentChanges.length > 0 && (
+              <SummaryBadge count={diff.componentChanges.length} label="Component Changes" color="purple" />
+            )}
             {integrationChanges > 0 && (
               <SummaryBadge count={integrationChanges} label="Integration Changes" color="purple" />
             )}
@@ -189,6 +197,63 @@ export function CompareView({ baseline, current, diff }: CompareViewProps) {
         </div>
       )}
 
+      {/* Property Changes */}
+      {diff.propertyChanges.length > 0 && (
+        <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-800">
+            <h2 className="text-lg font-semibold text-white">Property Changes</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-800/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Feature
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Property
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Baseline Value
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Current Value
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {diff.propertyChanges.map((change) => (
+                  <tr key={`${change.feature}:${change.property}`} className="hover:bg-gray-800/30">
+                    <td className="px-6 py-4">
+                      <code className="text-sm text-blue-400 font-mono">{change.feature}</code>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-300">{change.property}</td>
+                    <td className="px-6 py-4">
+                      {change.baselineValue !== null ? (
+                        <span className="text-sm bg-red-900/30 text-red-300 px-2 py-0.5 rounded font-mono">
+                          {change.baselineValue}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      {change.currentValue !== null ? (
+                        <span className="text-sm bg-green-900/30 text-green-300 px-2 py-0.5 rounded font-mono">
+                          {change.currentValue}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-500">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Added/Removed Features */}
       {(diff.addedFeatures.length > 0 || diff.removedFeatures.length > 0) && (
         <div className="grid grid-cols-2 gap-6">
@@ -219,6 +284,59 @@ export function CompareView({ baseline, current, diff }: CompareViewProps) {
         </div>
       )}
 
+      {/* Component Changes */}
+      {diff.componentChanges.length > 0 && (
+        <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-800">
+            <h2 className="text-lg font-semibold text-white">Component Changes</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-800/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Component
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Change
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Baseline Qty
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Current Qty
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {diff.componentChanges.map((change) => (
+                  <tr key={change.path} className="hover:bg-gray-800/30">
+                    <td className="px-6 py-4">
+                      <code className="text-sm text-blue-400 font-mono">{change.path}</code>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`text-xs px-2 py-1 rounded ${
+                          change.change === 'added'
+                            ? 'bg-green-900/50 text-green-400'
+                            : change.change === 'removed'
+                              ? 'bg-red-900/50 text-red-400'
+                              : 'bg-yellow-900/50 text-yellow-400'
+                        }`}
+                      >
+                        {change.change}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-300 font-mono">{change.baselineQuantity ?? '—'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-300 font-mono">{change.currentQuantity ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Integration Output Diff */}
       <IntegrationOutputDiffSection integrationDiff={diff.integrationOutputDiff} />
 
@@ -9,9 +9,15 @@ import type { ConditionDiff } from '@/lib/trace-parser';
 
 interface ConditionDiffSectionProps {
   conditionDiff: ConditionDiff;
+  baselineLabel?: string;
+  currentLabel?: string;
 }
 
-export function ConditionDiffSection({ conditionDiff }: ConditionDiffSectionProps) {
+export function ConditionDiffSection({
+  conditionDiff,
+  baselineLabel = 'Baseline',
+  currentLabel = 'Current',
+}: ConditionDiffSectionProps) {
   if (conditionDiff.totalChanges === 0) {
     return null;
   }
@@ -45,10 +51,10 @@ export function ConditionDiffSection({ conditionDiff }: ConditionDiffSectionProp
                     Expression
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                    Baseline
+                    {baselineLabel}
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                    Current
+                    {currentLabel}
                   </th>
                 </tr>
               </thead>
@@ -10,9 +10,15 @@ import type { IntegrationOutputDiff } from '@/lib/trace-parser';
 
 interface IntegrationOutputDiffSectionProps {
   integrationDiff: IntegrationOutputDiff;
+  baselineLabel?: string;
+  currentLabel?: string;
 }
 
-export function IntegrationOutputDiffSection({ integrationDiff }: IntegrationOutputDiffSectionProps) {
+export function IntegrationOutputDiffSection({
+  integrationDiff,
+  baselineLabel = 'Baseline',
+  currentLabel = 'Current',
+}: IntegrationOutputDiffSectionProps) {
   const [expandedTemplates, setExpandedTemplates] = useState<Set<string>>(new Set());
 
   const hasChanges =
@@ -116,8 +122,8 @@ export function IntegrationOutputDiffSection({ integrationDiff }: IntegrationOut
                             <thead>
                               <tr className="text-left text-xs text-gray-500">
                                 <th className="pb-1">Property</th>
-                                <th className="pb-1">Baseline</th>
-                                <th className="pb-1">Current</th>
+                                <th className="pb-1">{baselineLabel}</th>
+                                <th className="pb-1">{currentLabel}</th>
                               </tr>
                             </thead>
                             <tbody>
@@ -8,9 +8,15 @@ import type { VariableDiff } from '@/lib/trace-parser';
 
 interface VariableDiffSectionProps {
   variableDiff: VariableDiff;
+  baselineLabel?: string;
+  currentLabel?: string;
 }
 
-export function VariableDiffSection({ variableDiff }: VariableDiffSectionProps) {
+export function VariableDiffSection({
+  variableDiff,
+  baselineLabel = 'Baseline',
+  currentLabel = 'Current',
+}: VariableDiffSectionProps) {
   if (variableDiff.totalChanges === 0) {
     return null;
   }
@@ -41,10 +47,10 @@ export function VariableDiffSection({ variableDiff }: VariableDiffSectionProps)
                     Variable
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                    Baseline Value
+                    {baselineLabel} Value
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                    Current Value
+                    {currentLabel} Value
                   </th>
                 </tr>
               </thead>
@@ -1,11 +1,13 @@
 /**
- * Header component with search bar, mode toggle, and baseline button
+ * Header component with search bar, mode toggle, baseline button, and a
+ * session picker for trace files holding several configuration sessions
  */
 
 'use client';
 
 import { Database, Search, X } from 'lucide-react';
 import { useTraceViewerContext } from '@/app/context/TraceViewerContext';
+import { SessionPicker } from '@/app/components/layout/SessionPicker';
 
 export function Header() {
   const {
@@ -16,9 +18,14 @@ export function Header() {
     searchTerm,
     setSearchTerm,
     baselineTrace,
+    baselineSessions,
+    currentSessions,
+    selectSession,
   } = useTraceViewerContext();
 
   const showSearch = viewMode === 'single' && baselineTrace;
+  const showBaselineSessions = viewMode !== 'bulk' && baselineSessions && baselineSessions.sessions.length > 1;
+  const showCurrentSessions = viewMode === 'compare' && currentSessions && currentSessions.sessions.length > 1;
 
   return (
     <header className="border-b border-gray-800 px-6 py-4">
@@ -56,9 +63,39 @@ export function Header() {
             >
               Compare Traces
             </button>
+            <button
+              onClick={() => setViewMode('bulk')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                viewMode === 'bulk'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              Bulk Regression
+            </button>
           </div>
         </div>
 
+        {/* Session pickers (only for files with more than one session) */}
+        {(showBaselineSessions || showCurrentSessions) && (
+          <div className="mt-4 flex flex-wrap items-center gap-6">
+            {showBaselineSessions && (
+              <SessionPicker
+                label={viewMode === 'compare' ? 'Baseline session' : 'Session'}
+                slotSessions={baselineSessions}
+                onSelect={(index) => selectSession('baseline', index)}
+              />
+            )}
+            {showCurrentSessions && (
+              <SessionPicker
+                label="Current session"
+                slotSessions={currentSessions}
+                onSelect={(index) => selectSession('current', index)}
+              />
+            )}
+          </div>
+        )}
+
         {/* Global search bar (only in single mode with trace loaded) */}
         {showSearch && (
           <div className="mt-4">
@@ -0,0 +1,39 @@
+/**
+ * Session Picker - chooses which configuration session of a multi-session
+ * trace file is shown
+ */
+
+'use client';
+
+import { Layers } from 'lucide-react';
+import { getSessionLabel } from '@/lib/trace-sessions';
+import type { SlotSessions } from '@/app/types';
+
+interface SessionPickerProps {
+  label: string;
+  slotSessions: SlotSessions;
+  onSelect: (index: number) => void;
+}
+
+export function SessionPicker({ label, slotSessions, onSelect }: SessionPickerProps) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-400">
+      <Layers className="w-4 h-4" />
+      {label}
+      <select
+        value={slotSessions.activeIndex}
+        onChange={(e) => onSelect(Number(e.target.value))}
+        className="bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+      >
+        {slotSessions.sessions.map((session, index) => (
+          <option key={session.index} value={index}>
+            {getSessionLabel(session)}
+          </option>
+        ))}
+      </select>
+      <span className="text-xs bg-blue-900/50 text-blue-400 px-2 py-1 rounded">
+        {slotSessions.sessions.length} sessions
+      </span>
+    </label>
+  );
+}
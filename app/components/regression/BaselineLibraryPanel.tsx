@@ -4,10 +4,11 @@
 
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Archive } from 'lucide-react';
 import type { ParsedTrace } from '@/lib/trace-parser';
-import type { BaselineTrace } from '@/lib/baseline-storage-api';
+import { compareBaselines, matchesBaselineFilter } from '@/lib/baseline-storage-api';
+import type { BaselineSortKey, BaselineTrace } from '@/lib/baseline-storage-api';
 
 interface BaselineLibraryPanelProps {
   baselines: BaselineTrace[];
@@ -17,6 +18,8 @@ interface BaselineLibraryPanelProps {
   onSelect: (baseline: BaselineTrace) => void;
 }
 
+type SortOrder = 'match' | BaselineSortKey;
+
 // Helper function to rank baselines by match score
 function rankBaselines(currentTrace: ParsedTrace, baselines: BaselineTrace[]): { baseline: BaselineTrace; matchScore: number }[] {
   const currentSelections = new Map(
@@ -51,11 +54,24 @@ export function BaselineLibraryPanel({
   onRemove,
   onSelect,
 }: BaselineLibraryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('match');
+
+  // Match order needs a trace to match against
+  const effectiveSortOrder = sortOrder === 'match' && !currentTrace ? 'saved' : sortOrder;
+
   const rankedBaselines = useMemo(() => {
     if (!currentTrace) return baselines.map((b) => ({ baseline: b, matchScore: 0 }));
     return rankBaselines(currentTrace, baselines);
   }, [baselines, currentTrace]);
 
+  const visibleBaselines = useMemo(() => {
+    const filtered = rankedBaselines.filter(({ baseline }) => matchesBaselineFilter(baseline, query));
+    if (effectiveSortOrder === 'match') return filtered;
+    const compare = compareBaselines(effectiveSortOrder);
+    return [...filtered].sort((a, b) => compare(a.baseline, b.baseline));
+  }, [rankedBaselines, query, effectiveSortOrder]);
+
   return (
     <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
       <div className="px-6 py-4 border-b border-gray-800">
@@ -74,7 +90,29 @@ export function BaselineLibraryPanel({
           </div>
         ) : (
           <div className="space-y-3">
-            {rankedBaselines.map(({ baseline, matchScore }) => (
+            <div className="flex flex-wrap gap-3 items-center">
+              <input
+                type="text"
+                placeholder="Filter by name, part number, user, culture..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="flex-1 min-w-[200px] bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500"
+              />
+              <select
+                value={effectiveSortOrder}
+                onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                className="bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+              >
+                {currentTrace && <option value="match">Best match</option>}
+                <option value="saved">Recently saved</option>
+                <option value="started">Configuration time</option>
+                <option value="name">Name</option>
+              </select>
+            </div>
+            {visibleBaselines.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-6">No baselines match &quot;{query.trim()}&quot;</p>
+            )}
+            {visibleBaselines.map(({ baseline, matchScore }) => (
               <div
                 key={baseline.id}
                 className={`p-4 rounded-lg border ${
@@ -95,6 +133,10 @@ export function BaselineLibraryPanel({
                     <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
                       <span>{baseline.selectionPath.length} selections</span>
                       <span>{baseline.trace.features.size} features</span>
+                      {baseline.trace.metadata.startedAt !== null && (
+                        <span>Started {new Date(baseline.trace.metadata.startedAt).toLocaleString()}</span>
+                      )}
+                      {baseline.trace.metadata.user && <span>{baseline.trace.metadata.user}</span>}
                       {currentTrace && matchScore > 0 && (
                         <span
                           className={`font-medium ${
@@ -0,0 +1,333 @@
+/**
+ * Bulk Regression View - runs a folder of traces against the baseline library
+ * and shows a pass/fail matrix with drill-down into each result
+ */
+
+'use client';
+
+import { Fragment, useCallback, useRef, useState } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  Ban,
+  CheckCircle,
+  ChevronRight,
+  Clock,
+  FolderOpen,
+  Loader2,
+  Upload,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { SummaryBadge } from '@/app/components/shared/SummaryBadge';
+import { RawTraceViewer } from '@/app/components/shared/RawTraceViewer';
+import { RegressionResultsView } from './RegressionResultsView';
+import { ExportReportMenu } from './ExportReportMenu';
+import { TraceViewerContextProvider, useTraceViewerContext } from '@/app/context/TraceViewerContext';
+import { getSessionContent } from '@/lib/trace-sessions';
+import type { BehavioralIssueType, RegressionResult } from '@/lib/trace-parser';
+import type { BulkRegressionEntry, BulkRegressionSummary, BulkRunStatus } from '@/app/types';
+
+interface BulkRegressionViewProps {
+  entries: BulkRegressionEntry[];
+  summary: BulkRegressionSummary;
+  isRunning: boolean;
+  baselineCount: number;
+  onRun: (files: File[]) => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+const TRACE_FILE_PATTERN = /\.(log|txt|trace)$/i;
+
+const statusStyles: Record<BulkRunStatus, { icon: typeof CheckCircle; className: string; label: string }> = {
+  queued: { icon: Clock, className: 'text-gray-500', label: 'Queued' },
+  running: { icon: Loader2, className: 'text-blue-400 animate-spin', label: 'Running' },
+  passed: { icon: CheckCircle, className: 'text-green-400', label: 'Pass' },
+  warned: { icon: AlertTriangle, className: 'text-yellow-400', label: 'Warnings' },
+  failed: { icon: XCircle, className: 'text-red-400', label: 'Fail' },
+  error: { icon: AlertCircle, className: 'text-red-400', label: 'Error' },
+  cancelled: { icon: Ban, className: 'text-gray-500', label: 'Cancelled' },
+};
+
+// Matrix columns, one per behavioral issue type
+const issueColumns: { type: BehavioralIssueType; label: string }[] = [
+  { type: 'options_changed', label: 'Options' },
+  { type: 'integration_changed', label: 'Integration' },
+  { type: 'condition_changed', label: 'Conditions' },
+  { type: 'feature_missing', label: 'Missing' },
+  { type: 'feature_added', label: 'Added' },
+];
+
+function IssueCell({ result, type }: { result: RegressionResult | null; type: BehavioralIssueType }) {
+  if (!result) return <td className="px-3 py-2 text-center text-gray-700">-</td>;
+
+  const issues = result.issues.filter((issue) => issue.type === type);
+  const className = issues.some((issue) => issue.severity === 'error')
+    ? 'bg-red-900/40 text-red-400'
+    : issues.some((issue) => issue.severity === 'warning')
+      ? 'bg-yellow-900/40 text-yellow-400'
+      : issues.length > 0
+        ? 'bg-blue-900/30 text-blue-400'
+        : 'text-gray-600';
+
+  return (
+    <td className="px-3 py-2 text-center">
+      <span className={`inline-block min-w-8 px-2 py-0.5 rounded font-mono text-xs ${className}`}>
+        {issues.length}
+      </span>
+    </td>
+  );
+}
+
+export function BulkRegressionView({
+  entries,
+  summary,
+  isRunning,
+  baselineCount,
+  onRun,
+  onCancel,
+  onClear,
+}: BulkRegressionViewProps) {
+  const context = useTraceViewerContext();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [viewer, setViewer] = useState<{ content: string; lineNumber: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+
+  // React has no typed prop for directory selection
+  const setFolderInput = useCallback((input: HTMLInputElement | null) => {
+    input?.setAttribute('webkitdirectory', '');
+    folderInputRef.current = input;
+  }, []);
+
+  const startRun = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? [])
+      .filter((file) => TRACE_FILE_PATTERN.test(file.name))
+      .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+    if (files.length === 0 || isRunning) return;
+    setExpandedId(null);
+    onRun(files);
+  };
+
+  // Line links in a result open that trace's file, not the single-trace view.
+  // A session's line numbers count from its first line, so show only its lines.
+  const showEntryLine = async (entry: BulkRegressionEntry, lineNumber: number) => {
+    const content = await entry.file.text();
+    setViewer({ content: entry.session ? getSessionContent(content, entry.session) : content, lineNumber });
+  };
+
+  const canRun = baselineCount > 0 && !isRunning;
+
+  // Traces that errored or were cancelled have no result to report
+  const reportEntries = entries.flatMap((entry) =>
+    entry.result ? [{ traceName: entry.filename, result: entry.result }] : []
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Upload */}
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Bulk Regression</h2>
+            <p className="text-xs text-gray-500 mt-1">
+              Each trace is matched to its best baseline ({baselineCount} in library) and compared for behavioral changes.
+            </p>
+          </div>
+          {entries.length > 0 && !isRunning && (
+            <button
+              onClick={() => {
+                onClear();
+                setExpandedId(null);
+              }}
+              className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-sm"
+            >
+              Clear Results
+            </button>
+          )}
+        </div>
+
+        {isRunning ? (
+          <div className="border-2 border-dashed border-gray-700 rounded-lg p-8">
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="text-gray-300">Running regression...</span>
+              <span className="text-gray-400 font-mono">
+                {summary.completed} / {summary.total} traces
+              </span>
+            </div>
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${summary.total > 0 ? (summary.completed / summary.total) * 100 : 0}%` }}
+              />
+            </div>
+            <div className="flex justify-center mt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 text-sm font-medium flex items-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div
+            onDrop={(e) => {
+              e.preventDefault();
+              if (canRun) startRun(e.dataTransfer.files);
+            }}
+            onDragOver={(e) => e.preventDefault()}
+            className="border-2 border-dashed border-gray-700 rounded-lg p-8 text-center hover:border-gray-600 transition-colors"
+          >
+            <div className="text-gray-400 mb-4">
+              <Upload className="w-12 h-12 mx-auto mb-2" />
+              <p>Drop trace files here</p>
+              {baselineCount === 0 && (
+                <p className="text-sm text-yellow-400 mt-2">
+                  Add at least one baseline before running a bulk regression
+                </p>
+              )}
+            </div>
+
+            <div className="flex gap-3 justify-center">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept=".log,.txt,.trace"
+                onChange={(e) => {
+                  startRun(e.target.files);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              <input
+                ref={setFolderInput}
+                type="file"
+                onChange={(e) => {
+                  startRun(e.target.files);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!canRun}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Choose Files
+              </button>
+              <button
+                type="button"
+                onClick={() => folderInputRef.current?.click()}
+                disabled={!canRun}
+                className="px-4 py-2 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 text-sm font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FolderOpen className="w-4 h-4" />
+                Choose Folder
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Results Matrix */}
+      {entries.length > 0 && (
+        <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-800 flex items-center justify-between gap-3">
+            <div className="flex gap-3 flex-wrap">
+              <SummaryBadge count={summary.passed} label="Passed" color="green" />
+              <SummaryBadge count={summary.warned} label="Warnings" color="yellow" />
+              <SummaryBadge count={summary.failed} label="Failed" color="red" />
+              {summary.error > 0 && <SummaryBadge count={summary.error} label="Errors" color="orange" />}
+              {summary.cancelled > 0 && <SummaryBadge count={summary.cancelled} label="Cancelled" color="blue" />}
+            </div>
+            {!isRunning && <ExportReportMenu entries={reportEntries} filename="bulk-regression" />}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase tracking-wide border-b border-gray-800">
+                  <th className="px-3 py-2 text-left">Status</th>
+                  <th className="px-3 py-2 text-left">Trace</th>
+                  <th className="px-3 py-2 text-left">Baseline</th>
+                  <th className="px-3 py-2 text-right">Match</th>
+                  {issueColumns.map((column) => (
+                    <th key={column.type} className="px-3 py-2 text-center">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const status = statusStyles[entry.status];
+                  const StatusIcon = status.icon;
+                  const isExpanded = expandedId === entry.id;
+                  const canExpand = entry.result !== null || entry.error !== null;
+
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        onClick={() => canExpand && setExpandedId(isExpanded ? null : entry.id)}
+                        className={`border-b border-gray-800/50 ${canExpand ? 'cursor-pointer hover:bg-gray-800/40' : ''} ${
+                          isExpanded ? 'bg-gray-800/40' : ''
+                        }`}
+                      >
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-2">
+                            <ChevronRight
+                              className={`w-4 h-4 text-gray-600 transition-transform ${isExpanded ? 'rotate-90' : ''} ${
+                                canExpand ? '' : 'invisible'
+                              }`}
+                            />
+                            <StatusIcon className={`w-4 h-4 ${status.className}`} />
+                            <span className="text-gray-300">
+                              {entry.status === 'running' && entry.percent !== null ? `${entry.percent}%` : status.label}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 font-mono text-gray-200 break-all">{entry.filename}</td>
+                        <td className="px-3 py-2 text-gray-400">{entry.match?.baseline.name ?? '-'}</td>
+                        <td className="px-3 py-2 text-right font-mono text-gray-400">
+                          {entry.match ? `${entry.match.matchScore}%` : '-'}
+                        </td>
+                        {issueColumns.map((column) => (
+                          <IssueCell key={column.type} result={entry.result} type={column.type} />
+                        ))}
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b border-gray-800">
+                          <td colSpan={4 + issueColumns.length} className="p-4 bg-gray-950/50">
+                            {entry.result ? (
+                              <TraceViewerContextProvider
+                                value={{ ...context, showLine: (line) => showEntryLine(entry, line) }}
+                              >
+                                <RegressionResultsView result={entry.result} />
+                              </TraceViewerContextProvider>
+                            ) : (
+                              <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+                                {entry.error}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {viewer && (
+        <RawTraceViewer content={viewer.content} lineNumber={viewer.lineNumber} onClose={() => setViewer(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Export Report Menu - downloads regression results as JUnit XML, HTML or Markdown
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { formatRegressionReport, REPORT_FORMATS } from '@/lib/regression-report';
+import type { RegressionReportEntry, RegressionReportFormat } from '@/lib/regression-report';
+
+interface ExportReportMenuProps {
+  entries: RegressionReportEntry[];
+  filename: string;                // Download name without extension
+}
+
+const formats = Object.keys(REPORT_FORMATS) as RegressionReportFormat[];
+
+export function ExportReportMenu({ entries, filename }: ExportReportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: RegressionReportFormat) => {
+    const { extension, mimeType } = REPORT_FORMATS[format];
+    const blob = new Blob([formatRegressionReport(format, entries)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={entries.length === 0}
+        className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-4 h-4" />
+        Export Report
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-40 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-50 py-1">
+          {formats.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full px-4 py-2 text-left text-sm text-gray-300 hover:bg-gray-700"
+            >
+              {REPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Components section - the component tree built from CreateComponentRule
+ * executions, with each component's quantity and the rule that created it
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Boxes, ChevronDown, ChevronRight } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import { buildComponentTree, type ComponentTreeNode } from '@/lib/component-tree';
+import type { ComponentData } from '@/lib/trace-parser';
+
+interface ComponentsSectionProps {
+  components: ComponentData[];
+}
+
+function ComponentRow({ node }: { node: ComponentTreeNode }) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const { component, children, depth } = node;
+
+  return (
+    <>
+      <tr className="hover:bg-gray-800/30">
+        <td className="px-6 py-2">
+          <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 20}px` }}>
+            {children.length > 0 ? (
+              <button onClick={() => setIsExpanded(!isExpanded)} className="text-gray-400 hover:text-white">
+                {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+            ) : (
+              <span className="w-4" />
+            )}
+            <code className="text-sm text-blue-400 font-mono" title={node.path}>{component.name}</code>
+            {depth === 0 && component.parent && (
+              <span className="text-xs text-gray-500 ml-1">under {component.parent}</span>
+            )}
+          </div>
+        </td>
+        <td className="px-6 py-2 text-sm text-gray-300 font-mono">{component.quantity ?? '—'}</td>
+        <td className="px-6 py-2 text-sm text-gray-300 truncate max-w-xs" title={component.ruleset}>
+          {component.ruleName}
+        </td>
+        <td className="px-6 py-2 text-xs text-gray-500">
+          {component.creationCount > 1 && `${component.creationCount}×`}
+        </td>
+        <td className="px-6 py-2 text-right text-xs font-mono text-gray-500">
+          <LineNumber line={component.lineNumber} />
+        </td>
+      </tr>
+      {isExpanded && children.map((child) => <ComponentRow key={child.path} node={child} />)}
+    </>
+  );
+}
+
+export function ComponentsSection({ components }: ComponentsSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const roots = useMemo(() => buildComponentTree(components), [components]);
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-800/30 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <Boxes className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-semibold text-white">Components</h2>
+          <span className="text-xs bg-blue-900/50 text-blue-400 px-2 py-1 rounded">
+            {components.length} component{components.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-800 overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-800/50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Component</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Qty</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Created By</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Runs</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Line</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {roots.map((node) => (
+                <ComponentRow key={node.path} node={node} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
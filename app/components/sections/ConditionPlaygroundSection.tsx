@@ -0,0 +1,239 @@
+/**
+ * What-If Playground - re-evaluates a traced condition with an edited
+ * expression or overridden variable values, showing which sub-expressions change
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import { ExpressionTree } from '@/app/components/shared/ExpressionTree';
+import { parseExpression, type ExpressionNode } from '@/lib/expression-parser';
+import {
+  createVariableLookup,
+  evaluateParsedExpression,
+  formatExpressionValue,
+  getReferencedVariables,
+  getVariableValuesBefore,
+  toBoolean,
+  type ExpressionEvaluation,
+} from '@/lib/expression-evaluator';
+import type { ConditionEvaluation, ParsedTrace } from '@/lib/trace-parser';
+
+interface ConditionPlaygroundSectionProps {
+  trace: Pick<ParsedTrace, 'variableTracking' | 'timeline'>;
+  condition: ConditionEvaluation;
+  onClose: () => void;
+}
+
+function describeResult(evaluation: ExpressionEvaluation | null): string {
+  if (!evaluation) return 'Invalid expression';
+  if (evaluation.isDeterminate) return toBoolean(evaluation.value) ? 'True' : 'False';
+  if (evaluation.unresolvedVariables.length > 0) {
+    return `Unknown (no value for ${evaluation.unresolvedVariables.join(', ')})`;
+  }
+  return `Unknown (${evaluation.error ?? 'evaluation failed'})`;
+}
+
+function resultColor(evaluation: ExpressionEvaluation | null): string {
+  if (!evaluation?.isDeterminate) return 'text-gray-500';
+  return toBoolean(evaluation.value) ? 'text-green-400' : 'text-red-400';
+}
+
+/**
+ * Nodes whose value differs from the node with the same text in the
+ * original evaluation. Edited parts have no counterpart and aren't marked.
+ */
+function findChangedNodes(original: ExpressionEvaluation, modified: ExpressionEvaluation): Set<ExpressionNode> {
+  const originalValues = new Map<string, string>();
+  for (const [node, value] of original.nodeValues) {
+    originalValues.set(node.raw, formatExpressionValue(value));
+  }
+
+  const changed = new Set<ExpressionNode>();
+  for (const [node, value] of modified.nodeValues) {
+    const before = originalValues.get(node.raw);
+    if (before !== undefined && before !== formatExpressionValue(value)) {
+      changed.add(node);
+    }
+  }
+  return changed;
+}
+
+export function ConditionPlaygroundSection({ trace, condition, onClose }: ConditionPlaygroundSectionProps) {
+  const [expression, setExpression] = useState(condition.expression);
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+
+  const tracedValues = useMemo(
+    () => getVariableValuesBefore(trace, condition.lineNumber),
+    [trace, condition.lineNumber]
+  );
+
+  const original = useMemo(() => {
+    const recorded = parseExpression(condition.expression);
+    return recorded.root ? evaluateParsedExpression(recorded, createVariableLookup(tracedValues)) : null;
+  }, [condition.expression, tracedValues]);
+
+  const parsed = useMemo(() => parseExpression(expression), [expression]);
+  const variables = useMemo(() => (parsed.root ? getReferencedVariables(parsed.root) : []), [parsed]);
+
+  const modified = useMemo(() => {
+    if (!parsed.root) return null;
+    const values = new Map(tracedValues);
+    for (const [name, value] of Object.entries(overrides)) {
+      values.set(name.toLowerCase(), value);
+    }
+    return evaluateParsedExpression(parsed, createVariableLookup(values));
+  }, [parsed, tracedValues, overrides]);
+
+  const changedNodes = useMemo(
+    () => (original && modified ? findChangedNodes(original, modified) : new Set<ExpressionNode>()),
+    [original, modified]
+  );
+
+  const resultChanged =
+    original?.isDeterminate && modified?.isDeterminate && toBoolean(original.value) !== toBoolean(modified.value);
+  const isEdited = expression !== condition.expression || Object.keys(overrides).length > 0;
+
+  const setOverride = (name: string, value: string) => {
+    const next = { ...overrides };
+    if (value === '') {
+      delete next[name];
+    } else {
+      next[name] = value;
+    }
+    setOverrides(next);
+  };
+
+  return (
+    <div className="bg-gray-900 border border-cyan-900/50 rounded-xl overflow-hidden">
+      <div className="px-6 py-4 flex items-center justify-between border-b border-gray-800">
+        <div className="flex items-center gap-3 min-w-0">
+          <h2 className="text-lg font-semibold text-white">What-If Playground</h2>
+          <code className="text-sm text-blue-400 font-mono truncate" title={condition.ruleName}>
+            {condition.ruleName}
+          </code>
+          <span className="text-sm text-gray-500 font-mono">
+            <LineNumber line={condition.lineNumber} />
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => {
+              setExpression(condition.expression);
+              setOverrides({});
+            }}
+            disabled={!isEdited}
+            className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-sm flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded" title="Close playground">
+            <X className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-5">
+        {/* Expression editor */}
+        <div>
+          <label className="text-xs text-gray-500 uppercase">Expression</label>
+          <textarea
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            rows={Math.min(6, Math.max(2, Math.ceil(expression.length / 100)))}
+            spellCheck={false}
+            className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-blue-300 font-mono focus:outline-none focus:border-blue-500"
+          />
+          {!parsed.isValid && (
+            <div className="mt-1 text-xs text-red-400">Parse error: {parsed.error || 'Unable to parse expression'}</div>
+          )}
+          {parsed.unparsed && (
+            <div className="mt-1 text-xs text-red-400">Parse error: unexpected &quot;{parsed.unparsed}&quot;</div>
+          )}
+        </div>
+
+        {/* Results */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-gray-800/50 rounded-lg p-4">
+            <div className={`text-lg font-bold ${condition.result ? 'text-green-400' : 'text-red-400'}`}>
+              {condition.result ? 'True' : 'False'}
+            </div>
+            <div className="text-xs text-gray-400 uppercase tracking-wider mt-1">Recorded Result</div>
+          </div>
+          <div className="bg-gray-800/50 rounded-lg p-4">
+            <div className={`text-lg font-bold ${resultColor(original)}`}>{describeResult(original)}</div>
+            <div className="text-xs text-gray-400 uppercase tracking-wider mt-1">Re-evaluated (traced values)</div>
+          </div>
+          <div className={`rounded-lg p-4 ${resultChanged ? 'bg-yellow-900/20 border border-yellow-900/50' : 'bg-gray-800/50'}`}>
+            <div className={`text-lg font-bold ${resultColor(modified)}`}>{describeResult(modified)}</div>
+            <div className="text-xs text-gray-400 uppercase tracking-wider mt-1">
+              What-If Result{resultChanged && <span className="text-yellow-400 normal-case"> • changed</span>}
+            </div>
+          </div>
+        </div>
+
+        {/* Variable overrides */}
+        {variables.length > 0 && (
+          <div>
+            <div className="text-xs text-gray-500 uppercase mb-2">Variables as of this rule</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1 pr-4 font-medium">Variable</th>
+                  <th className="py-1 pr-4 font-medium">Traced Value</th>
+                  <th className="py-1 font-medium">Override</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {variables.map((name) => {
+                  const traced = tracedValues.get(name.toLowerCase());
+                  return (
+                    <tr key={name}>
+                      <td className="py-1.5 pr-4">
+                        <code className="text-purple-400 font-mono text-xs">{name}</code>
+                      </td>
+                      <td className="py-1.5 pr-4">
+                        {traced === undefined ? (
+                          <span className="text-xs text-gray-600 italic">not in trace</span>
+                        ) : (
+                          <code className="text-gray-300 font-mono text-xs">{traced ?? 'null'}</code>
+                        )}
+                      </td>
+                      <td className="py-1.5">
+                        <input
+                          type="text"
+                          value={overrides[name] ?? ''}
+                          placeholder={traced === undefined ? 'Enter a value' : 'Keep traced value'}
+                          onChange={(e) => setOverride(name, e.target.value)}
+                          className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white font-mono placeholder-gray-600 focus:outline-none focus:border-blue-500"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-600 mt-2">
+              Enter values the way the trace shows them without quotes; use <code>null</code> for no value.
+            </p>
+          </div>
+        )}
+
+        {/* Sub-expression values */}
+        {parsed.root && modified && (
+          <div>
+            <div className="text-xs text-gray-500 uppercase mb-2">
+              Sub-expressions{changedNodes.size > 0 && <span className="text-yellow-400 normal-case"> • {changedNodes.size} changed</span>}
+            </div>
+            <div className="p-3 bg-gray-900/70 rounded-lg border border-gray-700">
+              <ExpressionTree node={parsed.root} depth={0} values={modified.nodeValues} changedNodes={changedNodes} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,26 +5,45 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { ChevronDown, ChevronRight, Check, X as XIcon } from 'lucide-react';
+import { AlertTriangle, ChevronDown, ChevronRight, Check, FlaskConical, X as XIcon } from 'lucide-react';
 import { LineNumber } from '@/app/components/shared/LineNumber';
 import { RuleSummaryCard } from '@/app/components/shared/RuleSummaryCard';
 import { ExpressionTree } from '@/app/components/shared/ExpressionTree';
+import { VariableStatePanel } from '@/app/components/shared/VariableStatePanel';
 import { parseExpression, type ParsedExpression } from '@/lib/expression-parser';
-import type { ConditionSummary, ConditionEvaluation } from '@/lib/trace-parser';
+import { formatExpressionValue, getReferencedVariables, type ConditionReevaluation } from '@/lib/expression-evaluator';
+import type { ConditionSummary, ConditionEvaluation, VariableTrackingSummary } from '@/lib/trace-parser';
+
+type ResultFilter = 'all' | 'fired' | 'skipped' | 'mismatch';
 
 interface ConditionTracingSectionProps {
   conditionTracking: ConditionSummary;
+  reevaluations?: ConditionReevaluation[];
+  variableTracking?: VariableTrackingSummary;
   searchTerm?: string;
+  onOpenPlayground?: (condition: ConditionEvaluation) => void;
 }
 
 interface ConditionRowProps {
   condition: ConditionEvaluation;
+  reevaluation?: ConditionReevaluation;
+  variableTracking?: VariableTrackingSummary;
   isExpanded: boolean;
   onToggle: () => void;
+  onOpenPlayground?: (condition: ConditionEvaluation) => void;
+}
+
+function describeReevaluation({ evaluation }: ConditionReevaluation): string {
+  if (evaluation.isDeterminate) return formatExpressionValue(evaluation.value);
+  if (evaluation.unresolvedVariables.length > 0) {
+    return `Unknown (no traced value for ${evaluation.unresolvedVariables.join(', ')})`;
+  }
+  return `Unknown (${evaluation.error ?? 'evaluation failed'})`;
 }
 
-function ConditionRow({ condition, isExpanded, onToggle }: ConditionRowProps) {
+function ConditionRow({ condition, reevaluation, variableTracking, isExpanded, onToggle, onOpenPlayground }: ConditionRowProps) {
   const [showBreakdown, setShowBreakdown] = useState(false);
+  const [showVariables, setShowVariables] = useState(false);
   const [parsedExpr, setParsedExpr] = useState<ParsedExpression | null>(null);
 
   const handleShowBreakdown = (e: React.MouseEvent) => {
@@ -35,6 +54,14 @@ function ConditionRow({ condition, isExpanded, onToggle }: ConditionRowProps) {
     setShowBreakdown(!showBreakdown);
   };
 
+  const handleShowVariables = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!parsedExpr) {
+      setParsedExpr(parseExpression(condition.expression));
+    }
+    setShowVariables(!showVariables);
+  };
+
   return (
     <>
       <tr
@@ -53,6 +80,11 @@ function ConditionRow({ condition, isExpanded, onToggle }: ConditionRowProps) {
               <span className="text-xs">False</span>
             </span>
           )}
+          {reevaluation?.matchesRecorded === false && (
+            <span title="Re-evaluation disagrees with the recorded result">
+              <AlertTriangle className="w-3.5 h-3.5 text-yellow-400 inline ml-2" />
+            </span>
+          )}
         </td>
         <td className="px-6 py-3">
           <div className="flex items-center gap-2">
@@ -98,16 +130,58 @@ function ConditionRow({ condition, isExpanded, onToggle }: ConditionRowProps) {
                   {condition.result ? 'True (Rule Fired)' : 'False (Rule Skipped)'}
                 </span>
               </div>
+              {reevaluation && (
+                <div>
+                  <span className="text-xs text-gray-500 uppercase">Re-evaluated:</span>
+                  <code
+                    className={`ml-2 text-sm font-mono ${
+                      reevaluation.matchesRecorded === false
+                        ? 'text-yellow-400'
+                        : reevaluation.matchesRecorded
+                          ? 'text-gray-300'
+                          : 'text-gray-500'
+                    }`}
+                  >
+                    {describeReevaluation(reevaluation)}
+                  </code>
+                  {reevaluation.matchesRecorded === false && (
+                    <span className="ml-2 text-xs text-yellow-400">Differs from recorded result</span>
+                  )}
+                </div>
+              )}
 
               {/* Expression Breakdown */}
               <div className="pt-2 border-t border-gray-700">
-                <button
-                  onClick={handleShowBreakdown}
-                  className="text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
-                >
-                  <ChevronRight className={`w-3 h-3 transition-transform ${showBreakdown ? 'rotate-90' : ''}`} />
-                  {showBreakdown ? 'Hide' : 'Show'} Expression Breakdown
-                </button>
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={handleShowBreakdown}
+                    className="text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
+                  >
+                    <ChevronRight className={`w-3 h-3 transition-transform ${showBreakdown ? 'rotate-90' : ''}`} />
+                    {showBreakdown ? 'Hide' : 'Show'} Expression Breakdown
+                  </button>
+                  {variableTracking && (
+                    <button
+                      onClick={handleShowVariables}
+                      className="text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
+                    >
+                      <ChevronRight className={`w-3 h-3 transition-transform ${showVariables ? 'rotate-90' : ''}`} />
+                      {showVariables ? 'Hide' : 'Show'} Variable State
+                    </button>
+                  )}
+                  {onOpenPlayground && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onOpenPlayground(condition);
+                      }}
+                      className="text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1"
+                    >
+                      <FlaskConical className="w-3 h-3" />
+                      Open in What-If Playground
+                    </button>
+                  )}
+                </div>
 
                 {showBreakdown && parsedExpr && (
                   <div className="mt-3 p-3 bg-gray-900/70 rounded-lg border border-gray-700">
@@ -120,6 +194,16 @@ function ConditionRow({ condition, isExpanded, onToggle }: ConditionRowProps) {
                     )}
                   </div>
                 )}
+
+                {showVariables && variableTracking && (
+                  <div className="mt-3">
+                    <VariableStatePanel
+                      variableTracking={variableTracking}
+                      lineNumber={condition.lineNumber}
+                      highlight={parsedExpr?.root ? getReferencedVariables(parsedExpr.root) : []}
+                    />
+                  </div>
+                )}
               </div>
             </div>
           </td>
@@ -129,10 +213,16 @@ function ConditionRow({ condition, isExpanded, onToggle }: ConditionRowProps) {
   );
 }
 
-export function ConditionTracingSection({ conditionTracking, searchTerm = '' }: ConditionTracingSectionProps) {
+export function ConditionTracingSection({
+  conditionTracking,
+  reevaluations,
+  variableTracking,
+  searchTerm = '',
+  onOpenPlayground,
+}: ConditionTracingSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [localSearch, setLocalSearch] = useState('');
-  const [filterResult, setFilterResult] = useState<'all' | 'fired' | 'skipped'>('all');
+  const [filterResult, setFilterResult] = useState<ResultFilter>('all');
   const [currentPage, setCurrentPage] = useState(1);
   const [expandedConditions, setExpandedConditions] = useState<Set<number>>(new Set());
   const [prevSearchTerm, setPrevSearchTerm] = useState('');
@@ -141,12 +231,22 @@ export function ConditionTracingSection({ conditionTracking, searchTerm = '' }:
   // Use global search or local search
   const effectiveSearch = searchTerm || localSearch;
 
+  const reevaluationByCondition = useMemo(
+    () => new Map(reevaluations?.map(r => [r.condition, r])),
+    [reevaluations]
+  );
+  const mismatchCount = useMemo(
+    () => reevaluations?.filter(r => r.matchesRecorded === false).length ?? 0,
+    [reevaluations]
+  );
+
   // Filter conditions - memoized
   const filteredConditions = useMemo(() => {
     return conditionTracking.conditions.filter(c => {
       // Filter by result
       if (filterResult === 'fired' && !c.result) return false;
       if (filterResult === 'skipped' && c.result) return false;
+      if (filterResult === 'mismatch' && reevaluationByCondition.get(c)?.matchesRecorded !== false) return false;
 
       // Search by rule name or expression (skip trace - too expensive)
       if (effectiveSearch) {
@@ -156,7 +256,7 @@ export function ConditionTracingSection({ conditionTracking, searchTerm = '' }:
       }
       return true;
     });
-  }, [conditionTracking.conditions, effectiveSearch, filterResult]);
+  }, [conditionTracking.conditions, effectiveSearch, filterResult, reevaluationByCondition]);
 
   // Auto-expand only if there are matches
   if (searchTerm !== prevSearchTerm) {
@@ -180,7 +280,7 @@ export function ConditionTracingSection({ conditionTracking, searchTerm = '' }:
     setCurrentPage(1);
   };
 
-  const handleFilterChange = (value: 'all' | 'fired' | 'skipped') => {
+  const handleFilterChange = (value: ResultFilter) => {
     setFilterResult(value);
     setCurrentPage(1);
   };
@@ -284,6 +384,18 @@ export function ConditionTracingSection({ conditionTracking, searchTerm = '' }:
               >
                 Skipped Only
               </button>
+              {mismatchCount > 0 && (
+                <button
+                  onClick={() => handleFilterChange('mismatch')}
+                  className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                    filterResult === 'mismatch'
+                      ? 'bg-yellow-900/50 text-yellow-400'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  Mismatches ({mismatchCount})
+                </button>
+              )}
             </div>
             <span className="text-sm text-gray-500">
               Showing {paginatedConditions.length} of {filteredConditions.length}
@@ -307,8 +419,11 @@ export function ConditionTracingSection({ conditionTracking, searchTerm = '' }:
                   <ConditionRow
                     key={`${condition.lineNumber}-${idx}`}
                     condition={condition}
+                    reevaluation={reevaluationByCondition.get(condition)}
+                    variableTracking={variableTracking}
                     isExpanded={expandedConditions.has(condition.lineNumber)}
                     onToggle={() => toggleCondition(condition.lineNumber)}
+                    onOpenPlayground={onOpenPlayground}
                   />
                 ))}
               </tbody>
@@ -1,24 +1,235 @@
 /**
- * Features & Options section component
+ * Features & Options section component, with each feature's Screen Option
+ * properties, options filtered out of its full list, the rules that created
+ * its option list and group, and history of occurrences across the session
  */
 
 'use client';
 
-import { useState, useMemo } from 'react';
-import { ChevronDown } from 'lucide-react';
-import type { FeatureData } from '@/lib/trace-parser';
+import { Fragment, useState, useMemo } from 'react';
+import { ChevronDown, Filter, History } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import { useTraceViewer } from '@/app/hooks/useTraceViewer';
+import { FEATURE_FLAGS, getFeatureFlags, type FeatureFlag } from '@/lib/feature-properties';
+import {
+  getOptionAvailability,
+  getOptionProvenance,
+  type OptionAvailability,
+  type OptionProvenance,
+} from '@/lib/option-lists';
+import type { FeatureData, OptionList, OptionSource } from '@/lib/trace-parser';
 
 interface FeaturesSectionProps {
   features: FeatureData[];
+  optionLists: Map<string, OptionList>;
+  optionSources: Map<string, OptionSource>;
   searchTerm?: string;
 }
 
-export function FeaturesSection({ features, searchTerm = '' }: FeaturesSectionProps) {
+/**
+ * The rule that created an option list or group, and the expressions it ran
+ */
+function OptionSourceDetails({ label, source }: { label: string; source: OptionSource }) {
+  return (
+    <div className="text-xs space-y-0.5">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-gray-500 w-12 shrink-0">{label}</span>
+        <span className="text-gray-200">{source.ruleName}</span>
+        <span className="text-gray-500">{source.ruleType}</span>
+        <span className="text-gray-500 font-mono">{source.ruleset}</span>
+        <LineNumber line={source.lineNumber} className="font-mono text-gray-500" />
+      </div>
+      {source.condition && (
+        <div className="ml-14 text-gray-500">
+          Condition: <code className="text-gray-300 font-mono break-all">{source.condition}</code>
+        </div>
+      )}
+      {source.expression && (
+        <div className="ml-14 text-gray-500">
+          Values: <code className="text-yellow-300 font-mono break-all">{source.expression}</code>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The full option list, marking which options the latest occurrence offered.
+ * Filtered-out options jump to the rule that created the group.
+ */
+function FeatureOptionList({
+  list,
+  filteredOut,
+  provenance,
+}: Pick<OptionAvailability, 'list' | 'filteredOut'> & { provenance: OptionProvenance }) {
+  const { showLine } = useTraceViewer();
+  const { group } = provenance;
+
+  if (!list) {
+    return <div className="text-xs text-gray-500">Option List Id not logged or not resolved</div>;
+  }
+
+  const filtered = new Set(filteredOut);
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-gray-500">
+        <code className="font-mono text-gray-400">{list.id}</code>
+        {list.source === 'definition' && list.lineNumber !== null ? (
+          <> defined at <LineNumber line={list.lineNumber} /></>
+        ) : (
+          ' - no definition logged; built from every group seen for it, so options filtered out on every pass are missing'
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {list.options.map((opt) =>
+          filtered.has(opt) && group ? (
+            <button
+              key={opt}
+              onClick={() => showLine(group.lineNumber)}
+              className="text-xs px-2 py-0.5 rounded bg-gray-800/50 text-gray-500 line-through hover:text-blue-400"
+              title={`Filtered out by ${group.ruleName}${group.expression ? `: ${group.expression}` : ''}`}
+            >
+              {opt}
+            </button>
+          ) : (
+            <span
+              key={opt}
+              className={`text-xs px-2 py-0.5 rounded ${
+                filtered.has(opt) ? 'bg-gray-800/50 text-gray-500 line-through' : 'bg-gray-800 text-gray-300'
+              }`}
+              title={filtered.has(opt) ? 'Filtered out by the Option List Group' : undefined}
+            >
+              {opt}
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Every property of the latest occurrence
+ */
+function FeatureProperties({ properties }: { properties: Map<string, string> }) {
+  if (properties.size === 0) {
+    return <div className="text-xs text-gray-500">No properties logged</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+      {Array.from(properties, ([name, value]) => (
+        <div key={name} className="flex gap-2 min-w-0">
+          <span className="text-gray-500 shrink-0">{name}:</span>
+          <code className="text-gray-300 font-mono truncate" title={value}>{value === '' ? '""' : value}</code>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Every occurrence of a feature, marking what changed since the previous one
+ */
+function FeatureHistory({ feature, optionSources }: { feature: FeatureData; optionSources: Map<string, OptionSource> }) {
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-4 font-medium">#</th>
+          <th className="py-1 pr-4 font-medium">Line</th>
+          <th className="py-1 pr-4 font-medium">Option List Group</th>
+          <th className="py-1 pr-4 font-medium">Options</th>
+          <th className="py-1 font-medium">Selected</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-800">
+        {feature.occurrences.map((occurrence, i) => {
+          const previous = i > 0 ? feature.occurrences[i - 1] : null;
+          const previousOptions = new Set(previous?.options ?? []);
+          const currentOptions = new Set(occurrence.options);
+          const added = previous ? occurrence.options.filter(o => !previousOptions.has(o)) : [];
+          const removed = previous ? previous.options.filter(o => !currentOptions.has(o)) : [];
+          const valueChanged = previous !== null && previous.selectedValue !== occurrence.selectedValue;
+          const groupSource = occurrence.optionListGroup ? optionSources.get(occurrence.optionListGroup) : undefined;
+          // The group is shown in its own column
+          const changedProperties = previous
+            ? Array.from(occurrence.properties).filter(([name, value]) =>
+                name !== 'Option List Group' && previous.properties.get(name) !== value)
+            : [];
+
+          return (
+            <tr key={occurrence.lineNumber}>
+              <td className="py-1.5 pr-4 text-gray-500">{i + 1}</td>
+              <td className="py-1.5 pr-4 font-mono text-gray-500">
+                <LineNumber line={occurrence.lineNumber} />
+              </td>
+              <td className="py-1.5 pr-4">
+                <code className="text-gray-400 font-mono">{occurrence.optionListGroup ?? '—'}</code>
+                {groupSource && (
+                  <div className="text-gray-500 mt-0.5">
+                    {groupSource.ruleName} <LineNumber line={groupSource.lineNumber} className="font-mono" />
+                  </div>
+                )}
+                {changedProperties.map(([name, value]) => (
+                  <div key={name} className="text-yellow-400 mt-0.5">{name}: {value}</div>
+                ))}
+              </td>
+              <td className="py-1.5 pr-4">
+                <span className="text-gray-300">{occurrence.options.length}</span>
+                {added.length > 0 && <span className="text-green-400 ml-2">+ {added.join(', ')}</span>}
+                {removed.length > 0 && <span className="text-red-400 ml-2">− {removed.join(', ')}</span>}
+              </td>
+              <td className="py-1.5">
+                {occurrence.selectedValue ? (
+                  <span className={`px-2 py-0.5 rounded ${valueChanged ? 'bg-yellow-900/30 text-yellow-400' : 'bg-green-900/30 text-green-400'}`}>
+                    {occurrence.selectedValue}
+                  </span>
+                ) : (
+                  <span className={valueChanged ? 'text-yellow-400' : 'text-gray-500'}>—</span>
+                )}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+export function FeaturesSection({ features, optionLists, optionSources, searchTerm = '' }: FeaturesSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [prevSearchTerm, setPrevSearchTerm] = useState('');
+  const [expandedHistory, setExpandedHistory] = useState<Set<string>>(new Set());
+  const [flagFilter, setFlagFilter] = useState<FeatureFlag | null>(null);
+
+  const featureFlags = useMemo(
+    () => new Map(features.map(f => [f.name, getFeatureFlags(f.properties)])),
+    [features]
+  );
+
+  const availability = useMemo(
+    () => new Map(features.map(f => [f.name, getOptionAvailability(f, optionLists)])),
+    [features, optionLists]
+  );
+
+  const provenance = useMemo(
+    () => new Map(features.map(f => [f.name, getOptionProvenance(f, optionSources)])),
+    [features, optionSources]
+  );
+
+  const toggleHistory = (name: string) => {
+    const next = new Set(expandedHistory);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setExpandedHistory(next);
+  };
 
   // Filter features - memoized
-  const filteredFeatures = useMemo(() => {
+  const searchedFeatures = useMemo(() => {
     if (!searchTerm) return features;
     const term = searchTerm.toLowerCase();
     return features.filter(f =>
@@ -29,6 +240,11 @@ export function FeaturesSection({ features, searchTerm = '' }: FeaturesSectionPr
     );
   }, [features, searchTerm]);
 
+  const filteredFeatures = useMemo(
+    () => (flagFilter ? searchedFeatures.filter(f => featureFlags.get(f.name)?.has(flagFilter)) : searchedFeatures),
+    [searchedFeatures, featureFlags, flagFilter]
+  );
+
   // Auto-expand when search has matches
   if (searchTerm !== prevSearchTerm) {
     setPrevSearchTerm(searchTerm);
@@ -46,7 +262,7 @@ export function FeaturesSection({ features, searchTerm = '' }: FeaturesSectionPr
         <div className="flex items-center gap-3">
           <h2 className="text-lg font-semibold text-white">Features & Options</h2>
           <span className="text-sm text-gray-400">
-            {searchTerm ? `${filteredFeatures.length} of ${features.length}` : `${features.length}`} features
+            {searchTerm || flagFilter ? `${filteredFeatures.length} of ${features.length}` : `${features.length}`} features
           </span>
         </div>
         <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
@@ -54,8 +270,31 @@ export function FeaturesSection({ features, searchTerm = '' }: FeaturesSectionPr
 
       {isExpanded && (
         <div className="border-t border-gray-800 overflow-x-auto">
+          <div className="px-6 py-3 flex items-center gap-2 border-b border-gray-800">
+            <button
+              onClick={() => setFlagFilter(null)}
+              className={`px-3 py-1 text-xs rounded ${
+                flagFilter === null ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              All
+            </button>
+            {FEATURE_FLAGS.map(({ flag, label }) => (
+              <button
+                key={flag}
+                onClick={() => setFlagFilter(flagFilter === flag ? null : flag)}
+                className={`px-3 py-1 text-xs rounded ${
+                  flagFilter === flag ? 'bg-blue-900/50 text-blue-300' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                {label} ({searchedFeatures.filter(f => featureFlags.get(f.name)?.has(flag)).length})
+              </button>
+            ))}
+          </div>
           {filteredFeatures.length === 0 ? (
-            <div className="px-6 py-4 text-gray-500 text-sm">No features match &quot;{searchTerm}&quot;</div>
+            <div className="px-6 py-4 text-gray-500 text-sm">
+              {searchTerm ? <>No features match &quot;{searchTerm}&quot;</> : 'No features with this property'}
+            </div>
           ) : (
             <table className="w-full">
               <thead className="bg-gray-800/50">
@@ -65,44 +304,119 @@ export function FeaturesSection({ features, searchTerm = '' }: FeaturesSectionPr
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Options Available</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Count</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Selected</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">History</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-800">
-                {filteredFeatures.map((feature) => (
-                  <tr key={feature.name} className="hover:bg-gray-800/30">
-                    <td className="px-6 py-4">
-                      <code className="text-sm text-blue-400 font-mono">{feature.name}</code>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-300">{feature.caption}</td>
-                    <td className="px-6 py-4">
-                      <div className="flex flex-wrap gap-1">
-                        {feature.options.slice(0, 8).map((opt) => (
-                          <span
-                            key={opt}
-                            className="text-xs bg-gray-800 text-gray-300 px-2 py-0.5 rounded"
+                {filteredFeatures.map((feature) => {
+                  const { list, filteredOut } = availability.get(feature.name)!;
+                  const sources = provenance.get(feature.name)!;
+                  return (
+                    <Fragment key={feature.name}>
+                      <tr className="hover:bg-gray-800/30">
+                        <td className="px-6 py-4">
+                          <code className="text-sm text-blue-400 font-mono">{feature.name}</code>
+                          {featureFlags.get(feature.name)?.size ? (
+                            <div className="flex gap-1 mt-1">
+                              {FEATURE_FLAGS.filter(({ flag }) => featureFlags.get(feature.name)?.has(flag)).map(({ flag, label }) => (
+                                <span key={flag} className="text-[10px] uppercase bg-gray-800 text-gray-400 px-1.5 py-0.5 rounded">
+                                  {label}
+                                </span>
+                              ))}
+                            </div>
+                          ) : null}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-300">{feature.caption}</td>
+                        <td className="px-6 py-4">
+                          <div className="flex flex-wrap gap-1">
+                            {feature.options.slice(0, 8).map((opt) => (
+                              <span
+                                key={opt}
+                                className="text-xs bg-gray-800 text-gray-300 px-2 py-0.5 rounded"
+                              >
+                                {opt}
+                              </span>
+                            ))}
+                            {feature.options.length > 8 && (
+                              <span className="text-xs text-gray-500">
+                                +{feature.options.length - 8} more
+                              </span>
+                            )}
+                            {filteredOut.length > 0 && (
+                              <span className="text-xs text-gray-500 line-through" title={filteredOut.join(', ')}>
+                                {filteredOut.length} filtered out
+                              </span>
+                            )}
+                          </div>
+                          {sources.group && (
+                            <div
+                              className="flex items-center gap-1 mt-1 text-xs text-gray-500"
+                              title={sources.group.expression ?? undefined}
+                            >
+                              <Filter className="w-3 h-3" />
+                              <span className="truncate max-w-xs">{sources.group.ruleName}</span>
+                              <LineNumber line={sources.group.lineNumber} className="font-mono" />
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-400">
+                          {feature.options.length}
+                          {list && <span className="text-gray-500"> of {list.options.length}</span>}
+                        </td>
+                        <td className="px-6 py-4">
+                          {feature.selectedValue ? (
+                            <span className="text-sm bg-green-900/30 text-green-400 px-2 py-0.5 rounded">
+                              {feature.selectedValue}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-500">—</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <button
+                            onClick={() => toggleHistory(feature.name)}
+                            className={`text-xs px-2 py-0.5 rounded flex items-center gap-1 ${
+                              expandedHistory.has(feature.name)
+                                ? 'bg-blue-900/50 text-blue-300'
+                                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                            }`}
+                            title="Show properties and every occurrence of this Screen Option"
                           >
-                            {opt}
-                          </span>
-                        ))}
-                        {feature.options.length > 8 && (
-                          <span className="text-xs text-gray-500">
-                            +{feature.options.length - 8} more
-                          </span>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-400">{feature.options.length}</td>
-                    <td className="px-6 py-4">
-                      {feature.selectedValue ? (
-                        <span className="text-sm bg-green-900/30 text-green-400 px-2 py-0.5 rounded">
-                          {feature.selectedValue}
-                        </span>
-                      ) : (
-                        <span className="text-sm text-gray-500">—</span>
+                            <History className="w-3 h-3" />
+                            {feature.occurrences.length}×
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedHistory.has(feature.name) && (
+                        <tr className="bg-gray-800/20">
+                          <td colSpan={6} className="px-6 py-3 space-y-3">
+                            <div>
+                              <div className="text-xs text-gray-500 uppercase mb-1">Properties</div>
+                              <FeatureProperties properties={feature.properties} />
+                            </div>
+                            <div>
+                              <div className="text-xs text-gray-500 uppercase mb-1">Option List</div>
+                              <FeatureOptionList list={list} filteredOut={filteredOut} provenance={sources} />
+                            </div>
+                            {(sources.group || sources.list) && (
+                              <div>
+                                <div className="text-xs text-gray-500 uppercase mb-1">Created By</div>
+                                <div className="space-y-1">
+                                  {sources.group && <OptionSourceDetails label="Group" source={sources.group} />}
+                                  {sources.list && <OptionSourceDetails label="List" source={sources.list} />}
+                                </div>
+                              </div>
+                            )}
+                            <div>
+                              <div className="text-xs text-gray-500 uppercase mb-1">History</div>
+                              <FeatureHistory feature={feature} optionSources={optionSources} />
+                            </div>
+                          </td>
+                        </tr>
                       )}
-                    </td>
-                  </tr>
-                ))}
+                    </Fragment>
+                  );
+                })}
               </tbody>
             </table>
           )}
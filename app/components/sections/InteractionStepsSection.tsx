@@ -0,0 +1,187 @@
+/**
+ * Interaction Steps section - the trace split into engine passes, showing
+ * what each click executed, which Screen Options it showed and which
+ * variables it changed
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, MousePointerClick } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import type { InteractionStep } from '@/lib/trace-parser';
+
+interface InteractionStepsSectionProps {
+  steps: InteractionStep[];
+}
+
+function executionCount(step: InteractionStep): number {
+  return step.executionRange ? step.executionRange.last - step.executionRange.first + 1 : 0;
+}
+
+function StepCard({ step }: { step: InteractionStep }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const rules = executionCount(step);
+
+  return (
+    <div className="px-6 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-gray-400 hover:text-white"
+        >
+          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <MousePointerClick className="w-4 h-4 text-blue-400" />
+        <span className="text-white font-medium">Step {step.index}</span>
+        <span className="text-xs text-gray-400">
+          {rules.toLocaleString()} rule{rules !== 1 ? 's' : ''}
+        </span>
+        {step.rulesExecuted === null && (
+          <span className="text-xs bg-yellow-900/50 text-yellow-400 px-2 py-0.5 rounded">incomplete</span>
+        )}
+        {step.features.length > 0 && (
+          <span className="text-xs bg-blue-900/50 text-blue-400 px-2 py-0.5 rounded">
+            {step.features.length} option{step.features.length !== 1 ? 's' : ''}
+          </span>
+        )}
+        {step.variableChanges.length > 0 && (
+          <span className="text-xs bg-purple-900/50 text-purple-400 px-2 py-0.5 rounded">
+            {step.variableChanges.length} variable{step.variableChanges.length !== 1 ? 's' : ''} changed
+          </span>
+        )}
+        <span className="text-xs font-mono text-gray-500 ml-auto">
+          <LineNumber line={step.startLine} />–<LineNumber line={step.endLine} />
+        </span>
+      </div>
+
+      {isExpanded && (
+        <div className="ml-6 mt-2 space-y-3 text-xs">
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-gray-400">
+            <span>
+              Reported:{' '}
+              <span className="text-gray-200">
+                {step.rulesExecuted !== null ? `${step.rulesExecuted.toLocaleString()} rules executed` : 'no "rules executed" line'}
+              </span>
+            </span>
+            {step.executionRange && (
+              <span>
+                Executions:{' '}
+                <span className="text-gray-200 font-mono">
+                  #{step.executionRange.first}–#{step.executionRange.last}
+                </span>
+              </span>
+            )}
+            {step.rollbackPoints.length > 0 && (
+              <span>
+                Rollback points: <span className="text-gray-200 font-mono">{step.rollbackPoints.join(', ')}</span>
+              </span>
+            )}
+          </div>
+
+          {step.features.length > 0 && (
+            <div>
+              <div className="text-gray-500 mb-1">Screen Options</div>
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-800">
+                  {step.features.map((feature) => (
+                    <tr key={feature.name}>
+                      <td className="py-1 pr-4">
+                        <code className="text-blue-400 font-mono" title={feature.caption}>{feature.name}</code>
+                      </td>
+                      <td className="py-1 pr-4">
+                        {feature.selectedValue !== null ? (
+                          <code className="text-gray-200 font-mono">{feature.selectedValue}</code>
+                        ) : (
+                          <span className="text-gray-600 italic">no selection</span>
+                        )}
+                      </td>
+                      <td className="py-1 text-gray-500">
+                        {feature.options.length} option{feature.options.length !== 1 ? 's' : ''}
+                      </td>
+                      <td className="py-1 text-right font-mono text-gray-500">
+                        <LineNumber line={feature.lineNumber} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step.variableChanges.length > 0 && (
+            <div>
+              <div className="text-gray-500 mb-1">Variable Changes</div>
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-800">
+                  {step.variableChanges.map((change) => (
+                    <tr key={change.name}>
+                      <td className="py-1 pr-4">
+                        <code className="text-purple-400 font-mono">{change.name}</code>
+                      </td>
+                      <td className="py-1 pr-4 font-mono break-all">
+                        <span className="text-red-400">{change.previousValue ?? 'null'}</span>
+                        <span className="text-gray-600"> → </span>
+                        <span className="text-green-400">{change.newValue ?? 'null'}</span>
+                      </td>
+                      <td className="py-1 text-gray-500">
+                        {change.assignmentCount > 1 && `${change.assignmentCount} assignments`}
+                      </td>
+                      <td className="py-1 text-right font-mono text-gray-500">
+                        <LineNumber line={change.lineNumber} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step.features.length === 0 && step.variableChanges.length === 0 && (
+            <div className="text-gray-500">No Screen Options shown and no variable values changed</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function InteractionStepsSection({ steps }: InteractionStepsSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-800/50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-white">Interaction Steps</h2>
+          <span className="text-xs bg-blue-900/50 text-blue-400 px-2 py-1 rounded">
+            {steps.length} step{steps.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-800">
+          {steps.length === 0 ? (
+            <div className="px-6 py-4 text-gray-500 text-sm">No engine passes found in this trace</div>
+          ) : (
+            <>
+              <div className="px-6 py-2 bg-gray-800/30 border-b border-gray-800 text-xs text-gray-500">
+                Each step is one engine pass, ending at its &quot;rules executed&quot; line
+              </div>
+              <div className="divide-y divide-gray-800 max-h-[600px] overflow-auto">
+                {steps.map((step) => (
+                  <StepCard key={step.index} step={step} />
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
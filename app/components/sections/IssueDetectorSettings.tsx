@@ -0,0 +1,181 @@
+/**
+ * Issue Detector Settings - enable/disable detectors, override severities and
+ * thresholds, and import/export the project's JSON config
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { Download, RotateCcw, Upload } from 'lucide-react';
+import { ISSUE_DETECTORS, resolveDetectorSettings, validateIssueDetectionConfig } from '@/lib/issue-detection';
+import type { IssueDetector, IssueDetectionConfig, IssueDetectorSettings as DetectorSettings } from '@/lib/issue-detection';
+import type { IssueSeverity } from '@/lib/trace-parser';
+
+interface IssueDetectorSettingsProps {
+  config: IssueDetectionConfig;
+  onChange: (config: IssueDetectionConfig) => void;
+}
+
+/**
+ * Merge a change into one detector's settings, keeping only overrides
+ * so the exported config stays minimal
+ */
+function applyDetectorChange(
+  config: IssueDetectionConfig,
+  detector: IssueDetector,
+  patch: DetectorSettings
+): IssueDetectionConfig {
+  const current = config.detectors?.[detector.id] ?? {};
+  const next: DetectorSettings = {
+    ...current,
+    ...patch,
+    parameters: { ...current.parameters, ...patch.parameters },
+  };
+
+  if (next.enabled !== false) delete next.enabled;
+  if (!next.severity) delete next.severity;
+  for (const [name, value] of Object.entries(next.parameters ?? {})) {
+    if (value === detector.parameters[name]?.default) delete next.parameters![name];
+  }
+  if (Object.keys(next.parameters ?? {}).length === 0) delete next.parameters;
+
+  const detectors = { ...config.detectors, [detector.id]: next };
+  if (Object.keys(next).length === 0) delete detectors[detector.id];
+  return { detectors };
+}
+
+export function IssueDetectorSettings({ config, onChange }: IssueDetectorSettingsProps) {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    try {
+      onChange(validateIssueDetectionConfig(JSON.parse(await file.text())));
+      setError(null);
+    } catch (e) {
+      setError(`Failed to import config: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'issue-detection.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border-b border-gray-800 bg-gray-900/50">
+      <div className="px-6 py-3 flex items-center justify-between border-b border-gray-800">
+        <h3 className="text-sm font-semibold text-white">Detector Settings</h3>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-sm flex items-center gap-1.5"
+          >
+            <Upload className="w-3.5 h-3.5" />
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-3 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-sm flex items-center gap-1.5"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export
+          </button>
+          <button
+            onClick={() => onChange({})}
+            className="px-3 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded text-sm flex items-center gap-1.5"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-3 p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">{error}</div>
+      )}
+
+      <div className="divide-y divide-gray-800">
+        {ISSUE_DETECTORS.map((detector) => {
+          const settings = resolveDetectorSettings(detector, config);
+
+          return (
+            <div key={detector.id} className={`px-6 py-3 ${settings.enabled ? '' : 'opacity-50'}`}>
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => onChange(applyDetectorChange(config, detector, { enabled: e.target.checked }))}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-white">{detector.name}</span>
+                    <span className="text-xs text-gray-500 uppercase">{detector.category}</span>
+                    <code className="text-xs text-gray-600 font-mono">{detector.id}</code>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-0.5">{detector.description}</p>
+
+                  {Object.keys(detector.parameters).length > 0 && (
+                    <div className="flex flex-wrap gap-4 mt-2">
+                      {Object.entries(detector.parameters).map(([name, parameter]) => (
+                        <label key={name} className="text-xs text-gray-400 flex items-center gap-2" title={parameter.description}>
+                          {parameter.label}
+                          <input
+                            type="number"
+                            min={parameter.min}
+                            value={settings.parameters[name]}
+                            disabled={!settings.enabled}
+                            onChange={(e) => {
+                              const value = e.target.valueAsNumber;
+                              if (Number.isNaN(value) || value < (parameter.min ?? -Infinity)) return;
+                              onChange(applyDetectorChange(config, detector, { parameters: { [name]: value } }));
+                            }}
+                            className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white font-mono focus:outline-none focus:border-blue-500"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <select
+                  value={settings.severity ?? ''}
+                  disabled={!settings.enabled}
+                  onChange={(e) =>
+                    onChange(
+                      applyDetectorChange(config, detector, {
+                        severity: (e.target.value || undefined) as IssueSeverity | undefined,
+                      })
+                    )
+                  }
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">Default ({detector.defaultSeverity})</option>
+                  <option value="error">Error</option>
+                  <option value="warning">Warning</option>
+                  <option value="info">Info</option>
+                </select>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,21 @@
 /**
- * Issues section with severity filtering
+ * Issues section with severity filtering and detector settings
  */
 
 'use client';
 
 import { useState } from 'react';
-import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, Settings } from 'lucide-react';
+import { ISSUE_DETECTORS } from '@/lib/issue-detection';
+import { IssueDetectorSettings } from './IssueDetectorSettings';
+import { LineNumber } from '@/app/components/shared/LineNumber';
 import type { IssuesSummary, DetectedIssue, IssueSeverity } from '@/lib/trace-parser';
+import type { IssueDetectionConfig } from '@/lib/issue-detection';
 
 interface IssuesSectionProps {
   issues: IssuesSummary;
+  config: IssueDetectionConfig;
+  onConfigChange: (config: IssueDetectionConfig) => void;
 }
 
 function getSeverityIcon(severity: IssueSeverity) {
@@ -63,8 +69,16 @@ function IssueCard({ issue }: IssueCardProps) {
           <div className="flex items-center gap-2">
             <span className="font-medium text-white">{issue.title}</span>
             <span className="text-xs text-gray-500 uppercase">{issue.category}</span>
+            <span className="text-xs text-gray-600">
+              {ISSUE_DETECTORS.find(d => d.id === issue.detectorId)?.name ?? issue.detectorId}
+            </span>
             {issue.lineNumber > 0 && (
-              <span className="text-xs text-gray-500 font-mono">L:{issue.lineNumber}</span>
+              <span className="text-xs text-gray-500 font-mono">
+                <LineNumber line={issue.lineNumber} />
+                {issue.endLineNumber && issue.endLineNumber > issue.lineNumber && (
+                  <>–<LineNumber line={issue.endLineNumber} /></>
+                )}
+              </span>
             )}
           </div>
           <p className="text-sm text-gray-400 mt-1">{issue.description}</p>
@@ -110,15 +124,13 @@ function IssueCard({ issue }: IssueCardProps) {
   );
 }
 
-export function IssuesSection({ issues }: IssuesSectionProps) {
+export function IssuesSection({ issues, config, onConfigChange }: IssuesSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [severityFilter, setSeverityFilter] = useState<IssueSeverity | 'all'>('all');
 
   const totalIssues = issues.issues.length;
-
-  if (totalIssues === 0) {
-    return null;
-  }
+  const disabledCount = ISSUE_DETECTORS.filter(d => config.detectors?.[d.id]?.enabled === false).length;
 
   const filteredIssues = severityFilter === 'all'
     ? issues.issues
@@ -128,88 +140,116 @@ export function IssuesSection({ issues }: IssuesSectionProps) {
     <div className={`border rounded-xl overflow-hidden ${
       issues.errorCount > 0 ? 'bg-red-950/30 border-red-900/50' :
       issues.warningCount > 0 ? 'bg-yellow-950/30 border-yellow-900/50' :
-      'bg-blue-950/30 border-blue-900/50'
+      totalIssues > 0 ? 'bg-blue-950/30 border-blue-900/50' :
+      'bg-gray-900 border-gray-800'
     }`}>
-      <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className="w-full px-6 py-4 flex items-center justify-between hover:bg-black/20 transition-colors"
-      >
-        <div className="flex items-center gap-3">
-          <AlertTriangle className="w-5 h-5 text-yellow-500" />
-          <h2 className="text-lg font-semibold text-white">Issues Detected</h2>
-          <div className="flex items-center gap-2 text-sm">
-            {issues.errorCount > 0 && (
-              <span className="bg-red-900/50 text-red-400 px-2 py-0.5 rounded">{issues.errorCount} errors</span>
-            )}
-            {issues.warningCount > 0 && (
-              <span className="bg-yellow-900/50 text-yellow-400 px-2 py-0.5 rounded">{issues.warningCount} warnings</span>
-            )}
-            {issues.infoCount > 0 && (
-              <span className="bg-blue-900/50 text-blue-400 px-2 py-0.5 rounded">{issues.infoCount} info</span>
+      <div className="flex items-center hover:bg-black/20 transition-colors">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-1 px-6 py-4 flex items-center justify-between"
+        >
+          <div className="flex items-center gap-3">
+            {totalIssues > 0 ? (
+              <AlertTriangle className="w-5 h-5 text-yellow-500" />
+            ) : (
+              <CheckCircle className="w-5 h-5 text-green-500" />
             )}
+            <h2 className="text-lg font-semibold text-white">{totalIssues > 0 ? 'Issues Detected' : 'No Issues Detected'}</h2>
+            <div className="flex items-center gap-2 text-sm">
+              {issues.errorCount > 0 && (
+                <span className="bg-red-900/50 text-red-400 px-2 py-0.5 rounded">{issues.errorCount} errors</span>
+              )}
+              {issues.warningCount > 0 && (
+                <span className="bg-yellow-900/50 text-yellow-400 px-2 py-0.5 rounded">{issues.warningCount} warnings</span>
+              )}
+              {issues.infoCount > 0 && (
+                <span className="bg-blue-900/50 text-blue-400 px-2 py-0.5 rounded">{issues.infoCount} info</span>
+              )}
+              {disabledCount > 0 && (
+                <span className="text-gray-500">{disabledCount} detector{disabledCount !== 1 ? 's' : ''} disabled</span>
+              )}
+            </div>
           </div>
-        </div>
-        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
-      </button>
+          <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </button>
+        <button
+          onClick={() => {
+            setShowSettings(!showSettings);
+            setIsExpanded(true);
+          }}
+          title="Detector settings"
+          className={`mr-4 p-2 rounded-lg transition-colors ${
+            showSettings ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+          }`}
+        >
+          <Settings className="w-4 h-4" />
+        </button>
+      </div>
 
       {isExpanded && (
         <div className="border-t border-gray-800">
-          {/* Filter Buttons */}
-          <div className="px-6 py-3 border-b border-gray-800 flex gap-2">
-            <button
-              onClick={() => setSeverityFilter('all')}
-              className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                severityFilter === 'all'
-                  ? 'bg-gray-700 text-white'
-                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
-              }`}
-            >
-              All ({totalIssues})
-            </button>
-            {issues.errorCount > 0 && (
-              <button
-                onClick={() => setSeverityFilter('error')}
-                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                  severityFilter === 'error'
-                    ? 'bg-red-900/50 text-red-400'
-                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
-                }`}
-              >
-                Errors ({issues.errorCount})
-              </button>
-            )}
-            {issues.warningCount > 0 && (
-              <button
-                onClick={() => setSeverityFilter('warning')}
-                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                  severityFilter === 'warning'
-                    ? 'bg-yellow-900/50 text-yellow-400'
-                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
-                }`}
-              >
-                Warnings ({issues.warningCount})
-              </button>
-            )}
-            {issues.infoCount > 0 && (
-              <button
-                onClick={() => setSeverityFilter('info')}
-                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                  severityFilter === 'info'
-                    ? 'bg-blue-900/50 text-blue-400'
-                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
-                }`}
-              >
-                Info ({issues.infoCount})
-              </button>
-            )}
-          </div>
+          {showSettings && <IssueDetectorSettings config={config} onChange={onConfigChange} />}
 
-          {/* Issue List */}
-          <div className="divide-y divide-gray-800 max-h-96 overflow-y-auto">
-            {filteredIssues.map((issue) => (
-              <IssueCard key={issue.id} issue={issue} />
-            ))}
-          </div>
+          {totalIssues > 0 && (
+            <>
+              {/* Filter Buttons */}
+              <div className="px-6 py-3 border-b border-gray-800 flex gap-2">
+                <button
+                  onClick={() => setSeverityFilter('all')}
+                  className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                    severityFilter === 'all'
+                      ? 'bg-gray-700 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  All ({totalIssues})
+                </button>
+                {issues.errorCount > 0 && (
+                  <button
+                    onClick={() => setSeverityFilter('error')}
+                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                      severityFilter === 'error'
+                        ? 'bg-red-900/50 text-red-400'
+                        : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                    }`}
+                  >
+                    Errors ({issues.errorCount})
+                  </button>
+                )}
+                {issues.warningCount > 0 && (
+                  <button
+                    onClick={() => setSeverityFilter('warning')}
+                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                      severityFilter === 'warning'
+                        ? 'bg-yellow-900/50 text-yellow-400'
+                        : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                    }`}
+                  >
+                    Warnings ({issues.warningCount})
+                  </button>
+                )}
+                {issues.infoCount > 0 && (
+                  <button
+                    onClick={() => setSeverityFilter('info')}
+                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                      severityFilter === 'info'
+                        ? 'bg-blue-900/50 text-blue-400'
+                        : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                    }`}
+                  >
+                    Info ({issues.infoCount})
+                  </button>
+                )}
+              </div>
+
+              {/* Issue List */}
+              <div className="divide-y divide-gray-800 max-h-96 overflow-y-auto">
+                {filteredIssues.map((issue) => (
+                  <IssueCard key={issue.id} issue={issue} />
+                ))}
+              </div>
+            </>
+          )}
         </div>
       )}
     </div>
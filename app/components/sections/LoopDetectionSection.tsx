@@ -0,0 +1,183 @@
+/**
+ * Loops & Recursion section - repeating execution cycles and rulesets
+ * re-entered through LoadRulesetRule, with jump-to line ranges
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Repeat } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import { analyzeLoops } from '@/lib/loop-detection';
+import type { ExecutionCycle, LineRange, LoopDetectionOptions, RulesetRecursion } from '@/lib/loop-detection';
+import type { RuleExecutionTimeline } from '@/lib/trace-parser';
+
+const MAX_OCCURRENCES_SHOWN = 20;
+
+interface LoopDetectionSectionProps {
+  timeline: RuleExecutionTimeline;
+  options?: LoopDetectionOptions;
+}
+
+function LineRangeLink({ range }: { range: LineRange }) {
+  return (
+    <span className="font-mono text-gray-500">
+      <LineNumber line={range.startLine} />
+      {range.endLine > range.startLine && (
+        <>–<LineNumber line={range.endLine} /></>
+      )}
+    </span>
+  );
+}
+
+function CycleCard({ cycle }: { cycle: ExecutionCycle }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const first = cycle.occurrences[0];
+  const last = cycle.occurrences[cycle.occurrences.length - 1];
+
+  return (
+    <div className="px-6 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-gray-400 hover:text-white"
+        >
+          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <Repeat className="w-4 h-4 text-yellow-400" />
+        <span className="text-white font-medium">
+          {cycle.rules.length}-rule cycle × {cycle.repetitions.toLocaleString()}
+        </span>
+        <span className="text-xs text-gray-500 truncate" title={cycle.rules[0].ruleset}>
+          {cycle.rules[0].ruleset}
+        </span>
+        <span className="text-xs ml-auto">
+          <LineRangeLink range={{ startLine: first.startLine, endLine: last.endLine }} />
+        </span>
+      </div>
+
+      {isExpanded && (
+        <div className="ml-6 mt-2 grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+          <div>
+            <div className="text-gray-500 mb-1">Sequence</div>
+            <ol className="space-y-0.5">
+              {cycle.rules.map((rule, i) => (
+                <li key={i} className="flex gap-2">
+                  <span className="text-gray-600 w-5 text-right shrink-0">{i + 1}.</span>
+                  <span className="text-gray-300 truncate" title={`${rule.ruleName} (${rule.ruleId})`}>
+                    {rule.ruleName}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+          <div>
+            <div className="text-gray-500 mb-1">Iterations</div>
+            <div className="flex flex-wrap gap-x-3 gap-y-0.5">
+              {cycle.occurrences.slice(0, MAX_OCCURRENCES_SHOWN).map((range, i) => (
+                <LineRangeLink key={i} range={range} />
+              ))}
+            </div>
+            {cycle.occurrences.length > MAX_OCCURRENCES_SHOWN && (
+              <div className="text-gray-500 mt-1">
+                ... and {cycle.occurrences.length - MAX_OCCURRENCES_SHOWN} more iterations
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RecursionCard({ recursion }: { recursion: RulesetRecursion }) {
+  return (
+    <div className="px-6 py-3">
+      <div className="flex items-center gap-2 text-sm">
+        <Repeat className="w-4 h-4 text-red-400" />
+        <span className="text-white font-medium truncate" title={recursion.reenteredRuleset}>
+          {recursion.reenteredRuleset}
+        </span>
+        <span className="text-xs text-gray-500 truncate" title={recursion.ruleName}>
+          re-entered by &quot;{recursion.ruleName}&quot;
+        </span>
+        <span className="text-xs ml-auto">
+          <LineRangeLink range={recursion.range} />
+        </span>
+      </div>
+      <div className="ml-6 mt-1 flex flex-wrap items-center gap-1 text-xs font-mono">
+        {recursion.stack.map((ruleset, i) => (
+          <span key={i} className={ruleset === recursion.reenteredRuleset ? 'text-red-400' : 'text-gray-400'}>
+            {i > 0 && <span className="text-gray-600">→ </span>}
+            {ruleset}
+          </span>
+        ))}
+        <span className="text-red-400">
+          <span className="text-gray-600">→ </span>
+          {recursion.reenteredRuleset}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function LoopDetectionSection({ timeline, options }: LoopDetectionSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const { cycles, recursions } = useMemo(() => analyzeLoops(timeline, options), [timeline, options]);
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-800/50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-white">Loops & Recursion</h2>
+          <span className="text-xs bg-yellow-900/50 text-yellow-400 px-2 py-1 rounded">
+            {cycles.length} cycle{cycles.length !== 1 ? 's' : ''}
+          </span>
+          <span className="text-xs bg-red-900/50 text-red-400 px-2 py-1 rounded">
+            {recursions.length} recursion{recursions.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-800">
+          {cycles.length === 0 && recursions.length === 0 ? (
+            <div className="px-6 py-4 text-gray-500 text-sm">No repeating cycles or ruleset recursion detected</div>
+          ) : (
+            <>
+              {recursions.length > 0 && (
+                <div>
+                  <div className="px-6 py-2 bg-gray-800/30 border-b border-gray-800 text-xs text-gray-500">
+                    Rulesets loaded again while already on the load stack
+                  </div>
+                  <div className="divide-y divide-gray-800">
+                    {recursions.map((recursion) => (
+                      <RecursionCard key={recursion.executionId} recursion={recursion} />
+                    ))}
+                  </div>
+                </div>
+              )}
+              {cycles.length > 0 && (
+                <div>
+                  <div className="px-6 py-2 bg-gray-800/30 border-y border-gray-800 text-xs text-gray-500">
+                    The same rule sequence executed back to back
+                  </div>
+                  <div className="divide-y divide-gray-800 max-h-[500px] overflow-auto">
+                    {cycles.map((cycle) => (
+                      <CycleCard key={cycle.startExecution} cycle={cycle} />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
 'use client';
 
 import { MetadataItem } from '@/app/components/shared/MetadataItem';
+import { getUnnamedHeaderFields } from '@/lib/trace-parser';
 import type { ParsedTrace } from '@/lib/trace-parser';
 
 interface MetadataSectionProps {
@@ -13,19 +14,37 @@ interface MetadataSectionProps {
 }
 
 export function MetadataSection({ trace, featuresCount }: MetadataSectionProps) {
+  const { metadata } = trace;
+  const otherFields = getUnnamedHeaderFields(metadata);
+  const started = metadata.startedAt !== null ? new Date(metadata.startedAt).toLocaleString() : metadata.timestamp;
+
   return (
     <div className="bg-gray-900 border border-gray-800 rounded-xl p-6">
       <h2 className="text-lg font-semibold text-white mb-4">Configuration Details</h2>
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <MetadataItem label="Instance" value={trace.metadata.instance} />
-        <MetadataItem label="Config ID" value={trace.metadata.configurationId} />
-        <MetadataItem label="Part Number" value={trace.metadata.partNumber} />
-        <MetadataItem label="Namespace" value={trace.metadata.partNamespace} />
-        <MetadataItem label="Mode" value={trace.metadata.configurationMode} />
+        <MetadataItem label="Instance" value={metadata.instance} />
+        <MetadataItem label="Config ID" value={metadata.configurationId} />
+        <MetadataItem label="Part Number" value={metadata.partNumber} />
+        <MetadataItem label="Namespace" value={metadata.partNamespace} />
+        <MetadataItem label="Mode" value={metadata.configurationMode} />
+        <MetadataItem label="Started" value={started} />
+        <MetadataItem label="User" value={metadata.user} />
+        <MetadataItem label="Culture" value={metadata.culture} />
         <MetadataItem label="Rules Executed" value={trace.rulesExecuted.toString()} />
         <MetadataItem label="Rollback Points" value={trace.rollbackPoints.toString()} />
         <MetadataItem label="Features" value={featuresCount.toString()} />
       </div>
+
+      {otherFields.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mt-6 mb-3">Other Header Fields</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {otherFields.map(([name, value]) => (
+              <MetadataItem key={name} label={name} value={value} />
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,124 @@
+/**
+ * Parse Diagnostics section - how much of the trace the parser recognized,
+ * and the lines it skipped or couldn't make sense of
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, FileSearch } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import type { IssueSeverity, ParseCoverage, ParseDiagnostic } from '@/lib/trace-parser';
+
+interface ParseDiagnosticsSectionProps {
+  diagnostics: ParseDiagnostic[];
+  coverage: ParseCoverage;
+}
+
+const severityStyles: Record<IssueSeverity, string> = {
+  error: 'bg-red-900/50 text-red-400',
+  warning: 'bg-yellow-900/50 text-yellow-400',
+  info: 'bg-blue-900/50 text-blue-400',
+};
+
+function getCoverageColor(percent: number | null): { text: string; bar: string; badge: string } {
+  if (percent === null) return { text: 'text-gray-400', bar: 'bg-gray-600', badge: 'bg-gray-800 text-gray-400' };
+  if (percent >= 95) return { text: 'text-green-400', bar: 'bg-green-500', badge: 'bg-green-900/50 text-green-400' };
+  if (percent >= 80) return { text: 'text-yellow-400', bar: 'bg-yellow-500', badge: 'bg-yellow-900/50 text-yellow-400' };
+  return { text: 'text-red-400', bar: 'bg-red-500', badge: 'bg-red-900/50 text-red-400' };
+}
+
+export function ParseDiagnosticsSection({ diagnostics, coverage }: ParseDiagnosticsSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const colors = getCoverageColor(coverage.percent);
+  const warningCount = diagnostics.filter(d => d.severity !== 'info').length;
+  const unrecognizedLines = coverage.totalLines - coverage.recognizedLines;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-800/30 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <FileSearch className="w-5 h-5 text-gray-400" />
+          <h2 className="text-lg font-semibold text-white">Parse Diagnostics</h2>
+          <span className={`text-xs px-2 py-1 rounded ${colors.badge}`}>
+            {coverage.percent === null ? 'Coverage unknown' : `${coverage.percent}% coverage`}
+          </span>
+          {warningCount > 0 && (
+            <span className="text-xs bg-yellow-900/50 text-yellow-400 px-2 py-1 rounded">
+              {warningCount} warning{warningCount !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-800">
+          {/* Coverage */}
+          {coverage.percent === null ? (
+            <div className="px-6 py-4 border-b border-gray-800 text-sm text-gray-400">
+              This trace was stored before parse diagnostics were recorded. Re-import it to check how much was recognized.
+            </div>
+          ) : (
+            <div className="px-6 py-4 border-b border-gray-800">
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-gray-400">
+                  {coverage.recognizedLines.toLocaleString()} of {coverage.totalLines.toLocaleString()} non-blank lines
+                  attributed to a recognized section
+                </span>
+                <span className={`font-mono ${colors.text}`}>{coverage.percent}%</span>
+              </div>
+              <div className="h-2 bg-gray-800 rounded overflow-hidden">
+                <div className={`h-full ${colors.bar}`} style={{ width: `${coverage.percent}%` }} />
+              </div>
+              {unrecognizedLines > 0 && (
+                <div className="text-xs text-gray-500 mt-2">
+                  {unrecognizedLines.toLocaleString()} unrecognized line{unrecognizedLines !== 1 ? 's' : ''} were skipped
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Diagnostics */}
+          {diagnostics.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-800/50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Severity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Code</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Message</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Line</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {diagnostics.map((diagnostic, idx) => (
+                    <tr key={`${diagnostic.lineNumber}-${diagnostic.code}-${idx}`} className="hover:bg-gray-800/30">
+                      <td className="px-6 py-2">
+                        <span className={`text-xs px-1.5 py-0.5 rounded ${severityStyles[diagnostic.severity]}`}>
+                          {diagnostic.severity}
+                        </span>
+                      </td>
+                      <td className="px-6 py-2 text-xs text-gray-400 font-mono">{diagnostic.code}</td>
+                      <td className="px-6 py-2 text-sm text-gray-300">{diagnostic.message}</td>
+                      <td className="px-6 py-2 text-right text-xs font-mono text-gray-500">
+                        <LineNumber line={diagnostic.lineNumber} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="px-6 py-4 text-sm text-gray-500">
+              {coverage.percent === null ? 'No diagnostics recorded' : 'No parse problems found'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
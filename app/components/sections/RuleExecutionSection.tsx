@@ -7,6 +7,7 @@
 import { useState } from 'react';
 import { ChevronDown } from 'lucide-react';
 import { RuleSummaryCard } from '@/app/components/shared/RuleSummaryCard';
+import { getRuleType, isRegisteredRuleType } from '@/lib/rule-types';
 import type { RuleExecutionSummary } from '@/lib/trace-parser';
 
 interface RuleExecutionSectionProps {
@@ -57,8 +58,11 @@ export function RuleExecutionSection({ rulesSummary }: RuleExecutionSectionProps
             </h3>
             <div className="flex flex-wrap gap-3">
               {ruleTypeArray.map(([type, count]) => (
-                <div key={type} className="flex items-center gap-2 bg-gray-800 rounded px-3 py-1.5">
+                <div key={type} className="flex items-center gap-2 bg-gray-800 rounded px-3 py-1.5" title={getRuleType(type).description}>
                   <span className="text-sm text-gray-300">{type.replace('Rule', '')}</span>
+                  {!isRegisteredRuleType(type) && (
+                    <span className="text-xs bg-yellow-900/50 text-yellow-400 px-1.5 py-0.5 rounded">unregistered</span>
+                  )}
                   <span className="text-sm text-gray-500">{count.toLocaleString()}</span>
                   <span className="text-xs text-gray-600">
                     ({Math.round((count / rulesSummary.totalExecutions) * 100)}%)
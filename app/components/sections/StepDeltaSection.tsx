@@ -0,0 +1,255 @@
+/**
+ * Step Changes section - what changed between one interaction step and the
+ * next: feature values and option lists, variables, conditions and
+ * integration rows, reusing the Compare tab's diff sections
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Check, ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import { SummaryBadge } from '@/app/components/shared/SummaryBadge';
+import { ConditionDiffSection } from '@/app/components/compare/ConditionDiffSection';
+import { VariableDiffSection } from '@/app/components/compare/VariableDiffSection';
+import { IntegrationOutputDiffSection } from '@/app/components/compare/IntegrationOutputDiffSection';
+import { compareSteps } from '@/lib/trace-parser';
+import type { ParsedTrace } from '@/lib/trace-parser';
+
+interface StepDeltaSectionProps {
+  trace: ParsedTrace;
+}
+
+export function StepDeltaSection({ trace }: StepDeltaSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedStep, setSelectedStep] = useState(2);
+
+  const stepCount = trace.steps.length;
+  // Another trace may have fewer steps than the one the selection was made in
+  const toStep = Math.min(selectedStep, stepCount);
+  const fromStep = toStep - 1;
+
+  const diff = useMemo(
+    () => (isExpanded && fromStep >= 1 ? compareSteps(trace, fromStep, toStep) : null),
+    [isExpanded, trace, fromStep, toStep]
+  );
+
+  const integrationChanges = diff
+    ? diff.integrationOutputDiff.addedTemplates.length +
+      diff.integrationOutputDiff.removedTemplates.length +
+      Array.from(diff.integrationOutputDiff.templateDiffs.values()).reduce(
+        (sum, d) => sum + d.addedRows.length + d.removedRows.length + d.changedRows.length,
+        0
+      )
+    : 0;
+
+  const hasChanges = diff !== null && (
+    diff.addedFeatures.length > 0 ||
+    diff.optionChanges.length > 0 ||
+    diff.valueChanges.length > 0 ||
+    diff.propertyChanges.length > 0 ||
+    integrationChanges > 0 ||
+    diff.variableDiff.totalChanges > 0 ||
+    diff.conditionDiff.totalChanges > 0
+  );
+
+  const step = trace.steps[toStep - 1];
+  const fromLabel = `Step ${fromStep}`;
+  const toLabel = `Step ${toStep}`;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-800/50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-white">Step Changes</h2>
+          <span className="text-xs bg-blue-900/50 text-blue-400 px-2 py-1 rounded">
+            {Math.max(stepCount - 1, 0)} transition{stepCount - 1 !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-800">
+          {!diff || !step ? (
+            <div className="px-6 py-4 text-gray-500 text-sm">
+              At least two interaction steps are needed to compare
+            </div>
+          ) : (
+            <div className="p-6 space-y-6">
+              {/* Step picker */}
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setSelectedStep(toStep - 1)}
+                  disabled={toStep <= 2}
+                  className="p-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Previous step"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <select
+                  value={toStep}
+                  onChange={(e) => setSelectedStep(Number(e.target.value))}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+                >
+                  {trace.steps.slice(1).map((s) => (
+                    <option key={s.index} value={s.index}>
+                      Step {s.index - 1} → Step {s.index}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setSelectedStep(toStep + 1)}
+                  disabled={toStep >= stepCount}
+                  className="p-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Next step"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+                <span className="text-xs text-gray-500 font-mono">
+                  {toLabel}: <LineNumber line={step.startLine} />–<LineNumber line={step.endLine} />
+                </span>
+              </div>
+
+              {/* Summary */}
+              {!hasChanges ? (
+                <div className="text-green-400 flex items-center gap-2 text-sm">
+                  <Check className="w-5 h-5" />
+                  Nothing changed between {fromLabel} and {toLabel}
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-4">
+                  <SummaryBadge count={diff.valueChanges.length} label="Value Changes" color="blue" />
+                  <SummaryBadge count={diff.optionChanges.length} label="Option Changes" color="yellow" />
+                  <SummaryBadge count={diff.propertyChanges.length} label="Property Changes" color="orange" />
+                  <SummaryBadge count={diff.addedFeatures.length} label="Features Shown" color="green" />
+                  <SummaryBadge count={integrationChanges} label="Integration Changes" color="purple" />
+                  <SummaryBadge count={diff.variableDiff.totalChanges} label="Variable Changes" color="cyan" />
+                  <SummaryBadge count={diff.conditionDiff.totalChanges} label="Condition Changes" color="orange" />
+                </div>
+              )}
+
+              {/* Feature values */}
+              {diff.valueChanges.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-blue-400 mb-2">Value Changes</h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-1 pr-4 font-medium">Feature</th>
+                        <th className="py-1 pr-4 font-medium">{fromLabel}</th>
+                        <th className="py-1 font-medium">{toLabel}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-800">
+                      {diff.valueChanges.map((change) => (
+                        <tr key={change.feature}>
+                          <td className="py-1.5 pr-4">
+                            <code className="text-blue-400 font-mono">{change.feature}</code>
+                          </td>
+                          <td className="py-1.5 pr-4">
+                            {change.baselineValue ? (
+                              <span className="bg-red-900/30 text-red-300 px-2 py-0.5 rounded">{change.baselineValue}</span>
+                            ) : (
+                              <span className="text-gray-500">—</span>
+                            )}
+                          </td>
+                          <td className="py-1.5">
+                            {change.currentValue ? (
+                              <span className="bg-green-900/30 text-green-300 px-2 py-0.5 rounded">{change.currentValue}</span>
+                            ) : (
+                              <span className="text-gray-500">—</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Option lists */}
+              {diff.optionChanges.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-yellow-400 mb-2">Option Changes</h3>
+                  <div className="space-y-2">
+                    {diff.optionChanges.map((change) => (
+                      <div key={change.feature} className="bg-gray-800/50 rounded-lg px-3 py-2 text-xs">
+                        <code className="text-blue-400 font-mono text-sm">{change.feature}</code>
+                        <span className="text-gray-500 ml-2">
+                          {change.baselineOptions.length} → {change.currentOptions.length} options
+                        </span>
+                        <div className="mt-1 flex flex-wrap gap-4">
+                          {change.addedOptions.length > 0 && (
+                            <span className="text-green-400">+ {change.addedOptions.join(', ')}</span>
+                          )}
+                          {change.removedOptions.length > 0 && (
+                            <span className="text-red-400">− {change.removedOptions.join(', ')}</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Other Screen Option properties */}
+              {diff.propertyChanges.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-orange-400 mb-2">Property Changes</h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-1 pr-4 font-medium">Feature</th>
+                        <th className="py-1 pr-4 font-medium">Property</th>
+                        <th className="py-1 pr-4 font-medium">{fromLabel}</th>
+                        <th className="py-1 font-medium">{toLabel}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-800">
+                      {diff.propertyChanges.map((change) => (
+                        <tr key={`${change.feature}:${change.property}`}>
+                          <td className="py-1.5 pr-4">
+                            <code className="text-blue-400 font-mono">{change.feature}</code>
+                          </td>
+                          <td className="py-1.5 pr-4 text-gray-300">{change.property}</td>
+                          <td className="py-1.5 pr-4 font-mono text-red-300">{change.baselineValue ?? '—'}</td>
+                          <td className="py-1.5 font-mono text-green-300">{change.currentValue ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Features first shown */}
+              {diff.addedFeatures.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-green-400 mb-2">First Shown in {toLabel}</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {diff.addedFeatures.map((f) => (
+                      <code key={f} className="text-xs bg-gray-800 text-gray-300 px-2 py-0.5 rounded font-mono">
+                        {f}
+                      </code>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <IntegrationOutputDiffSection
+                integrationDiff={diff.integrationOutputDiff}
+                baselineLabel={fromLabel}
+                currentLabel={toLabel}
+              />
+              <VariableDiffSection variableDiff={diff.variableDiff} baselineLabel={fromLabel} currentLabel={toLabel} />
+              <ConditionDiffSection conditionDiff={diff.conditionDiff} baselineLabel={fromLabel} currentLabel={toLabel} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,11 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { ChevronDown, X } from 'lucide-react';
+import { ChevronDown, ChevronRight, Repeat, X } from 'lucide-react';
 import { LineNumber } from '@/app/components/shared/LineNumber';
-import type { RuleExecutionTimeline, RuleExecution } from '@/lib/trace-parser';
+import { VariableStatePanel } from '@/app/components/shared/VariableStatePanel';
+import { createLoopIterationIndex } from '@/lib/loop-iterations';
+import type { LoopRun, RuleExecutionTimeline, RuleExecution, VariableTrackingSummary } from '@/lib/trace-parser';
 
 interface RulesetNode {
   ruleset: string;
@@ -85,12 +87,72 @@ function buildRulesetTree(timeline: RuleExecutionTimeline): RulesetNode[] {
   return roots;
 }
 
+// One loop run with its per-iteration breakdown
+function LoopRunRow({ loop }: { loop: LoopRun }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const iterationCount = loop.iterations.length;
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 py-1 px-2 -mx-2 rounded hover:bg-gray-800/30 text-left"
+      >
+        <ChevronRight className={`w-3 h-3 text-gray-500 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+        <span className="text-gray-400 w-16 shrink-0">{loop.ruleType.replace('Rule', '')}</span>
+        <span className="text-gray-300 truncate" title={`${loop.ruleset} / ${loop.ruleName}`}>{loop.ruleName}</span>
+        <span className="bg-orange-900/50 text-orange-400 px-1.5 py-0.5 rounded shrink-0">
+          {iterationCount} iteration{iterationCount !== 1 ? 's' : ''}
+        </span>
+        <LineNumber line={loop.startLine} className="text-gray-600 ml-auto font-mono" />
+      </button>
+
+      {isExpanded && (
+        <table className="w-full ml-5 mb-2">
+          <thead>
+            <tr className="text-left text-gray-500 uppercase border-b border-gray-700">
+              <th className="py-1 pr-4">#</th>
+              <th className="py-1 pr-4">Item</th>
+              <th className="py-1 pr-4">Rules</th>
+              <th className="py-1 pr-4">Assignments</th>
+              <th className="py-1 pr-4">Lines</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loop.iterations.map((iteration) => (
+              <tr key={iteration.index} className="border-t border-gray-700/50">
+                <td className="py-1 pr-4 text-gray-500">{iteration.index}</td>
+                <td className="py-1 pr-4 font-mono">
+                  {iteration.item !== null ? (
+                    <span className="text-gray-300" title={iteration.itemVariable ?? undefined}>{iteration.item}</span>
+                  ) : (
+                    <span className="text-gray-500">—</span>
+                  )}
+                </td>
+                <td className="py-1 pr-4 text-gray-400 font-mono">
+                  {iteration.executionRange.last - iteration.executionRange.first + 1}
+                </td>
+                <td className="py-1 pr-4 text-gray-400 font-mono">{iteration.assignmentCount}</td>
+                <td className="py-1 pr-4 font-mono text-gray-500">
+                  <LineNumber line={iteration.startLine} />–{iteration.endLine.toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
 interface TimelineSectionProps {
   timeline: RuleExecutionTimeline;
+  variableTracking?: VariableTrackingSummary;
+  loops: LoopRun[];
   searchTerm?: string;
 }
 
-export function TimelineSection({ timeline, searchTerm = '' }: TimelineSectionProps) {
+export function TimelineSection({ timeline, variableTracking, loops, searchTerm = '' }: TimelineSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
   const [selectedRule, setSelectedRule] = useState<RuleExecution | null>(null);
@@ -98,6 +160,8 @@ export function TimelineSection({ timeline, searchTerm = '' }: TimelineSectionPr
 
   // Memoize tree building and filtering - must be before any conditional returns
   const rulesetTree = useMemo(() => buildRulesetTree(timeline), [timeline]);
+  const loopIndex = useMemo(() => createLoopIterationIndex(loops), [loops]);
+  const selectedIteration = selectedRule ? loopIndex.getIterationAt(selectedRule.lineNumber) : null;
 
   // Filter tree based on search term - memoized
   const filteredTree = useMemo(() => {
@@ -286,6 +350,11 @@ export function TimelineSection({ timeline, searchTerm = '' }: TimelineSectionPr
           <span className="text-xs bg-gray-800 text-gray-400 px-2 py-1 rounded">
             {timeline.totalExecutions.toLocaleString()} rules
           </span>
+          {loops.length > 0 && (
+            <span className="text-xs bg-orange-900/50 text-orange-400 px-2 py-1 rounded">
+              {loops.length} loop{loops.length !== 1 ? 's' : ''}
+            </span>
+          )}
         </div>
         <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
       </button>
@@ -324,6 +393,21 @@ export function TimelineSection({ timeline, searchTerm = '' }: TimelineSectionPr
             ))}
           </div>
 
+          {/* Loops */}
+          {loops.length > 0 && (
+            <div className="px-6 py-3 border-b border-gray-800">
+              <div className="flex items-center gap-2 text-xs text-gray-500 uppercase mb-1">
+                <Repeat className="w-3.5 h-3.5 text-orange-400" />
+                Loops
+              </div>
+              <div className="max-h-[300px] overflow-auto">
+                {loops.map((loop) => (
+                  <LoopRunRow key={loop.id} loop={loop} />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Flow Tree */}
           <div className="p-6 max-h-[500px] overflow-auto">
             {filteredTree.length > 0 ? (
@@ -351,6 +435,18 @@ export function TimelineSection({ timeline, searchTerm = '' }: TimelineSectionPr
                     <div className="text-gray-400">Rule ID: <span className="text-gray-300">{selectedRule.ruleId}</span></div>
                     <div className="text-gray-400">Ruleset: <span className="text-gray-300">{selectedRule.ruleset}</span></div>
                     <div className="text-gray-400">Line: <LineNumber line={selectedRule.lineNumber} className="text-gray-300" /></div>
+                    {selectedIteration && (
+                      <div className="text-gray-400 col-span-2">
+                        Iteration:{' '}
+                        <span className="text-orange-400">
+                          {selectedIteration.iteration.index} of {selectedIteration.loop.iterations.length}
+                        </span>{' '}
+                        <span className="text-gray-300">
+                          of &quot;{selectedIteration.loop.ruleName}&quot;
+                          {selectedIteration.iteration.item !== null && ` (${selectedIteration.iteration.item})`}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
                 <button
@@ -360,6 +456,18 @@ export function TimelineSection({ timeline, searchTerm = '' }: TimelineSectionPr
                   <X className="w-4 h-4 text-gray-400" />
                 </button>
               </div>
+
+              {/* Variable state when the rule started */}
+              {variableTracking && (
+                <div className="mt-3">
+                  <div className="text-xs text-gray-500 uppercase mb-1">Variables before this rule</div>
+                  <VariableStatePanel
+                    key={selectedRule.executionId}
+                    variableTracking={variableTracking}
+                    lineNumber={selectedRule.lineNumber}
+                  />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,263 @@
+/**
+ * Timing Profile section - self and total time per ruleset and rule, with a
+ * flame graph of ruleset load stacks that zooms into a frame on click
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Flame } from 'lucide-react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import { buildTimingProfile, formatTimingValue, FLAME_FRAME_SEPARATOR } from '@/lib/timing-profile';
+import type { FlameFrame, TimingProfile } from '@/lib/timing-profile';
+import type { ParsedTrace } from '@/lib/trace-parser';
+
+const MAX_ROWS_SHOWN = 10;
+const MIN_FRAME_PERCENT = 0.3;   // Narrower frames are left out of the graph
+
+const FRAME_COLORS = [
+  'bg-orange-800 hover:bg-orange-700',
+  'bg-amber-800 hover:bg-amber-700',
+  'bg-red-800 hover:bg-red-700',
+  'bg-yellow-800 hover:bg-yellow-700',
+  'bg-rose-800 hover:bg-rose-700',
+];
+
+interface TimingProfileSectionProps {
+  trace: ParsedTrace;
+}
+
+interface PlacedFrame {
+  frame: FlameFrame;
+  left: number;                  // Percent of the graph width
+  width: number;
+}
+
+function frameColor(ruleset: string): string {
+  let hash = 0;
+  for (let i = 0; i < ruleset.length; i++) {
+    hash = (hash * 31 + ruleset.charCodeAt(i)) | 0;
+  }
+  return FRAME_COLORS[Math.abs(hash) % FRAME_COLORS.length];
+}
+
+// Frames from the top-level ruleset down to the one with this id
+function findFramePath(frames: FlameFrame[], id: string): FlameFrame[] {
+  for (const frame of frames) {
+    if (frame.id === id) return [frame];
+    if (id.startsWith(frame.id + FLAME_FRAME_SEPARATOR)) {
+      const path = findFramePath(frame.children, id);
+      if (path.length > 0) return [frame, ...path];
+    }
+  }
+  return [];
+}
+
+// Rows of frames below the zoomed frame, sized by total relative to it
+function layoutFrames(frames: FlameFrame[], scale: number): PlacedFrame[][] {
+  const rows: PlacedFrame[][] = [];
+  const place = (children: FlameFrame[], left: number, depth: number) => {
+    let offset = left;
+    for (const frame of children) {
+      const width = frame.total * scale;
+      if (width >= MIN_FRAME_PERCENT) {
+        (rows[depth] ??= []).push({ frame, left: offset, width });
+        place(frame.children, offset, depth + 1);
+      }
+      offset += width;
+    }
+  };
+  place(frames, 0, 0);
+  return rows;
+}
+
+function FlameGraph({ profile, trace }: { profile: TimingProfile; trace: ParsedTrace }) {
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  const path = useMemo(() => (focusId ? findFramePath(profile.frames, focusId) : []), [profile, focusId]);
+  const focus = path.length > 0 ? path[path.length - 1] : null;
+  const rootTotal = focus ? focus.total : profile.total;
+
+  const rows = useMemo(() => {
+    if (rootTotal === 0) return [];
+    return layoutFrames(focus ? [focus] : profile.frames, 100 / rootTotal);
+  }, [profile, focus, rootTotal]);
+
+  const describe = (frame: FlameFrame) =>
+    `${frame.id}\nSelf: ${formatTimingValue(frame.self, profile.weight)}\nTotal: ${formatTimingValue(frame.total, profile.weight)} ` +
+    `(${((frame.total / profile.total) * 100).toFixed(1)}%)\nExecutions: ${frame.executions.toLocaleString()}`;
+
+  return (
+    <div className="px-6 py-4">
+      <div className="flex flex-wrap items-center gap-1 text-xs mb-3">
+        <button
+          onClick={() => setFocusId(null)}
+          className={focus ? 'text-blue-400 hover:underline' : 'text-gray-300'}
+        >
+          All rulesets
+        </button>
+        {path.map((frame) => (
+          <span key={frame.id} className="flex items-center gap-1">
+            <ChevronRight className="w-3 h-3 text-gray-600" />
+            <button
+              onClick={() => setFocusId(frame.id)}
+              className={frame === focus ? 'text-gray-300' : 'text-blue-400 hover:underline'}
+            >
+              {frame.ruleset}
+            </button>
+          </span>
+        ))}
+        {focus && (
+          <span className="ml-auto text-gray-500 flex items-center gap-2">
+            {formatTimingValue(focus.total, profile.weight)} total, first at
+            <LineNumber line={trace.timeline.executions[focus.firstExecutionId].lineNumber} className="font-mono" />
+          </span>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-gray-500 text-sm">Nothing to profile</div>
+      ) : (
+        <div className="space-y-px">
+          {rows.map((row, depth) => (
+            <div key={depth} className="relative h-6">
+              {row.map(({ frame, left, width }) => (
+                <button
+                  key={frame.id}
+                  onClick={() => setFocusId(frame.id)}
+                  title={describe(frame)}
+                  className={`absolute inset-y-0 px-1 text-left text-xs text-white truncate rounded-sm border-r border-gray-900 ${frameColor(frame.ruleset)}`}
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                >
+                  {frame.ruleset}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-600 mt-2">
+        Width is total {profile.weight === 'time' ? 'time' : 'line weight'}; frames below a ruleset are the rulesets it loaded. Click a frame to zoom in.
+      </p>
+    </div>
+  );
+}
+
+function TimingTable({
+  title,
+  rows,
+  weight,
+  total,
+}: {
+  title: string;
+  rows: { key: string; name: string; detail: string; executions: number; self: number; total: number }[];
+  weight: TimingProfile['weight'];
+  total: number;
+}) {
+  return (
+    <div>
+      <div className="px-6 py-2 bg-gray-800/30 border-y border-gray-800 text-xs text-gray-500">{title}</div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 uppercase tracking-wider">
+            <th className="px-6 py-2 text-left font-medium">Name</th>
+            <th className="px-3 py-2 text-right font-medium">Runs</th>
+            <th className="px-3 py-2 text-right font-medium">Self</th>
+            <th className="px-6 py-2 text-right font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-800">
+          {rows.slice(0, MAX_ROWS_SHOWN).map((row) => (
+            <tr key={row.key} className="hover:bg-gray-800/50">
+              <td className="px-6 py-2 max-w-0 w-full">
+                <div className="text-gray-200 truncate" title={row.name}>{row.name}</div>
+                {row.detail && <div className="text-xs text-gray-500 truncate" title={row.detail}>{row.detail}</div>}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-400 font-mono">{row.executions.toLocaleString()}</td>
+              <td className="px-3 py-2 text-right font-mono whitespace-nowrap">
+                <span className="text-orange-400">{formatTimingValue(row.self, weight)}</span>
+                <span className="text-xs text-gray-600 ml-1">{total > 0 ? ((row.self / total) * 100).toFixed(1) : '0.0'}%</span>
+              </td>
+              <td className="px-6 py-2 text-right text-gray-300 font-mono whitespace-nowrap">{formatTimingValue(row.total, weight)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function TimingProfileSection({ trace }: TimingProfileSectionProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const profile = useMemo(() => buildTimingProfile(trace), [trace]);
+  const { weight, timedExecutions } = profile;
+  const totalExecutions = trace.timeline.totalExecutions;
+
+  return (
+    <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-800/50 transition-colors"
+      >
+        <div className="flex items-center gap-3">
+          <Flame className="w-5 h-5 text-orange-400" />
+          <h2 className="text-lg font-semibold text-white">Timing Profile</h2>
+          {weight === 'time' ? (
+            <span className="text-xs bg-green-900/50 text-green-400 px-2 py-1 rounded">
+              {formatTimingValue(profile.total, weight)} logged
+            </span>
+          ) : (
+            <span className="text-xs bg-gray-800 text-gray-400 px-2 py-1 rounded">Line-count weight</span>
+          )}
+          {weight === 'time' && timedExecutions < totalExecutions && (
+            <span className="text-xs bg-yellow-900/50 text-yellow-400 px-2 py-1 rounded">
+              {timedExecutions.toLocaleString()} of {totalExecutions.toLocaleString()} rules timed
+            </span>
+          )}
+        </div>
+        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-800">
+          {weight === 'lines' && (
+            <div className="px-6 py-2 bg-gray-800/30 border-b border-gray-800 text-xs text-gray-500">
+              This trace logs no Timestamp or Elapsed lines, so each rule is weighted by the trace lines up to the next
+              rule. Line counts show where the log is busiest, not where time was spent.
+            </div>
+          )}
+          <FlameGraph profile={profile} trace={trace} />
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-x-6 pb-2">
+            <TimingTable
+              title="Rulesets by self"
+              rows={profile.rulesets.map(r => ({
+                key: r.ruleset,
+                name: r.ruleset,
+                detail: '',
+                executions: r.executions,
+                self: r.self,
+                total: r.total,
+              }))}
+              weight={weight}
+              total={profile.total}
+            />
+            <TimingTable
+              title="Rules by self"
+              rows={profile.rules.map(r => ({
+                key: `${r.ruleset}:${r.ruleId}`,
+                name: r.ruleName,
+                detail: `${r.ruleType} · ${r.ruleset}`,
+                executions: r.executions,
+                self: r.self,
+                total: r.total,
+              }))}
+              weight={weight}
+              total={profile.total}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,20 +8,30 @@ import { useState, useMemo } from 'react';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 import { LineNumber } from '@/app/components/shared/LineNumber';
 import { RuleSummaryCard } from '@/app/components/shared/RuleSummaryCard';
-import type { VariableTrackingSummary, VariableSummary } from '@/lib/trace-parser';
+import { createLoopIterationIndex, type LoopIterationIndex } from '@/lib/loop-iterations';
+import type { LoopRun, VariableTrackingSummary, VariableSummary } from '@/lib/trace-parser';
 
 interface VariableTrackingSectionProps {
   variableTracking: VariableTrackingSummary;
+  loops: LoopRun[];
   searchTerm?: string;
 }
 
 interface VariableRowProps {
   variable: VariableSummary;
+  loopIndex: LoopIterationIndex;
   isExpanded: boolean;
   onToggle: () => void;
 }
 
-function VariableRow({ variable, isExpanded, onToggle }: VariableRowProps) {
+function VariableRow({ variable, loopIndex, isExpanded, onToggle }: VariableRowProps) {
+  // Loop iteration each assignment ran in, if any
+  const iterations = useMemo(
+    () => variable.assignments.map(a => loopIndex.getIterationAt(a.lineNumber)),
+    [variable.assignments, loopIndex]
+  );
+  const iterationCount = new Set(iterations.filter(match => match !== null).map(match => match.iteration)).size;
+
   return (
     <>
       <tr
@@ -37,6 +47,11 @@ function VariableRow({ variable, isExpanded, onToggle }: VariableRowProps) {
                 changed
               </span>
             )}
+            {iterationCount > 0 && (
+              <span className="text-xs bg-orange-900/50 text-orange-400 px-1.5 py-0.5 rounded">
+                {iterationCount} iteration{iterationCount !== 1 ? 's' : ''}
+              </span>
+            )}
           </div>
         </td>
         <td className="px-6 py-3">
@@ -61,6 +76,7 @@ function VariableRow({ variable, isExpanded, onToggle }: VariableRowProps) {
                   <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-700">
                     <th className="pb-2 pr-4">#</th>
                     <th className="pb-2 pr-4">Line</th>
+                    {iterationCount > 0 && <th className="pb-2 pr-4">Iteration</th>}
                     <th className="pb-2 pr-4">Expression</th>
                     <th className="pb-2 pr-4">Previous</th>
                     <th className="pb-2 pr-4">Result</th>
@@ -72,10 +88,28 @@ function VariableRow({ variable, isExpanded, onToggle }: VariableRowProps) {
                       assignment.resultValue !== null &&
                       assignment.previousValue !== assignment.resultValue &&
                       assignment.previousValue !== '(unassigned)';
+                    const match = iterations[idx];
                     return (
                       <tr key={`${assignment.lineNumber}-${idx}`} className="border-t border-gray-700/50">
                         <td className="py-2 pr-4 text-gray-500">{idx + 1}</td>
                         <td className="py-2 pr-4 font-mono text-gray-400"><LineNumber line={assignment.lineNumber} /></td>
+                        {iterationCount > 0 && (
+                          <td className="py-2 pr-4 text-xs">
+                            {match ? (
+                              <span
+                                className="text-orange-400"
+                                title={`${match.loop.ruleName}${match.iteration.item !== null ? ` (${match.iteration.item})` : ''}`}
+                              >
+                                {match.iteration.index}/{match.loop.iterations.length}
+                                {match.iteration.item !== null && (
+                                  <span className="text-gray-400 font-mono ml-1">{match.iteration.item}</span>
+                                )}
+                              </span>
+                            ) : (
+                              <span className="text-gray-500">—</span>
+                            )}
+                          </td>
+                        )}
                         <td className="py-2 pr-4">
                           <code className="text-blue-400 text-xs break-all max-w-xs block">
                             {assignment.assignmentExpression.length > 60
@@ -116,7 +150,7 @@ function VariableRow({ variable, isExpanded, onToggle }: VariableRowProps) {
   );
 }
 
-export function VariableTrackingSection({ variableTracking, searchTerm = '' }: VariableTrackingSectionProps) {
+export function VariableTrackingSection({ variableTracking, loops, searchTerm = '' }: VariableTrackingSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [localSearch, setLocalSearch] = useState('');
   const [filterHasChanges, setFilterHasChanges] = useState(false);
@@ -125,6 +159,8 @@ export function VariableTrackingSection({ variableTracking, searchTerm = '' }: V
   const [prevSearchTerm, setPrevSearchTerm] = useState('');
   const pageSize = 50;
 
+  const loopIndex = useMemo(() => createLoopIterationIndex(loops), [loops]);
+
   // Use global search or local search
   const effectiveSearch = searchTerm || localSearch;
 
@@ -272,6 +308,7 @@ export function VariableTrackingSection({ variableTracking, searchTerm = '' }: V
                   <VariableRow
                     key={variable.name}
                     variable={variable}
+                    loopIndex={loopIndex}
                     isExpanded={expandedVariables.has(variable.name)}
                     onToggle={() => toggleVariable(variable.name)}
                   />
@@ -5,13 +5,16 @@
 'use client';
 
 import type { ExpressionNode } from '@/lib/expression-parser';
+import { formatExpressionValue, type ExpressionValue } from '@/lib/expression-evaluator';
 
 interface ExpressionTreeProps {
   node: ExpressionNode;
   depth: number;
+  values?: Map<ExpressionNode, ExpressionValue>;  // Evaluated value per node
+  changedNodes?: Set<ExpressionNode>;             // Nodes to highlight as changed
 }
 
-export function ExpressionTree({ node, depth }: ExpressionTreeProps) {
+export function ExpressionTree({ node, depth, values, changedNodes }: ExpressionTreeProps) {
   const getNodeColor = (type: ExpressionNode['type']) => {
     switch (type) {
       case 'function': return 'text-blue-400';
@@ -71,13 +74,24 @@ export function ExpressionTree({ node, depth }: ExpressionTreeProps) {
         <span className={getNodeColor(node.type)}>
           {getNodeLabel(node)}
         </span>
+
+        {/* Evaluated value */}
+        {values && (
+          values.has(node) ? (
+            <span className={changedNodes?.has(node) ? 'text-yellow-300 bg-yellow-900/40 px-1 rounded' : 'text-gray-400'}>
+              → {formatExpressionValue(values.get(node) as ExpressionValue)}
+            </span>
+          ) : (
+            <span className="text-gray-600 italic">not evaluated</span>
+          )
+        )}
       </div>
 
       {/* Render children */}
       {hasChildren && (
         <div className="ml-4">
           {node.children!.map((child, idx) => (
-            <ExpressionTree key={idx} node={child} depth={depth + 1} />
+            <ExpressionTree key={idx} node={child} depth={depth + 1} values={values} changedNodes={changedNodes} />
           ))}
         </div>
       )}
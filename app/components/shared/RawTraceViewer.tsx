@@ -1,20 +1,25 @@
 /**
- * Raw Trace Viewer Modal - shows full trace content with scroll to target line
+ * Raw Trace Viewer Modal - shows full trace content with scroll to target line,
+ * shading the block the target line belongs to
  */
 
 'use client';
 
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { X } from 'lucide-react';
+import { findBlockAt, getBlockLabel } from '@/lib/trace-blocks';
+import type { TraceBlock } from '@/lib/trace-parser';
 
 interface RawTraceViewerProps {
   content: string;
   lineNumber: number;
+  blocks?: TraceBlock[];
   onClose: () => void;
 }
 
-export function RawTraceViewer({ content, lineNumber, onClose }: RawTraceViewerProps) {
+export function RawTraceViewer({ content, lineNumber, blocks = [], onClose }: RawTraceViewerProps) {
   const lines = useMemo(() => content.split(/\r?\n/), [content]);
+  const targetBlock = useMemo(() => findBlockAt(blocks, lineNumber), [blocks, lineNumber]);
   const WINDOW_SIZE = 200; // Show 200 lines at a time
 
   // Calculate initial window centered on target line
@@ -75,6 +80,15 @@ export function RawTraceViewer({ content, lineNumber, onClose }: RawTraceViewerP
             <h3 className="text-lg font-semibold text-white">Raw Trace</h3>
             <span className="text-sm text-blue-400">Line {lineNumber.toLocaleString()}</span>
             <span className="text-xs text-gray-500">({lines.length.toLocaleString()} total)</span>
+            {targetBlock && (
+              <button
+                onClick={() => goToLine(targetBlock.startLine)}
+                className="text-xs bg-gray-800 text-gray-300 px-2 py-1 rounded truncate max-w-md hover:bg-gray-700"
+                title={`Lines ${targetBlock.startLine.toLocaleString()}-${targetBlock.endLine.toLocaleString()}`}
+              >
+                {getBlockLabel(targetBlock)} · L{targetBlock.startLine.toLocaleString()}–{targetBlock.endLine.toLocaleString()}
+              </button>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <button
@@ -120,11 +134,14 @@ export function RawTraceViewer({ content, lineNumber, onClose }: RawTraceViewerP
               {visibleLines.map((line, idx) => {
                 const actualLineNum = window.start + idx + 1;
                 const isTarget = actualLineNum === lineNumber;
+                const inBlock = targetBlock !== null &&
+                  actualLineNum >= targetBlock.startLine &&
+                  actualLineNum <= targetBlock.endLine;
                 return (
                   <tr
                     key={actualLineNum}
                     ref={isTarget ? targetRef : undefined}
-                    className={isTarget ? 'bg-blue-900/50' : 'hover:bg-gray-800/50'}
+                    className={isTarget ? 'bg-blue-900/50' : inBlock ? 'bg-blue-950/40' : 'hover:bg-gray-800/50'}
                   >
                     <td className={`px-3 py-0.5 text-right select-none border-r border-gray-700 sticky left-0 bg-gray-900 ${isTarget ? 'text-blue-400 font-bold bg-blue-900/50' : 'text-gray-600'}`} style={{ minWidth: '70px' }}>
                       {actualLineNum.toLocaleString()}
@@ -141,7 +158,7 @@ export function RawTraceViewer({ content, lineNumber, onClose }: RawTraceViewerP
 
         {/* Footer */}
         <div className="px-4 py-2 border-t border-gray-700 text-xs text-gray-500 flex items-center justify-between shrink-0">
-          <span>Target line highlighted in blue</span>
+          <span>Target line highlighted in blue{targetBlock && ', its block shaded'}</span>
           <span>Press Escape to close</span>
         </div>
       </div>
@@ -5,7 +5,8 @@
 'use client';
 
 import { useState, useCallback, useRef } from 'react';
-import { Upload } from 'lucide-react';
+import { Upload, X } from 'lucide-react';
+import type { ParseProgress } from '@/lib/trace-parser';
 
 interface TraceUploaderProps {
   label: string;
@@ -13,6 +14,8 @@ interface TraceUploaderProps {
   onPaste: (content: string) => void;
   hasData: boolean;
   isLoading: boolean;
+  progress?: Pick<ParseProgress, 'percent' | 'linesParsed'> | null; // Set while this uploader's trace is being parsed
+  onCancel?: () => void;
 }
 
 export function TraceUploader({
@@ -21,6 +24,8 @@ export function TraceUploader({
   onPaste,
   hasData,
   isLoading,
+  progress = null,
+  onCancel,
 }: TraceUploaderProps) {
   const [pasteMode, setPasteMode] = useState(false);
   const [pasteContent, setPasteContent] = useState('');
@@ -53,7 +58,35 @@ export function TraceUploader({
         )}
       </div>
 
-      {!pasteMode ? (
+      {progress ? (
+        <div className="border-2 border-dashed border-gray-700 rounded-lg p-8">
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-gray-300">Parsing trace...</span>
+            <span className="text-gray-400 font-mono">
+              {progress.percent !== null && `${progress.percent}% · `}
+              {progress.linesParsed.toLocaleString()} lines
+            </span>
+          </div>
+          <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full bg-blue-600 transition-all ${progress.percent === null ? 'animate-pulse w-full' : ''}`}
+              style={progress.percent !== null ? { width: `${progress.percent}%` } : undefined}
+            />
+          </div>
+          {onCancel && (
+            <div className="flex justify-center mt-4">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 text-sm font-medium flex items-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      ) : !pasteMode ? (
         <div
           onDrop={handleDrop}
           onDragOver={(e) => e.preventDefault()}
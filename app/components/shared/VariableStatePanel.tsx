@@ -0,0 +1,84 @@
+/**
+ * Variable state panel - every variable's value as of a trace line
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { LineNumber } from '@/app/components/shared/LineNumber';
+import { getVariableStateIndex } from '@/lib/variable-state';
+import type { VariableTrackingSummary } from '@/lib/trace-parser';
+
+interface VariableStatePanelProps {
+  variableTracking: VariableTrackingSummary;
+  lineNumber: number;
+  highlight?: string[];   // Variable names to list first (e.g. those an expression reads)
+}
+
+export function VariableStatePanel({ variableTracking, lineNumber, highlight = [] }: VariableStatePanelProps) {
+  const [filter, setFilter] = useState('');
+
+  const snapshot = useMemo(
+    () => getVariableStateIndex(variableTracking).getVariableStateAt(lineNumber),
+    [variableTracking, lineNumber]
+  );
+
+  const rows = useMemo(() => {
+    const highlighted = new Set(highlight.map(name => name.toLowerCase()));
+    const isHighlighted = (name: string, rawName: string) =>
+      highlighted.has(name.toLowerCase()) || highlighted.has(rawName.toLowerCase());
+    const term = filter.toLowerCase();
+
+    return snapshot
+      .filter(s => !term || s.name.toLowerCase().includes(term) || (s.value ?? '').toLowerCase().includes(term))
+      .map(s => ({ ...s, isHighlighted: isHighlighted(s.name, s.assignment.variableName) }))
+      .sort((a, b) => Number(b.isHighlighted) - Number(a.isHighlighted));
+  }, [snapshot, highlight, filter]);
+
+  return (
+    <div className="bg-gray-900/70 rounded-lg border border-gray-700">
+      <div className="px-3 py-2 flex items-center justify-between gap-3 border-b border-gray-700">
+        <span className="text-xs text-gray-400">
+          {snapshot.length.toLocaleString()} variable{snapshot.length !== 1 ? 's' : ''} assigned as of{' '}
+          <LineNumber line={lineNumber} className="text-gray-300" />
+        </span>
+        <input
+          type="text"
+          placeholder="Filter variables..."
+          value={filter}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => setFilter(e.target.value)}
+          className="w-48 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500"
+        />
+      </div>
+      {rows.length > 0 ? (
+        <div className="max-h-64 overflow-auto">
+          <table className="w-full text-xs">
+            <tbody className="divide-y divide-gray-800">
+              {rows.map((row) => (
+                <tr key={row.name} className={row.isHighlighted ? 'bg-purple-900/20' : ''}>
+                  <td className="px-3 py-1.5">
+                    <code className="text-purple-400 font-mono" title={row.assignment.variableName}>{row.name}</code>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <code className="text-gray-200 font-mono break-all">{row.value ?? 'null'}</code>
+                  </td>
+                  <td className="px-3 py-1.5 text-gray-500 truncate max-w-xs" title={row.assignment.ruleName}>
+                    {row.assignment.ruleName}
+                  </td>
+                  <td className="px-3 py-1.5 text-right font-mono text-gray-500">
+                    <LineNumber line={row.assignment.lineNumber} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="px-3 py-2 text-xs text-gray-500">
+          {filter ? `No variables match "${filter}"` : 'No variables assigned yet'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,96 @@
 /**
- * Debug Tab - displays variables, conditions, and execution timeline
+ * Debug Tab - displays variables, conditions, what-if playground, execution timeline, loops and timing profile
  */
 
 'use client';
 
+import { useMemo, useRef, useState } from 'react';
+import { InteractionStepsSection } from '@/app/components/sections/InteractionStepsSection';
+import { StepDeltaSection } from '@/app/components/sections/StepDeltaSection';
 import { VariableTrackingSection } from '@/app/components/sections/VariableTrackingSection';
 import { ConditionTracingSection } from '@/app/components/sections/ConditionTracingSection';
 import { TimelineSection } from '@/app/components/sections/TimelineSection';
-import type { ParsedTrace } from '@/lib/trace-parser';
+import { LoopDetectionSection } from '@/app/components/sections/LoopDetectionSection';
+import { TimingProfileSection } from '@/app/components/sections/TimingProfileSection';
+import { ConditionPlaygroundSection } from '@/app/components/sections/ConditionPlaygroundSection';
+import { ISSUE_DETECTORS, resolveDetectorSettings } from '@/lib/issue-detection';
+import { reevaluateConditions } from '@/lib/expression-evaluator';
+import type { IssueDetectionConfig } from '@/lib/issue-detection';
+import type { LoopDetectionOptions } from '@/lib/loop-detection';
+import type { ConditionEvaluation, ParsedTrace } from '@/lib/trace-parser';
 
 interface DebugTabProps {
   trace: ParsedTrace;
   searchTerm?: string;
+  issueConfig?: IssueDetectionConfig;
 }
 
-export function DebugTab({ trace, searchTerm = '' }: DebugTabProps) {
+export function DebugTab({ trace, searchTerm = '', issueConfig }: DebugTabProps) {
+  // Same thresholds as the execution-cycle detector, so the section agrees with the Issues panel
+  const loopOptions = useMemo<LoopDetectionOptions>(() => {
+    const detector = ISSUE_DETECTORS.find(d => d.id === 'execution-cycle')!;
+    const { parameters } = resolveDetectorSettings(detector, issueConfig);
+    return { minRepetitions: parameters.minRepetitions, maxCycleLength: parameters.maxCycleLength };
+  }, [issueConfig]);
+
+  const reevaluations = useMemo(() => reevaluateConditions(trace), [trace]);
+
+  // Remember which trace the condition came from so loading another trace closes the playground
+  const [playground, setPlayground] = useState<{ trace: ParsedTrace; condition: ConditionEvaluation } | null>(null);
+  const playgroundCondition = playground?.trace === trace ? playground.condition : null;
+  const playgroundRef = useRef<HTMLDivElement>(null);
+
+  const openPlayground = (condition: ConditionEvaluation) => {
+    setPlayground({ trace, condition });
+    requestAnimationFrame(() => playgroundRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  };
+
   return (
     <div className="space-y-6">
+      {/* Interaction Steps */}
+      {trace.steps && <InteractionStepsSection steps={trace.steps} />}
+
+      {/* Step Changes */}
+      {trace.steps && <StepDeltaSection trace={trace} />}
+
       {/* Variable Tracking */}
       {trace.variableTracking && (
-        <VariableTrackingSection variableTracking={trace.variableTracking} searchTerm={searchTerm} />
+        <VariableTrackingSection variableTracking={trace.variableTracking} loops={trace.loops} searchTerm={searchTerm} />
       )}
 
       {/* Condition Tracing */}
       {trace.conditionTracking && (
-        <ConditionTracingSection conditionTracking={trace.conditionTracking} searchTerm={searchTerm} />
+        <ConditionTracingSection
+          conditionTracking={trace.conditionTracking}
+          reevaluations={reevaluations}
+          variableTracking={trace.variableTracking}
+          searchTerm={searchTerm}
+          onOpenPlayground={openPlayground}
+        />
+      )}
+
+      {/* What-If Playground */}
+      {playgroundCondition && (
+        <div ref={playgroundRef}>
+          <ConditionPlaygroundSection
+            key={playgroundCondition.lineNumber}
+            trace={trace}
+            condition={playgroundCondition}
+            onClose={() => setPlayground(null)}
+          />
+        </div>
       )}
 
       {/* Execution Flow Timeline */}
-      {trace.timeline && <TimelineSection timeline={trace.timeline} searchTerm={searchTerm} />}
+      {trace.timeline && (
+        <TimelineSection timeline={trace.timeline} variableTracking={trace.variableTracking} loops={trace.loops} searchTerm={searchTerm} />
+      )}
+
+      {/* Loops & Recursion */}
+      {trace.timeline && <LoopDetectionSection timeline={trace.timeline} options={loopOptions} />}
+
+      {/* Timing Profile */}
+      {trace.timeline && <TimingProfileSection trace={trace} />}
     </div>
   );
 }
@@ -1,21 +1,29 @@
 /**
- * Info Tab - displays metadata, features, and issues
+ * Info Tab - displays metadata, features, components, issues and parse diagnostics
  */
 
 'use client';
 
+import { useMemo } from 'react';
 import { MetadataSection } from '@/app/components/sections/MetadataSection';
 import { FeaturesSection } from '@/app/components/sections/FeaturesSection';
+import { ComponentsSection } from '@/app/components/sections/ComponentsSection';
 import { IssuesSection } from '@/app/components/sections/IssuesSection';
+import { ParseDiagnosticsSection } from '@/app/components/sections/ParseDiagnosticsSection';
+import { detectIssues } from '@/lib/issue-detection';
 import type { ParsedTrace } from '@/lib/trace-parser';
+import type { IssueDetectionConfig } from '@/lib/issue-detection';
 
 interface InfoTabProps {
   trace: ParsedTrace;
   searchTerm?: string;
+  issueConfig: IssueDetectionConfig;
+  onIssueConfigChange: (config: IssueDetectionConfig) => void;
 }
 
-export function InfoTab({ trace, searchTerm = '' }: InfoTabProps) {
+export function InfoTab({ trace, searchTerm = '', issueConfig, onIssueConfigChange }: InfoTabProps) {
   const featuresArray = Array.from(trace.features.values());
+  const issues = useMemo(() => detectIssues(trace, issueConfig), [trace, issueConfig]);
 
   return (
     <div className="space-y-6">
@@ -23,10 +31,23 @@ export function InfoTab({ trace, searchTerm = '' }: InfoTabProps) {
       {trace.metadata && <MetadataSection trace={trace} featuresCount={trace.features.size} />}
 
       {/* Features & Options */}
-      {trace.features.size > 0 && <FeaturesSection features={featuresArray} searchTerm={searchTerm} />}
+      {trace.features.size > 0 && (
+        <FeaturesSection
+          features={featuresArray}
+          optionLists={trace.optionLists}
+          optionSources={trace.optionSources}
+          searchTerm={searchTerm}
+        />
+      )}
+
+      {/* Component tree */}
+      {trace.components.length > 0 && <ComponentsSection components={trace.components} />}
 
       {/* Issues */}
-      {trace.issues && trace.issues.issues.length > 0 && <IssuesSection issues={trace.issues} />}
+      <IssuesSection issues={issues} config={issueConfig} onConfigChange={onIssueConfigChange} />
+
+      {/* Parse coverage and diagnostics */}
+      <ParseDiagnosticsSection diagnostics={trace.parseErrors} coverage={trace.parseCoverage} />
     </div>
   );
 }
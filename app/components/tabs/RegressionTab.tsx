@@ -6,11 +6,13 @@
 
 import { RegressionResultsView } from '@/app/components/regression/RegressionResultsView';
 import { BaselineLibraryPanel } from '@/app/components/regression/BaselineLibraryPanel';
+import { ExportReportMenu } from '@/app/components/regression/ExportReportMenu';
 import type { RegressionResult, ParsedTrace } from '@/lib/trace-parser';
 import type { BaselineTrace } from '@/lib/baseline-storage-api';
 
 interface RegressionTabProps {
   regressionResult: RegressionResult | null;
+  traceFilename: string;
   baselineLibrary: BaselineTrace[];
   currentTrace: ParsedTrace | null;
   selectedBaselineId: string | null;
@@ -20,6 +22,7 @@ interface RegressionTabProps {
 
 export function RegressionTab({
   regressionResult,
+  traceFilename,
   baselineLibrary,
   currentTrace,
   selectedBaselineId,
@@ -29,7 +32,17 @@ export function RegressionTab({
   return (
     <div className="space-y-6">
       {/* Regression Results */}
-      {regressionResult && <RegressionResultsView result={regressionResult} />}
+      {regressionResult && (
+        <div className="space-y-3">
+          <div className="flex justify-end">
+            <ExportReportMenu
+              entries={[{ traceName: traceFilename || 'trace', result: regressionResult }]}
+              filename={`regression-${(traceFilename || 'trace').replace(/\.[^.]+$/, '')}`}
+            />
+          </div>
+          <RegressionResultsView result={regressionResult} />
+        </div>
+      )}
 
       {/* Baseline Library (inline) */}
       <BaselineLibraryPanel
@@ -7,7 +7,8 @@
 import { createContext, useContext } from 'react';
 import type { ParsedTrace, TraceDiff, RegressionResult } from '@/lib/trace-parser';
 import type { BaselineTrace } from '@/lib/baseline-storage-api';
-import type { ViewMode } from '@/app/types';
+import type { IssueDetectionConfig } from '@/lib/issue-detection';
+import type { ViewMode, SlotParseProgress, SlotSessions } from '@/app/types';
 
 export interface TraceViewerContextType {
   // View state
@@ -17,11 +18,14 @@ export interface TraceViewerContextType {
   // Trace data
   baselineTrace: ParsedTrace | null;
   currentTrace: ParsedTrace | null;
+  baselineSessions: SlotSessions | null;
+  currentSessions: SlotSessions | null;
   diff: TraceDiff | null;
 
   // UI state
   error: string | null;
   isLoading: boolean;
+  parseProgress: SlotParseProgress | null;
   rawTraceContent: string;
   viewerLine: number | null;
   searchTerm: string;
@@ -35,13 +39,19 @@ export interface TraceViewerContextType {
   selectedBaselineId: string | null;
   traceFilename: string;
 
+  // Issue detection
+  issueConfig: IssueDetectionConfig;
+  setIssueConfig: (config: IssueDetectionConfig) => void;
+
   // Actions
   handleTraceInput: (content: string, slot: 'baseline' | 'current') => void;
   handleFileUpload: (file: File, slot: 'baseline' | 'current') => void;
+  cancelParse: () => void;
   handleAddToBaselines: (name: string) => Promise<BaselineTrace | undefined>;
   handleRemoveBaseline: (id: string) => Promise<void>;
   handleSelectBaseline: (baseline: BaselineTrace) => Promise<void>;
   showLine: (lineNumber: number) => void;
+  selectSession: (slot: 'baseline' | 'current', index: number) => void;
   clearAll: () => void;
 }
 
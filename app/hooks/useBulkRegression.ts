@@ -0,0 +1,154 @@
+/**
+ * Hook for running many traces against the baseline library in one batch
+ */
+
+'use client';
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { scoreBaselines } from '@/lib/baseline-storage-api';
+import { useTraceWorker, isCancelledError } from '@/app/hooks/useTraceWorker';
+import type { ParsedTrace, RegressionResult } from '@/lib/trace-parser';
+import type { BaselineTrace } from '@/lib/baseline-storage-api';
+import type { BulkRegressionEntry, BulkRegressionSummary, BulkRunStatus } from '@/app/types';
+
+/**
+ * Errors fail a trace; warnings alone are reported separately
+ */
+function getRunStatus(result: RegressionResult): BulkRunStatus {
+  if (result.summary.errors > 0) return 'failed';
+  if (result.summary.warnings > 0) return 'warned';
+  return 'passed';
+}
+
+export function useBulkRegression(baselines: BaselineTrace[]) {
+  // Separate worker so cancelling a batch doesn't touch the single-trace view
+  const traceWorker = useTraceWorker();
+  const [entries, setEntries] = useState<BulkRegressionEntry[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelledRef = useRef(false);
+
+  const updateEntry = useCallback((id: string, patch: Partial<BulkRegressionEntry>) => {
+    setEntries((prev) => prev.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+  }, []);
+
+  // Traces run one at a time; only results are kept, not the parsed traces.
+  // A file with several sessions becomes one entry per session.
+  const run = useCallback(
+    async (files: File[]) => {
+      const runId = Date.now();
+      const queued: BulkRegressionEntry[] = files.map((file, index) => ({
+        id: `${runId}-${index}`,
+        file,
+        filename: file.webkitRelativePath || file.name,
+        session: null,
+        status: 'queued',
+        percent: null,
+        match: null,
+        result: null,
+        error: null,
+      }));
+
+      cancelledRef.current = false;
+      setEntries(queued);
+      setIsRunning(true);
+
+      for (let i = 0; i < files.length && !cancelledRef.current; i++) {
+        const entry = queued[i];
+        updateEntry(entry.id, { status: 'running', percent: 0 });
+
+        let targets: { id: string; trace: ParsedTrace }[];
+        try {
+          const sessions = await traceWorker.parseSessions({ kind: 'file', file: files[i] }, (progress) =>
+            updateEntry(entry.id, { percent: progress.percent })
+          );
+
+          if (sessions.length > 1) {
+            const split = sessions.map((session): BulkRegressionEntry => ({
+              ...entry,
+              id: `${entry.id}-${session.index}`,
+              filename: `${entry.filename} (session ${session.index})`,
+              session: { index: session.index, startLine: session.startLine, endLine: session.endLine },
+            }));
+            setEntries((prev) => prev.flatMap((e) => (e.id === entry.id ? split : [e])));
+            targets = sessions.map((session, index) => ({ id: split[index].id, trace: session.trace }));
+          } else {
+            targets = [{ id: entry.id, trace: sessions[0].trace }];
+          }
+        } catch (e) {
+          if (isCancelledError(e)) break;
+          updateEntry(entry.id, {
+            status: 'error',
+            percent: null,
+            error: e instanceof Error ? e.message : 'Unknown error',
+          });
+          continue;
+        }
+
+        for (const { id, trace } of targets) {
+          if (cancelledRef.current) break;
+          updateEntry(id, { status: 'running', percent: null });
+
+          try {
+            // Same ranking as rankBaselines, without refetching the library per trace
+            const [match] = scoreBaselines(baselines, trace);
+            if (!match) {
+              throw new Error('No baselines in library');
+            }
+
+            const result = await traceWorker.compareBehavior(match.baseline.trace, trace, {
+              id: match.baseline.id,
+              name: match.baseline.name,
+              matchScore: match.matchScore,
+            });
+            updateEntry(id, { status: getRunStatus(result), percent: null, match, result });
+          } catch (e) {
+            if (isCancelledError(e)) break;
+            updateEntry(id, {
+              status: 'error',
+              percent: null,
+              error: e instanceof Error ? e.message : 'Unknown error',
+            });
+          }
+        }
+      }
+
+      // Anything not reached before a cancel
+      setEntries((prev) =>
+        prev.map((entry) =>
+          entry.status === 'queued' || entry.status === 'running'
+            ? { ...entry, status: 'cancelled', percent: null }
+            : entry
+        )
+      );
+      setIsRunning(false);
+    },
+    [baselines, traceWorker, updateEntry]
+  );
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    traceWorker.cancel();
+  }, [traceWorker]);
+
+  const clear = useCallback(() => {
+    setEntries([]);
+  }, []);
+
+  const summary = useMemo((): BulkRegressionSummary => {
+    const counts: Record<BulkRunStatus, number> = {
+      queued: 0,
+      running: 0,
+      passed: 0,
+      warned: 0,
+      failed: 0,
+      error: 0,
+      cancelled: 0,
+    };
+    for (const entry of entries) {
+      counts[entry.status]++;
+    }
+    return { total: entries.length, completed: entries.length - counts.queued - counts.running, ...counts };
+  }, [entries]);
+
+  return { entries, summary, isRunning, run, cancel, clear };
+}
@@ -0,0 +1,40 @@
+/**
+ * Hook for the project's issue detection config, persisted in localStorage
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { validateIssueDetectionConfig } from '@/lib/issue-detection';
+import type { IssueDetectionConfig } from '@/lib/issue-detection';
+
+const STORAGE_KEY = 'cpq-trace-analyzer-issue-config';
+
+function loadIssueDetectionConfig(): IssueDetectionConfig {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? validateIssueDetectionConfig(JSON.parse(stored)) : {};
+  } catch (error) {
+    // A config written by a build with different detectors falls back to defaults
+    console.error('Failed to load issue detection config:', error);
+    return {};
+  }
+}
+
+export function useIssueDetectionConfig() {
+  // Only applied to parsed traces, which never exist during server rendering
+  const [config, setConfigState] = useState<IssueDetectionConfig>(loadIssueDetectionConfig);
+
+  const setConfig = useCallback((next: IssueDetectionConfig) => {
+    setConfigState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Failed to save issue detection config:', error);
+    }
+  }, []);
+
+  return { config, setConfig };
+}
@@ -5,12 +5,15 @@
 'use client';
 
 import { useMemo } from 'react';
+import { detectIssues } from '@/lib/issue-detection';
 import type { ParsedTrace } from '@/lib/trace-parser';
+import type { IssueDetectionConfig } from '@/lib/issue-detection';
 import type { SearchMatchCounts } from '@/app/types';
 
 export function useSearchMatches(
   trace: ParsedTrace | null,
-  searchTerm: string
+  searchTerm: string,
+  issueConfig: IssueDetectionConfig
 ): SearchMatchCounts {
   return useMemo(() => {
     const counts: SearchMatchCounts = {
@@ -40,7 +43,7 @@ export function useSearchMatches(
     });
 
     if (trace.issues) {
-      trace.issues.issues.forEach(issue => {
+      detectIssues(trace, issueConfig).issues.forEach(issue => {
         if (
           issue.title.toLowerCase().includes(term) ||
           issue.description.toLowerCase().includes(term)
@@ -109,5 +112,5 @@ export function useSearchMatches(
     counts.regression = 0;
 
     return counts;
-  }, [trace, searchTerm]);
+  }, [trace, searchTerm, issueConfig]);
 }
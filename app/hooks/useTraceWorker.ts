@@ -0,0 +1,177 @@
+/**
+ * Hook for running trace parsing and comparisons in the trace worker
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { ParsedTrace, ParseProgress, TraceDiff, RegressionResult } from '@/lib/trace-parser';
+import type { TraceSession } from '@/lib/trace-sessions';
+import type { BaselineInfo, TraceSource, TraceWorkerRequest, TraceWorkerResponse } from '@/app/workers/protocol';
+
+// Distributes Omit over each request variant so the discriminant survives
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = WithoutId<Exclude<TraceWorkerRequest, { type: 'cancel' }>>;
+
+interface SessionsResult {
+  sessions: TraceSession[];
+  content: string | null;
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+/**
+ * Check whether an error came from cancelling an in-flight request
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function cancelledError(): DOMException {
+  return new DOMException('Trace parsing cancelled', 'AbortError');
+}
+
+export function useTraceWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextIdRef = useRef(0);
+
+  const rejectAll = useCallback((error: Error) => {
+    for (const pending of pendingRef.current.values()) {
+      pending.reject(error);
+    }
+    pendingRef.current.clear();
+  }, []);
+
+  // Create the worker lazily (and again after a cancel terminated it)
+  const getWorker = useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+
+    const worker = new Worker(new URL('../workers/trace.worker.ts', import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<TraceWorkerResponse>) => {
+      const message = event.data;
+      const pending = pendingRef.current.get(message.id);
+      if (!pending) return;
+
+      switch (message.type) {
+        case 'progress':
+          pending.onProgress?.(message.progress);
+          return;
+        case 'parsed':
+          pending.resolve(message.trace);
+          break;
+        case 'parsedSessions':
+          pending.resolve({ sessions: message.sessions, content: message.content });
+          break;
+        case 'compared':
+          pending.resolve(message.diff);
+          break;
+        case 'regression':
+          pending.resolve(message.result);
+          break;
+        case 'error':
+          pending.reject(new Error(message.message));
+          break;
+      }
+      pendingRef.current.delete(message.id);
+    };
+
+    worker.onerror = (event) => {
+      rejectAll(new Error(event.message || 'Trace worker failed'));
+      worker.terminate();
+      workerRef.current = null;
+    };
+
+    workerRef.current = worker;
+    return worker;
+  }, [rejectAll]);
+
+  // Aborting `signal` rejects only this request, and the worker stops reading its input
+  const request = useCallback(
+    <T,>(body: RequestBody, onProgress?: (progress: ParseProgress) => void, signal?: AbortSignal): Promise<T> => {
+      const worker = getWorker();
+      const id = nextIdRef.current++;
+
+      return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(cancelledError());
+          return;
+        }
+        pendingRef.current.set(id, {
+          resolve: resolve as (value: unknown) => void,
+          reject,
+          onProgress,
+        });
+        worker.postMessage({ ...body, id } as TraceWorkerRequest);
+
+        signal?.addEventListener('abort', () => {
+          if (!pendingRef.current.delete(id)) return;
+          workerRef.current?.postMessage({ id, type: 'cancel' } satisfies TraceWorkerRequest);
+          reject(cancelledError());
+        }, { once: true });
+      });
+    },
+    [getWorker]
+  );
+
+  const parse = useCallback(
+    (source: TraceSource, onProgress?: (progress: ParseProgress) => void, signal?: AbortSignal) =>
+      request<ParsedTrace>({ type: 'parse', source }, onProgress, signal),
+    [request]
+  );
+
+  // One ParsedTrace per configuration session in the file
+  const parseSessions = useCallback(
+    (source: TraceSource, onProgress?: (progress: ParseProgress) => void, signal?: AbortSignal) =>
+      request<SessionsResult>({ type: 'parseSessions', source, keepContent: false }, onProgress, signal)
+        .then(({ sessions }) => sessions),
+    [request]
+  );
+
+  // Sessions plus the trace text, which the worker decodes once instead of the file being read again here
+  const loadSessions = useCallback(
+    (source: TraceSource, onProgress?: (progress: ParseProgress) => void, signal?: AbortSignal) =>
+      request<SessionsResult>({ type: 'parseSessions', source, keepContent: true }, onProgress, signal)
+        .then(({ sessions, content }) => ({
+          sessions,
+          content: content ?? (source.kind === 'text' ? source.content : ''),
+        })),
+    [request]
+  );
+
+  const compareTraces = useCallback(
+    (baseline: ParsedTrace, current: ParsedTrace) =>
+      request<TraceDiff>({ type: 'compareTraces', baseline, current }),
+    [request]
+  );
+
+  const compareBehavior = useCallback(
+    (baseline: ParsedTrace, test: ParsedTrace, baselineInfo: BaselineInfo) =>
+      request<RegressionResult>({ type: 'compareBehavior', baseline, test, baselineInfo }),
+    [request]
+  );
+
+  // Abort everything in flight by terminating the worker
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    rejectAll(cancelledError());
+  }, [rejectAll]);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return useMemo(
+    () => ({ parse, parseSessions, loadSessions, compareTraces, compareBehavior, cancel }),
+    [parse, parseSessions, loadSessions, compareTraces, compareBehavior, cancel]
+  );
+}
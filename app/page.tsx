@@ -5,11 +5,13 @@
 
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { parseTrace, compareTraces, compareBehavior } from '@/lib/trace-parser';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { addBaseline, removeBaseline, getBaselines, findBestMatch, rankBaselines } from '@/lib/baseline-storage-api';
 import { TraceViewerContextProvider } from '@/app/context/TraceViewerContext';
 import { useSearchMatches } from '@/app/hooks/useSearchMatches';
+import { useTraceWorker, isCancelledError } from '@/app/hooks/useTraceWorker';
+import { useBulkRegression } from '@/app/hooks/useBulkRegression';
+import { useIssueDetectionConfig } from '@/app/hooks/useIssueDetectionConfig';
 import { Header } from '@/app/components/layout/Header';
 import { TabNavigation } from '@/app/components/layout/TabNavigation';
 import { TraceUploader } from '@/app/components/shared/TraceUploader';
@@ -20,9 +22,12 @@ import { IntegrationTab } from '@/app/components/tabs/IntegrationTab';
 import { CompareTab } from '@/app/components/tabs/CompareTab';
 import { RegressionTab } from '@/app/components/tabs/RegressionTab';
 import { AddToBaselineButton } from '@/app/components/regression/AddToBaselineButton';
-import type { ParsedTrace, TraceDiff, RegressionResult } from '@/lib/trace-parser';
+import { BulkRegressionView } from '@/app/components/regression/BulkRegressionView';
+import { getSessionContent } from '@/lib/trace-sessions';
+import type { ParsedTrace, TraceBlock, TraceDiff, RegressionResult } from '@/lib/trace-parser';
+import type { TraceSource } from '@/app/workers/protocol';
 import type { BaselineTrace } from '@/lib/baseline-storage-api';
-import type { ViewMode, TabId } from '@/app/types';
+import type { ViewMode, TabId, SlotParseProgress, SlotSessions } from '@/app/types';
 
 export default function Home() {
   // State management
@@ -30,10 +35,14 @@ export default function Home() {
   const [activeTab, setActiveTab] = useState<TabId>('info');
   const [baselineTrace, setBaselineTrace] = useState<ParsedTrace | null>(null);
   const [currentTrace, setCurrentTrace] = useState<ParsedTrace | null>(null);
+  const [baselineSessions, setBaselineSessions] = useState<SlotSessions | null>(null);
+  const [currentSessions, setCurrentSessions] = useState<SlotSessions | null>(null);
   const [diff, setDiff] = useState<TraceDiff | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [parseProgress, setParseProgress] = useState<SlotParseProgress | null>(null);
   const [rawTraceContent, setRawTraceContent] = useState<string>('');
+  const [rawTraceBlocks, setRawTraceBlocks] = useState<TraceBlock[]>([]);
   const [viewerLine, setViewerLine] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [baselineLibrary, setBaselineLibrary] = useState<BaselineTrace[]>([]);
@@ -42,8 +51,18 @@ export default function Home() {
   const [selectedBaselineId, setSelectedBaselineId] = useState<string | null>(null);
   const [traceFilename, setTraceFilename] = useState<string>('');
 
+  // Project detector settings, applied on top of the parser's default detection
+  const { config: issueConfig, setConfig: setIssueConfig } = useIssueDetectionConfig();
+
   // Calculate search match counts per tab
-  const matchCounts = useSearchMatches(baselineTrace, searchTerm);
+  const matchCounts = useSearchMatches(baselineTrace, searchTerm, issueConfig);
+
+  // Parsing and comparisons run off the main thread
+  const traceWorker = useTraceWorker();
+  const parseAbortRef = useRef<AbortController | null>(null);
+
+  // Batch runs live here so they survive switching view modes
+  const bulkRegression = useBulkRegression(baselineLibrary);
 
   // Load baselines from API on mount
   useEffect(() => {
@@ -60,7 +79,7 @@ export default function Home() {
       if (baselineTrace && baselineLibrary.length > 0 && viewMode === 'single') {
         const match = await findBestMatch(baselineTrace);
         if (match && match.matchScore > 0) {
-          const result = compareBehavior(match.baseline.trace, baselineTrace, {
+          const result = await traceWorker.compareBehavior(match.baseline.trace, baselineTrace, {
             id: match.baseline.id,
             name: match.baseline.name,
             matchScore: match.matchScore,
@@ -73,8 +92,12 @@ export default function Home() {
         }
       }
     };
-    runComparison();
-  }, [baselineTrace, baselineLibrary, viewMode]);
+    runComparison().catch((e) => {
+      if (!isCancelledError(e)) {
+        console.error('Failed to run regression comparison:', e);
+      }
+    });
+  }, [baselineTrace, baselineLibrary, viewMode, traceWorker]);
 
   // Keyboard shortcuts: Alt+1-5 for tab navigation
   useEffect(() => {
@@ -112,56 +135,97 @@ export default function Home() {
   }, [baselineTrace, viewMode]);
 
   // Handlers
-  const handleTraceInput = useCallback(
-    (content: string, slot: 'baseline' | 'current') => {
+
+  // Show one session of a slot's trace; the raw viewer gets only that session's lines
+  const showSession = useCallback(
+    async (slotSessions: SlotSessions, slot: 'baseline' | 'current') => {
+      const session = slotSessions.sessions[slotSessions.activeIndex];
+      const parsed = session.trace;
+      const content = getSessionContent(slotSessions.content, session);
+
+      if (slot === 'baseline') {
+        setBaselineSessions(slotSessions);
+        setBaselineTrace(parsed);
+        setRawTraceContent(content);
+        setRawTraceBlocks(parsed.blocks);
+        if (currentTrace && viewMode === 'compare') {
+          setDiff(await traceWorker.compareTraces(parsed, currentTrace));
+        }
+      } else {
+        setCurrentSessions(slotSessions);
+        setCurrentTrace(parsed);
+        if (viewMode === 'single') {
+          setRawTraceContent(content);
+          setRawTraceBlocks(parsed.blocks);
+        }
+        if (baselineTrace && viewMode === 'compare') {
+          setDiff(await traceWorker.compareTraces(baselineTrace, parsed));
+        }
+      }
+    },
+    [baselineTrace, currentTrace, viewMode, traceWorker]
+  );
+
+  const loadTrace = useCallback(
+    async (source: TraceSource, slot: 'baseline' | 'current') => {
       setError(null);
       setIsLoading(true);
+      setParseProgress({ slot, percent: 0, linesParsed: 0 });
 
+      const controller = new AbortController();
+      parseAbortRef.current = controller;
       try {
-        const parsed = parseTrace(content);
+        const { sessions, content } = await traceWorker.loadSessions(
+          source,
+          (progress) => setParseProgress({ slot, percent: progress.percent, linesParsed: progress.linesParsed }),
+          controller.signal
+        );
 
-        if (slot === 'baseline') {
-          setBaselineTrace(parsed);
-          setRawTraceContent(content);
-          if (currentTrace && viewMode === 'compare') {
-            setDiff(compareTraces(parsed, currentTrace));
-          }
-        } else {
-          setCurrentTrace(parsed);
-          if (viewMode === 'single') {
-            setRawTraceContent(content);
-          }
-          if (baselineTrace && viewMode === 'compare') {
-            setDiff(compareTraces(baselineTrace, parsed));
-          }
+        if (slot === 'baseline' && source.kind === 'file') {
+          setTraceFilename(source.file.name);
         }
+        await showSession({ content, sessions, activeIndex: 0 }, slot);
       } catch (e) {
-        setError(`Failed to parse trace: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        if (!isCancelledError(e)) {
+          setError(`Failed to parse trace: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
       } finally {
         setIsLoading(false);
+        setParseProgress(null);
       }
     },
-    [baselineTrace, currentTrace, viewMode]
+    [showSession, traceWorker]
   );
 
-  const handleFileUpload = useCallback(
-    (file: File, slot: 'baseline' | 'current') => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        if (slot === 'baseline') {
-          setTraceFilename(file.name);
+  const selectSession = useCallback(
+    (slot: 'baseline' | 'current', index: number) => {
+      const slotSessions = slot === 'baseline' ? baselineSessions : currentSessions;
+      if (!slotSessions || index === slotSessions.activeIndex) return;
+      setViewerLine(null);
+      showSession({ ...slotSessions, activeIndex: index }, slot).catch((e) => {
+        if (!isCancelledError(e)) {
+          setError(`Failed to compare traces: ${e instanceof Error ? e.message : 'Unknown error'}`);
         }
-        handleTraceInput(content, slot);
-      };
-      reader.onerror = () => {
-        setError('Failed to read file');
-      };
-      reader.readAsText(file);
+      });
     },
-    [handleTraceInput]
+    [baselineSessions, currentSessions, showSession]
+  );
+
+  const handleTraceInput = useCallback(
+    (content: string, slot: 'baseline' | 'current') => loadTrace({ kind: 'text', content }, slot),
+    [loadTrace]
+  );
+
+  const handleFileUpload = useCallback(
+    (file: File, slot: 'baseline' | 'current') => loadTrace({ kind: 'file', file }, slot),
+    [loadTrace]
   );
 
+  // Only the trace being loaded; comparisons in flight keep running
+  const cancelParse = useCallback(() => {
+    parseAbortRef.current?.abort();
+  }, []);
+
   const handleAddToBaselines = useCallback(
     async (name: string) => {
       if (!baselineTrace || !rawTraceContent) return;
@@ -203,15 +267,21 @@ export default function Home() {
       const rankedBaselines = await rankBaselines(baselineTrace);
       const match = rankedBaselines.find((m) => m.baseline.id === baseline.id);
       const matchScore = match?.matchScore ?? 0;
-      const result = compareBehavior(baseline.trace, baselineTrace, {
-        id: baseline.id,
-        name: baseline.name,
-        matchScore,
-      });
-      setRegressionResult(result);
-      setSelectedBaselineId(baseline.id);
+      try {
+        const result = await traceWorker.compareBehavior(baseline.trace, baselineTrace, {
+          id: baseline.id,
+          name: baseline.name,
+          matchScore,
+        });
+        setRegressionResult(result);
+        setSelectedBaselineId(baseline.id);
+      } catch (e) {
+        if (!isCancelledError(e)) {
+          setError(`Failed to compare against baseline: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
+      }
     },
-    [baselineTrace]
+    [baselineTrace, traceWorker]
   );
 
   const showLine = useCallback((lineNumber: number) => {
@@ -221,9 +291,12 @@ export default function Home() {
   const clearAll = () => {
     setBaselineTrace(null);
     setCurrentTrace(null);
+    setBaselineSessions(null);
+    setCurrentSessions(null);
     setDiff(null);
     setError(null);
     setRawTraceContent('');
+    setRawTraceBlocks([]);
     setViewerLine(null);
     setRegressionResult(null);
     setSelectedBaselineId(null);
@@ -237,9 +310,12 @@ export default function Home() {
     setViewMode,
     baselineTrace,
     currentTrace,
+    baselineSessions,
+    currentSessions,
     diff,
     error,
     isLoading,
+    parseProgress,
     rawTraceContent,
     viewerLine,
     searchTerm,
@@ -250,15 +326,24 @@ export default function Home() {
     regressionResult,
     selectedBaselineId,
     traceFilename,
+    issueConfig,
+    setIssueConfig,
     handleTraceInput,
     handleFileUpload,
+    cancelParse,
     handleAddToBaselines,
     handleRemoveBaseline,
     handleSelectBaseline,
     showLine,
+    selectSession,
     clearAll,
   };
 
+  // A baseline saved from a multi-session file is named after its session
+  const baselineName = baselineSessions && baselineSessions.sessions.length > 1
+    ? `${traceFilename.replace(/\.txt$/, '')} (session ${baselineSessions.activeIndex + 1})`
+    : traceFilename;
+
   return (
     <TraceViewerContextProvider value={contextValue}>
       <main className="min-h-screen bg-gray-950 text-gray-100">
@@ -270,32 +355,51 @@ export default function Home() {
             <div className="mb-6 p-4 bg-red-900/50 border border-red-700 rounded-lg text-red-200">{error}</div>
           )}
 
-          {/* Trace Uploaders */}
-          <div className={`grid gap-6 mb-8 ${viewMode === 'compare' ? 'grid-cols-2' : 'grid-cols-1'}`}>
-            <TraceUploader
-              label={viewMode === 'compare' ? 'Baseline Trace' : 'Trace File'}
-              onFileUpload={(file) => handleFileUpload(file, 'baseline')}
-              onPaste={(content) => handleTraceInput(content, 'baseline')}
-              hasData={!!baselineTrace}
-              isLoading={isLoading}
+          {/* Bulk Regression Mode */}
+          {viewMode === 'bulk' && (
+            <BulkRegressionView
+              entries={bulkRegression.entries}
+              summary={bulkRegression.summary}
+              isRunning={bulkRegression.isRunning}
+              baselineCount={baselineLibrary.length}
+              onRun={bulkRegression.run}
+              onCancel={bulkRegression.cancel}
+              onClear={bulkRegression.clear}
             />
+          )}
 
-            {viewMode === 'compare' && (
+          {/* Trace Uploaders */}
+          {viewMode !== 'bulk' && (
+            <div className={`grid gap-6 mb-8 ${viewMode === 'compare' ? 'grid-cols-2' : 'grid-cols-1'}`}>
               <TraceUploader
-                label="Current Trace"
-                onFileUpload={(file) => handleFileUpload(file, 'current')}
-                onPaste={(content) => handleTraceInput(content, 'current')}
-                hasData={!!currentTrace}
+                label={viewMode === 'compare' ? 'Baseline Trace' : 'Trace File'}
+                onFileUpload={(file) => handleFileUpload(file, 'baseline')}
+                onPaste={(content) => handleTraceInput(content, 'baseline')}
+                hasData={!!baselineTrace}
                 isLoading={isLoading}
+                progress={parseProgress?.slot === 'baseline' ? parseProgress : null}
+                onCancel={cancelParse}
               />
-            )}
-          </div>
+
+              {viewMode === 'compare' && (
+                <TraceUploader
+                  label="Current Trace"
+                  onFileUpload={(file) => handleFileUpload(file, 'current')}
+                  onPaste={(content) => handleTraceInput(content, 'current')}
+                  hasData={!!currentTrace}
+                  isLoading={isLoading}
+                  progress={parseProgress?.slot === 'current' ? parseProgress : null}
+                  onCancel={cancelParse}
+                />
+              )}
+            </div>
+          )}
 
           {/* Controls */}
-          {(baselineTrace || currentTrace) && (
+          {(baselineTrace || currentTrace) && viewMode !== 'bulk' && (
             <div className="mb-6 flex items-center gap-4">
               {baselineTrace && viewMode === 'single' && (
-                <AddToBaselineButton onAdd={handleAddToBaselines} defaultName={traceFilename} />
+                <AddToBaselineButton onAdd={handleAddToBaselines} defaultName={baselineName} />
               )}
               <button
                 onClick={clearAll}
@@ -319,12 +423,22 @@ export default function Home() {
           {/* Tab Content */}
           {viewMode === 'single' && baselineTrace && (
             <div className="space-y-6 tab-content-enter" key={activeTab}>
-              {activeTab === 'info' && <InfoTab trace={baselineTrace} searchTerm={searchTerm} />}
-              {activeTab === 'debug' && <DebugTab trace={baselineTrace} searchTerm={searchTerm} />}
+              {activeTab === 'info' && (
+                <InfoTab
+                  trace={baselineTrace}
+                  searchTerm={searchTerm}
+                  issueConfig={issueConfig}
+                  onIssueConfigChange={setIssueConfig}
+                />
+              )}
+              {activeTab === 'debug' && (
+                <DebugTab trace={baselineTrace} searchTerm={searchTerm} issueConfig={issueConfig} />
+              )}
               {activeTab === 'integration' && <IntegrationTab trace={baselineTrace} searchTerm={searchTerm} />}
               {activeTab === 'regression' && (
                 <RegressionTab
                   regressionResult={regressionResult}
+                  traceFilename={traceFilename}
                   baselineLibrary={baselineLibrary}
                   currentTrace={baselineTrace}
                   selectedBaselineId={selectedBaselineId}
@@ -346,6 +460,7 @@ export default function Home() {
           <RawTraceViewer
             content={rawTraceContent}
             lineNumber={viewerLine}
+            blocks={rawTraceBlocks}
             onClose={() => setViewerLine(null)}
           />
         )}
@@ -2,9 +2,13 @@
  * Shared types for the CPQ Trace Analyzer
  */
 
+import type { RegressionResult } from '@/lib/trace-parser';
+import type { BaselineMatchResult } from '@/lib/baseline-storage-api';
+import type { TraceSession } from '@/lib/trace-sessions';
+
 export type TabId = 'info' | 'debug' | 'integration' | 'compare' | 'regression';
 
-export type ViewMode = 'single' | 'compare';
+export type ViewMode = 'single' | 'compare' | 'bulk';
 
 export interface TabConfig {
   id: TabId;
@@ -20,3 +24,36 @@ export interface SearchMatchCounts {
   compare: number;
   regression: number;
 }
+
+// Configuration sessions in the trace loaded into a slot
+export interface SlotSessions {
+  content: string;                  // Whole file, sessions included
+  sessions: TraceSession[];
+  activeIndex: number;              // Position in sessions of the one shown
+}
+
+export interface SlotParseProgress {
+  slot: 'baseline' | 'current';
+  percent: number | null;
+  linesParsed: number;
+}
+
+// Bulk regression: one entry per uploaded trace
+export type BulkRunStatus = 'queued' | 'running' | 'passed' | 'warned' | 'failed' | 'error' | 'cancelled';
+
+export interface BulkRegressionEntry {
+  id: string;
+  file: File;                       // Kept so drill-down can show raw trace lines
+  filename: string;
+  session: Pick<TraceSession, 'index' | 'startLine' | 'endLine'> | null;  // One session of a multi-session file
+  status: BulkRunStatus;
+  percent: number | null;           // Parse progress while running
+  match: BaselineMatchResult | null;
+  result: RegressionResult | null;
+  error: string | null;
+}
+
+export type BulkRegressionSummary = Record<BulkRunStatus, number> & {
+  total: number;
+  completed: number;
+};
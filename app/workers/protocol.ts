@@ -0,0 +1,30 @@
+/**
+ * Message protocol between the page and the trace worker
+ * Every request carries an id; the worker answers with progress messages
+ * (parse and parseSessions only) followed by exactly one result or error for that id.
+ * A cancel request carries the id of the parse to stop and gets no answer.
+ */
+
+import type { ParsedTrace, ParseProgress, TraceDiff, RegressionResult, compareBehavior } from '@/lib/trace-parser';
+import type { TraceSession } from '@/lib/trace-sessions';
+
+export type TraceSource =
+  | { kind: 'file'; file: File }
+  | { kind: 'text'; content: string };
+
+export type BaselineInfo = Parameters<typeof compareBehavior>[2];
+
+export type TraceWorkerRequest =
+  | { id: number; type: 'parse'; source: TraceSource }
+  | { id: number; type: 'parseSessions'; source: TraceSource; keepContent: boolean }
+  | { id: number; type: 'compareTraces'; baseline: ParsedTrace; current: ParsedTrace }
+  | { id: number; type: 'compareBehavior'; baseline: ParsedTrace; test: ParsedTrace; baselineInfo: BaselineInfo }
+  | { id: number; type: 'cancel' };
+
+export type TraceWorkerResponse =
+  | { id: number; type: 'progress'; progress: ParseProgress }
+  | { id: number; type: 'parsed'; trace: ParsedTrace }
+  | { id: number; type: 'parsedSessions'; sessions: TraceSession[]; content: string | null }  // A file's decoded text, if keepContent was set
+  | { id: number; type: 'compared'; diff: TraceDiff }
+  | { id: number; type: 'regression'; result: RegressionResult }
+  | { id: number; type: 'error'; message: string };
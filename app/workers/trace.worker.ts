@@ -0,0 +1,112 @@
+/**
+ * Trace Worker
+ * Runs parsing and comparisons off the main thread so large traces don't freeze the UI.
+ * Cancellation is handled by the page terminating the worker.
+ */
+
+import { parseTraceStream, compareTraces, compareBehavior } from '@/lib/trace-parser';
+import { parseTraceSessionsStream } from '@/lib/trace-sessions';
+import type { ParseProgress, TraceParserOptions } from '@/lib/trace-parser';
+import type { TraceSource, TraceWorkerRequest, TraceWorkerResponse } from './protocol';
+
+// Pasted content is fed to the parser in slices so progress can be reported
+const TEXT_CHUNK_SIZE = 1024 * 1024;
+
+// Parses still reading their input, by request id
+const inFlight = new Map<number, AbortController>();
+
+function post(message: TraceWorkerResponse) {
+  self.postMessage(message);
+}
+
+async function* chunkText(content: string, signal: AbortSignal): AsyncIterable<string> {
+  for (let offset = 0; offset < content.length; offset += TEXT_CHUNK_SIZE) {
+    signal.throwIfAborted();
+    yield content.slice(offset, offset + TEXT_CHUNK_SIZE);
+  }
+}
+
+// Decoded chunks of a file are collected into `kept` when the caller wants the text back
+async function parseSource<T>(
+  id: number,
+  source: TraceSource,
+  parse: (chunks: ReadableStream<string> | AsyncIterable<string>, options: TraceParserOptions) => Promise<T>,
+  kept: string[] | null = null
+): Promise<T> {
+  // Only forward progress when the visible value changes
+  let lastPercent: number | null = -1;
+  const onProgress = (progress: ParseProgress) => {
+    if (progress.percent !== null && progress.percent === lastPercent) return;
+    lastPercent = progress.percent;
+    post({ id, type: 'progress', progress });
+  };
+
+  const controller = new AbortController();
+  inFlight.set(id, controller);
+  try {
+    if (source.kind === 'file') {
+      let chunks = source.file.stream().pipeThrough(new TextDecoderStream(), { signal: controller.signal });
+      if (kept) {
+        chunks = chunks.pipeThrough(new TransformStream<string, string>({
+          transform(chunk, stream) {
+            kept.push(chunk);
+            stream.enqueue(chunk);
+          },
+        }));
+      }
+      return await parse(chunks, {
+        totalBytes: source.file.size,
+        onProgress,
+      });
+    }
+
+    return await parse(chunkText(source.content, controller.signal), {
+      totalCharacters: source.content.length,
+      onProgress,
+    });
+  } finally {
+    inFlight.delete(id);
+  }
+}
+
+async function handleRequest(request: TraceWorkerRequest) {
+  switch (request.type) {
+    case 'parse': {
+      const trace = await parseSource(request.id, request.source, parseTraceStream);
+      post({ id: request.id, type: 'parsed', trace });
+      break;
+    }
+    case 'parseSessions': {
+      const kept = request.keepContent && request.source.kind === 'file' ? [] : null;
+      const sessions = await parseSource(request.id, request.source, parseTraceSessionsStream, kept);
+      post({ id: request.id, type: 'parsedSessions', sessions, content: kept && kept.join('') });
+      break;
+    }
+    case 'compareTraces':
+      post({ id: request.id, type: 'compared', diff: compareTraces(request.baseline, request.current) });
+      break;
+    case 'compareBehavior':
+      post({
+        id: request.id,
+        type: 'regression',
+        result: compareBehavior(request.baseline, request.test, request.baselineInfo),
+      });
+      break;
+    case 'cancel':
+      inFlight.get(request.id)?.abort();
+      break;
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<TraceWorkerRequest>) => {
+  const request = event.data;
+  handleRequest(request).catch((error) => {
+    // The page stopped waiting for a cancelled parse
+    if (error instanceof DOMException && error.name === 'AbortError') return;
+    post({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * cpq-trace - headless command-line interface for the trace analyzer
+ * Runs the same parser, diff, regression and issue detection as the web UI
+ * so traces can be checked in scripts and CI pipelines.
+ *
+ * Exit codes: 0 = clean, 1 = differences/regressions/issues found, 2 = usage or I/O error
+ */
+
+import { createReadStream } from 'node:fs';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseTraceStream, compareTraces, compareBehavior } from '@/lib/trace-parser';
+import type { ParsedTrace, IssueSeverity } from '@/lib/trace-parser';
+import { extractSelectionPath, scoreBaselines } from '@/lib/baseline-storage-api';
+import type { BaselineTrace } from '@/lib/baseline-storage-api';
+import { serializeParsedTrace } from '@/lib/trace-serialization';
+import { parseTraceSessionsStream } from '@/lib/trace-sessions';
+import { detectIssues, validateIssueDetectionConfig } from '@/lib/issue-detection';
+import type { IssueDetectionConfig } from '@/lib/issue-detection';
+import { formatRegressionReport, REPORT_FORMATS } from '@/lib/regression-report';
+import type { RegressionReportFormat } from '@/lib/regression-report';
+import {
+  toJson,
+  countDiffChanges,
+  formatAnalysis,
+  formatDiff,
+  formatRegression,
+  formatIssues,
+} from './format';
+
+const TRACE_EXTENSIONS = new Set(['.log', '.txt', '.trace']);
+
+const USAGE = `Usage: cpq-trace <command> [options]
+
+Commands:
+  analyze <trace>                      Summarize a trace
+  diff <baseline> <current>            Compare two traces (exit 1 if they differ)
+  regress <trace...> -b <baseline>     Match each trace against the best baseline and
+                                       compare behavior (exit 1 on regressions)
+  issues <trace...>                    List detected issues (exit 1 on errors)
+
+Options:
+  -b, --baseline <path>   Baseline trace file or directory (regress, repeatable)
+  --fail-on <level>       error (default), warning or never (regress, issues)
+  --json                  Print machine-readable JSON
+  --report <format>       Print a junit, html or markdown report instead (regress)
+  --issue-config <file>   Issue detector settings JSON (analyze, issues)
+  -h, --help              Show this help`;
+
+type FailOn = Exclude<IssueSeverity, 'info'> | 'never';
+
+class UsageError extends Error {}
+
+interface CommandOptions {
+  json: boolean;
+  report: RegressionReportFormat | null;
+  failOn: FailOn;
+  baselines: string[];
+  issueConfig: IssueDetectionConfig;
+}
+
+// Exit code plus what to print on stdout
+interface CommandResult {
+  output: string;
+  exitCode: number;
+}
+
+/**
+ * Stream a trace file from disk through the parser
+ */
+async function loadTrace(path: string): Promise<ParsedTrace> {
+  const { size } = await stat(path);
+  return parseTraceStream(createReadStream(path, { encoding: 'utf8' }), { totalBytes: size });
+}
+
+/**
+ * Parse a trace file into one named trace per session; a file with several
+ * sessions names each one `file#session`
+ */
+async function loadSessionTraces(path: string): Promise<{ name: string; trace: ParsedTrace }[]> {
+  const { size } = await stat(path);
+  const sessions = await parseTraceSessionsStream(createReadStream(path, { encoding: 'utf8' }), { totalBytes: size });
+  if (sessions.length === 1) return [{ name: path, trace: sessions[0].trace }];
+  return sessions.map(session => ({ name: `${path}#${session.index}`, trace: session.trace }));
+}
+
+/**
+ * Read and validate an issue detector config file
+ */
+async function loadIssueConfig(path: string): Promise<IssueDetectionConfig> {
+  const content = await readFile(path, 'utf8');
+  try {
+    return validateIssueDetectionConfig(JSON.parse(content));
+  } catch (error) {
+    throw new UsageError(`Invalid issue config ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Re-run issue detection with the project's detector settings
+ */
+function applyIssueConfig(trace: ParsedTrace, options: CommandOptions): ParsedTrace {
+  return { ...trace, issues: detectIssues(trace, options.issueConfig) };
+}
+
+/**
+ * Expand baseline arguments (files or directories of traces) into baselines
+ */
+async function loadBaselines(paths: string[]): Promise<BaselineTrace[]> {
+  const files: string[] = [];
+
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) {
+      const entries = await readdir(path);
+      files.push(
+        ...entries
+          .filter(entry => TRACE_EXTENSIONS.has(extname(entry).toLowerCase()))
+          .sort()
+          .map(entry => join(path, entry))
+      );
+    } else {
+      files.push(path);
+    }
+  }
+
+  const baselines: BaselineTrace[] = [];
+  for (const file of files) {
+    const trace = await loadTrace(file);
+    const { mtimeMs } = await stat(file);
+    baselines.push({
+      id: file,
+      name: basename(file, extname(file)),
+      filename: basename(file),
+      trace,
+      selectionPath: extractSelectionPath(trace),
+      createdAt: mtimeMs,
+    });
+  }
+
+  return baselines;
+}
+
+function exceedsThreshold(counts: { errors: number; warnings: number }, failOn: FailOn): boolean {
+  if (failOn === 'never') return false;
+  if (failOn === 'error') return counts.errors > 0;
+  return counts.errors > 0 || counts.warnings > 0;
+}
+
+async function analyze(files: string[], options: CommandOptions): Promise<CommandResult> {
+  if (files.length !== 1) throw new UsageError('analyze expects exactly one trace file');
+
+  const trace = applyIssueConfig(await loadTrace(files[0]), options);
+  return {
+    output: options.json ? toJson({ file: files[0], trace: serializeParsedTrace(trace) }) : formatAnalysis(files[0], trace),
+    exitCode: 0,
+  };
+}
+
+async function diff(files: string[], options: CommandOptions): Promise<CommandResult> {
+  if (files.length !== 2) throw new UsageError('diff expects a baseline and a current trace file');
+
+  const [baseline, current] = await Promise.all(files.map(loadTrace));
+  const traceDiff = compareTraces(baseline, current);
+  const changes = countDiffChanges(traceDiff);
+
+  return {
+    output: options.json
+      ? toJson({ baseline: files[0], current: files[1], changes, diff: traceDiff })
+      : formatDiff(files[0], files[1], traceDiff),
+    exitCode: changes > 0 ? 1 : 0,
+  };
+}
+
+async function regress(files: string[], options: CommandOptions): Promise<CommandResult> {
+  if (files.length === 0) throw new UsageError('regress expects at least one trace file');
+  if (options.baselines.length === 0) throw new UsageError('regress requires at least one --baseline');
+
+  const baselines = await loadBaselines(options.baselines);
+  if (baselines.length === 0) throw new UsageError('No baseline traces found');
+
+  const reports = [];
+  for (const path of files) {
+    for (const { name: file, trace } of await loadSessionTraces(path)) {
+      const [match] = scoreBaselines(baselines, trace);
+      const result = compareBehavior(match.baseline.trace, trace, {
+        id: match.baseline.id,
+        name: match.baseline.name,
+        matchScore: match.matchScore,
+      });
+      reports.push({ file, match, result, failed: exceedsThreshold(result.summary, options.failOn) });
+    }
+  }
+
+  const failures = reports.filter(r => r.failed).length;
+  const exitCode = failures > 0 ? 1 : 0;
+
+  if (options.report) {
+    const entries = reports.map(({ file, result }) => ({ traceName: file, result }));
+    return { output: formatRegressionReport(options.report, entries), exitCode };
+  }
+
+  const output = options.json
+    ? toJson(reports.map(({ file, match, result, failed }) => ({
+        file,
+        baseline: match.baseline.filename,
+        matchScore: match.matchScore,
+        passed: !failed,
+        result,
+      })))
+    : [
+        ...reports.map(r => formatRegression(r.file, r.match, r.result, r.failed)),
+        `\n${reports.length - failures} passed, ${failures} failed`,
+      ].join('\n\n');
+
+  return { output, exitCode };
+}
+
+async function issues(files: string[], options: CommandOptions): Promise<CommandResult> {
+  if (files.length === 0) throw new UsageError('issues expects at least one trace file');
+
+  const reports = [];
+  for (const file of files) {
+    const { issues: summary } = applyIssueConfig(await loadTrace(file), options);
+    reports.push({
+      file,
+      summary,
+      failed: exceedsThreshold({ errors: summary.errorCount, warnings: summary.warningCount }, options.failOn),
+    });
+  }
+
+  return {
+    output: options.json
+      ? toJson(reports.map(({ file, summary }) => ({ file, ...summary })))
+      : reports.map(r => formatIssues(r.file, r.summary.issues)).join('\n\n'),
+    exitCode: reports.some(r => r.failed) ? 1 : 0,
+  };
+}
+
+const COMMANDS: Record<string, (files: string[], options: CommandOptions) => Promise<CommandResult>> = {
+  analyze,
+  diff,
+  regress,
+  issues,
+};
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      baseline: { type: 'string', short: 'b', multiple: true },
+      'fail-on': { type: 'string', default: 'error' },
+      json: { type: 'boolean', default: false },
+      report: { type: 'string' },
+      'issue-config': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [commandName, ...files] = positionals;
+  if (values.help || !commandName) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  if (!Object.hasOwn(COMMANDS, commandName)) throw new UsageError(`Unknown command: ${commandName}`);
+
+  const failOn = values['fail-on'];
+  if (failOn !== 'error' && failOn !== 'warning' && failOn !== 'never') {
+    throw new UsageError(`Invalid --fail-on value: ${failOn}`);
+  }
+
+  const report = values.report ?? null;
+  if (report !== null && !Object.hasOwn(REPORT_FORMATS, report)) {
+    throw new UsageError(`Invalid --report value: ${report}`);
+  }
+
+  const result = await COMMANDS[commandName](files, {
+    json: values.json,
+    report: report as RegressionReportFormat | null,
+    failOn,
+    baselines: values.baseline ?? [],
+    issueConfig: values['issue-config'] ? await loadIssueConfig(values['issue-config']) : {},
+  });
+  console.log(result.output);
+  return result.exitCode;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`cpq-trace: ${message}`);
+    if (error instanceof UsageError) {
+      console.error(`\n${USAGE}`);
+    }
+    process.exitCode = 2;
+  });
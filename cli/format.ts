@@ -0,0 +1,250 @@
+/**
+ * CLI output formatting
+ * Plain-text reports for terminals and a JSON encoder that flattens the parser's Maps.
+ */
+
+import type {
+  ParsedTrace,
+  TraceDiff,
+  RegressionResult,
+  DetectedIssue,
+  IssueSeverity,
+} from '@/lib/trace-parser';
+import type { BaselineMatchResult } from '@/lib/baseline-storage-api';
+
+const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  error: 'ERROR',
+  warning: 'WARN ',
+  info: 'INFO ',
+};
+
+/**
+ * Serialize CLI results as JSON, converting Maps to plain objects
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, val) => (val instanceof Map ? Object.fromEntries(val) : val),
+    2
+  );
+}
+
+/**
+ * Count every difference reported by compareTraces, except session details
+ * such as the timestamp that differ between any two runs
+ */
+export function countDiffChanges(diff: TraceDiff): number {
+  return (
+    diff.addedFeatures.length +
+    diff.removedFeatures.length +
+    diff.optionChanges.length +
+    diff.valueChanges.length +
+    diff.propertyChanges.length +
+    diff.componentChanges.length +
+    diff.metadataChanges.filter(change => !change.sessionDetail).length +
+    diff.integrationOutputDiff.addedTemplates.length +
+    diff.integrationOutputDiff.removedTemplates.length +
+    diff.integrationOutputDiff.templateDiffs.size +
+    diff.variableDiff.totalChanges +
+    diff.conditionDiff.totalChanges
+  );
+}
+
+function heading(title: string): string {
+  return `\n${title}\n${'-'.repeat(title.length)}`;
+}
+
+function formatIssue(issue: DetectedIssue): string {
+  const lines = issue.endLineNumber ? `lines ${issue.lineNumber}-${issue.endLineNumber}` : `line ${issue.lineNumber}`;
+  return `  ${SEVERITY_LABELS[issue.severity]} ${lines}: ${issue.title} - ${issue.description}`;
+}
+
+export function formatAnalysis(filename: string, trace: ParsedTrace): string {
+  const { metadata, rulesSummary, issues } = trace;
+  const { percent } = trace.parseCoverage;
+  const selected = Array.from(trace.features.values()).filter(f => f.selectedValue !== null);
+
+  const lines = [
+    `Trace: ${filename}`,
+    heading('Configuration'),
+    `  Application:     ${metadata.application || '-'}`,
+    `  Instance:        ${metadata.instance || '-'}`,
+    `  Configuration:   ${metadata.configurationId || '-'}`,
+    `  Part:            ${metadata.partNamespace ? `${metadata.partNamespace}:` : ''}${metadata.partNumber || '-'}`,
+    `  Mode:            ${metadata.configurationMode || '-'}`,
+    `  Started:         ${metadata.timestamp || '-'}`,
+    `  User:            ${metadata.user || '-'}${metadata.culture ? ` (${metadata.culture})` : ''}`,
+    heading('Summary'),
+    `  Features:        ${trace.features.size} (${selected.length} selected)`,
+    `  Rules executed:  ${trace.rulesExecuted} (${rulesSummary.uniqueRules} unique)`,
+    `  Rollback points: ${trace.rollbackPoints}`,
+    `  Steps:           ${trace.steps.length}`,
+    `  Components:      ${trace.components.length}`,
+    `  Variables:       ${trace.variableTracking.uniqueVariables}`,
+    `  Conditions:      ${trace.conditionTracking.totalConditions}`,
+    `  Integration:     ${trace.integrationOutputs.templates.size} templates, ${trace.integrationOutputs.totalRows} rows`,
+    `  Issues:          ${issues.errorCount} errors, ${issues.warningCount} warnings, ${issues.infoCount} info`,
+    `  Parse coverage:  ${percent === null ? 'unknown' : `${percent}%`} (${trace.parseErrors.length} diagnostics)`,
+  ];
+
+  const parseWarnings = trace.parseErrors.filter(d => d.severity !== 'info');
+  if (parseWarnings.length > 0) {
+    lines.push(heading('Parse Diagnostics'));
+    for (const diagnostic of parseWarnings) {
+      lines.push(`  ${SEVERITY_LABELS[diagnostic.severity]} line ${diagnostic.lineNumber}: ${diagnostic.message} (${diagnostic.code})`);
+    }
+  }
+
+  if (rulesSummary.topRules.length > 0) {
+    lines.push(heading('Top Rules'));
+    const topRules = rulesSummary.topRules.slice(0, 10);
+    const countWidth = String(topRules[0].executionCount).length;
+    for (const rule of topRules) {
+      lines.push(`  ${String(rule.executionCount).padStart(countWidth)}x  ${rule.ruleName} (${rule.ruleType})`);
+    }
+  }
+
+  if (selected.length > 0) {
+    lines.push(heading('Selections'));
+    for (const feature of selected.sort((a, b) => a.lineNumber - b.lineNumber)) {
+      lines.push(`  ${feature.name} = ${feature.selectedValue}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatDiff(baselineFile: string, currentFile: string, diff: TraceDiff): string {
+  const lines = [`Baseline: ${baselineFile}`, `Current:  ${currentFile}`];
+  const total = countDiffChanges(diff);
+  const metadataChanges = diff.metadataChanges.filter(change => !change.sessionDetail);
+  const sessionChanges = diff.metadataChanges.filter(change => change.sessionDetail);
+
+  if (total === 0) {
+    lines.push('\nNo differences found');
+  }
+
+  if (sessionChanges.length > 0) {
+    lines.push(heading('Session Details (not counted)'));
+    for (const change of sessionChanges) {
+      lines.push(`  ${change.field}: ${change.baseline} -> ${change.current}`);
+    }
+  }
+
+  if (total === 0) {
+    return lines.join('\n');
+  }
+
+  if (metadataChanges.length > 0) {
+    lines.push(heading('Metadata'));
+    for (const change of metadataChanges) {
+      lines.push(`  ${change.field}: ${change.baseline} -> ${change.current}`);
+    }
+  }
+
+  if (diff.addedFeatures.length > 0 || diff.removedFeatures.length > 0) {
+    lines.push(heading('Features'));
+    for (const name of diff.addedFeatures) lines.push(`  + ${name}`);
+    for (const name of diff.removedFeatures) lines.push(`  - ${name}`);
+  }
+
+  if (diff.valueChanges.length > 0) {
+    lines.push(heading('Selected Values'));
+    for (const change of diff.valueChanges) {
+      lines.push(`  ${change.feature}: ${change.baselineValue ?? '(none)'} -> ${change.currentValue ?? '(none)'}`);
+    }
+  }
+
+  if (diff.optionChanges.length > 0) {
+    lines.push(heading('Available Options'));
+    for (const change of diff.optionChanges) {
+      lines.push(`  ${change.feature}:`);
+      if (change.addedOptions.length > 0) lines.push(`    + ${change.addedOptions.join(', ')}`);
+      if (change.removedOptions.length > 0) lines.push(`    - ${change.removedOptions.join(', ')}`);
+    }
+  }
+
+  if (diff.propertyChanges.length > 0) {
+    lines.push(heading('Screen Option Properties'));
+    for (const change of diff.propertyChanges) {
+      lines.push(`  ${change.feature}.${change.property}: ${change.baselineValue ?? '(none)'} -> ${change.currentValue ?? '(none)'}`);
+    }
+  }
+
+  if (diff.componentChanges.length > 0) {
+    lines.push(heading('Components'));
+    for (const change of diff.componentChanges) {
+      if (change.change === 'added') lines.push(`  + ${change.path} (qty ${change.currentQuantity ?? '?'})`);
+      else if (change.change === 'removed') lines.push(`  - ${change.path} (qty ${change.baselineQuantity ?? '?'})`);
+      else lines.push(`  ~ ${change.path}: qty ${change.baselineQuantity ?? '?'} -> ${change.currentQuantity ?? '?'}`);
+    }
+  }
+
+  const { integrationOutputDiff, variableDiff, conditionDiff } = diff;
+
+  if (integrationOutputDiff.addedTemplates.length > 0 ||
+      integrationOutputDiff.removedTemplates.length > 0 ||
+      integrationOutputDiff.templateDiffs.size > 0) {
+    lines.push(heading('Integration Outputs'));
+    for (const name of integrationOutputDiff.addedTemplates) lines.push(`  + ${name}`);
+    for (const name of integrationOutputDiff.removedTemplates) lines.push(`  - ${name}`);
+    for (const [name, templateDiff] of integrationOutputDiff.templateDiffs) {
+      lines.push(
+        `  ~ ${name}: ${templateDiff.addedRows.length} added, ${templateDiff.removedRows.length} removed, ` +
+        `${templateDiff.changedRows.length} changed rows`
+      );
+    }
+  }
+
+  if (variableDiff.totalChanges > 0) {
+    lines.push(heading('Variables'));
+    for (const name of variableDiff.addedVariables) lines.push(`  + ${name}`);
+    for (const name of variableDiff.removedVariables) lines.push(`  - ${name}`);
+    for (const change of variableDiff.changedVariables) {
+      lines.push(`  ~ ${change.variableName}: ${change.baselineFinalValue ?? '(null)'} -> ${change.currentFinalValue ?? '(null)'}`);
+    }
+  }
+
+  if (conditionDiff.totalChanges > 0) {
+    lines.push(heading('Conditions'));
+    for (const change of conditionDiff.changedConditions) {
+      lines.push(`  ~ ${change.ruleName}: ${change.baselineResult} -> ${change.currentResult}`);
+    }
+    for (const condition of conditionDiff.addedConditions) lines.push(`  + ${condition.ruleName}`);
+    for (const condition of conditionDiff.removedConditions) lines.push(`  - ${condition.ruleName}`);
+  }
+
+  lines.push(`\n${total} difference${total !== 1 ? 's' : ''} found`);
+  return lines.join('\n');
+}
+
+export function formatRegression(
+  filename: string,
+  match: BaselineMatchResult,
+  result: RegressionResult,
+  failed: boolean
+): string {
+  const { summary } = result;
+  const lines = [
+    `${failed ? 'FAIL' : 'PASS'} ${filename}`,
+    `  Baseline: ${result.matchedBaselineName} (${result.matchScore}% match, ` +
+    `${match.matchingSelections}/${match.totalSelections} selections)`,
+    `  ${summary.errors} errors, ${summary.warnings} warnings, ${summary.infos} info, ` +
+    `${summary.userChoicesDiverged} divergent selections`,
+  ];
+
+  for (const issue of result.issues.filter(i => i.severity !== 'info')) {
+    const details = issue.details ? ` - ${issue.details}` : '';
+    lines.push(`  ${SEVERITY_LABELS[issue.severity]} line ${issue.lineNumber}: ${issue.featureName} ${issue.type}${details}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatIssues(filename: string, issues: DetectedIssue[]): string {
+  if (issues.length === 0) {
+    return `${filename}: no issues detected`;
+  }
+
+  return [`${filename}: ${issues.length} issue${issues.length !== 1 ? 's' : ''}`, ...issues.map(formatIssue)].join('\n');
+}
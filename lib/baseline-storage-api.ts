@@ -4,7 +4,8 @@
  * Works without authentication (uses demo user on server side)
  */
 
-import type { ParsedTrace, FeatureData } from './trace-parser';
+import type { ParsedTrace } from './trace-parser';
+import { serializeParsedTrace, deserializeParsedTrace } from './trace-serialization';
 
 export interface BaselineTrace {
   id: string;
@@ -30,59 +31,6 @@ export interface BaselineMatchResult {
   firstDivergenceIndex: number;
 }
 
-/**
- * Reconstruct Maps from JSON (API returns plain objects)
- */
-function reconstructTrace(trace: ParsedTrace): ParsedTrace {
-  // Features Map
-  if (trace.features && !(trace.features instanceof Map)) {
-    const featuresObj = trace.features as unknown as Record<string, FeatureData>;
-    trace.features = new Map(Object.entries(featuresObj));
-  }
-
-  // Rulesets Map
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const rulesSummary = trace.rulesSummary as any;
-  if (rulesSummary?.rulesets && !(rulesSummary.rulesets instanceof Map)) {
-    const rulesetsObj = rulesSummary.rulesets as Record<string, unknown>;
-    rulesSummary.rulesets = new Map(Object.entries(rulesetsObj));
-
-    for (const [, ruleset] of rulesSummary.rulesets) {
-      if (ruleset.rules && !(ruleset.rules instanceof Map)) {
-        ruleset.rules = new Map(Object.entries(ruleset.rules));
-      }
-    }
-  }
-
-  if (rulesSummary?.ruleTypeBreakdown && !(rulesSummary.ruleTypeBreakdown instanceof Map)) {
-    rulesSummary.ruleTypeBreakdown = new Map(Object.entries(rulesSummary.ruleTypeBreakdown));
-  }
-
-  // Integration templates Map
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const integrationOutputs = trace.integrationOutputs as any;
-  if (integrationOutputs?.templates && !(integrationOutputs.templates instanceof Map)) {
-    integrationOutputs.templates = new Map(Object.entries(integrationOutputs.templates));
-
-    for (const [, template] of integrationOutputs.templates) {
-      for (const row of template.rows) {
-        if (row.properties && !(row.properties instanceof Map)) {
-          row.properties = new Map(Object.entries(row.properties));
-        }
-      }
-    }
-  }
-
-  // Variable tracking Map
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const variableTracking = trace.variableTracking as any;
-  if (variableTracking?.variables && !(variableTracking.variables instanceof Map)) {
-    variableTracking.variables = new Map(Object.entries(variableTracking.variables));
-  }
-
-  return trace;
-}
-
 /**
  * Extract selection path from a parsed trace
  */
@@ -119,10 +67,10 @@ export async function getBaselines(): Promise<BaselineTrace[]> {
 
     const baselines = await response.json();
 
-    // Reconstruct Maps from JSON
+    // Rebuild Maps from the serialized trace
     return baselines.map((baseline: BaselineTrace) => ({
       ...baseline,
-      trace: reconstructTrace(baseline.trace),
+      trace: deserializeParsedTrace(baseline.trace),
     }));
   } catch (error) {
     console.error('Error fetching baselines:', error);
@@ -148,7 +96,7 @@ export async function addBaseline(
       name,
       filename,
       rawContent,
-      trace,
+      trace: serializeParsedTrace(trace),
     }),
   });
 
@@ -159,8 +107,8 @@ export async function addBaseline(
 
   const baseline = await response.json();
 
-  // Reconstruct Maps from JSON
-  baseline.trace = reconstructTrace(baseline.trace);
+  // Rebuild Maps from the serialized trace
+  baseline.trace = deserializeParsedTrace(baseline.trace);
 
   return baseline;
 }
@@ -226,27 +174,28 @@ function calculateMatchScore(
 }
 
 /**
- * Find the best matching baseline for a test trace
+ * Rank a set of baselines by match score for a test trace
+ * Pure counterpart of rankBaselines for callers that already hold the baselines
  */
-export async function findBestMatch(testTrace: ParsedTrace): Promise<BaselineMatchResult | null> {
-  const baselines = await getBaselines();
-
-  if (baselines.length === 0) {
-    return null;
-  }
-
+export function scoreBaselines(
+  baselines: BaselineTrace[],
+  testTrace: ParsedTrace
+): BaselineMatchResult[] {
   const testSelections = extractSelectionPath(testTrace);
-  let bestMatch: BaselineMatchResult | null = null;
 
-  for (const baseline of baselines) {
-    const result = calculateMatchScore(baseline, testSelections);
+  const results = baselines.map(baseline =>
+    calculateMatchScore(baseline, testSelections)
+  );
 
-    if (!bestMatch || result.matchScore > bestMatch.matchScore) {
-      bestMatch = result;
-    }
-  }
+  return results.sort((a, b) => b.matchScore - a.matchScore);
+}
 
-  return bestMatch;
+/**
+ * Find the best matching baseline for a test trace
+ */
+export async function findBestMatch(testTrace: ParsedTrace): Promise<BaselineMatchResult | null> {
+  const baselines = await getBaselines();
+  return scoreBaselines(baselines, testTrace)[0] ?? null;
 }
 
 /**
@@ -254,11 +203,41 @@ export async function findBestMatch(testTrace: ParsedTrace): Promise<BaselineMat
  */
 export async function rankBaselines(testTrace: ParsedTrace): Promise<BaselineMatchResult[]> {
   const baselines = await getBaselines();
-  const testSelections = extractSelectionPath(testTrace);
+  return scoreBaselines(baselines, testTrace);
+}
 
-  const results = baselines.map(baseline =>
-    calculateMatchScore(baseline, testSelections)
-  );
+export type BaselineSortKey = 'saved' | 'started' | 'name';
 
-  return results.sort((a, b) => b.matchScore - a.matchScore);
+/**
+ * Whether a baseline's name, filename or any XML header field contains the
+ * query, ignoring case; an empty query matches every baseline
+ */
+export function matchesBaselineFilter(baseline: BaselineTrace, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+
+  const values = [baseline.name, baseline.filename, ...baseline.trace.metadata.headerFields.values()];
+  return values.some(value => value.toLowerCase().includes(needle));
+}
+
+/**
+ * Comparator for a baseline sort order. Dates sort newest first; baselines
+ * whose trace has no parsable Timestamp sort after the rest.
+ */
+export function compareBaselines(key: BaselineSortKey): (a: BaselineTrace, b: BaselineTrace) => number {
+  switch (key) {
+    case 'saved':
+      return (a, b) => b.createdAt - a.createdAt;
+    case 'started':
+      return (a, b) => {
+        const aStarted = a.trace.metadata.startedAt;
+        const bStarted = b.trace.metadata.startedAt;
+        if (aStarted === null || bStarted === null) {
+          return (aStarted === null ? 1 : 0) - (bStarted === null ? 1 : 0);
+        }
+        return bStarted - aStarted;
+      };
+    case 'name':
+      return (a, b) => a.name.localeCompare(b.name);
+  }
 }
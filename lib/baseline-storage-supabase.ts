@@ -5,13 +5,14 @@
  */
 
 import { supabase } from './supabase-client';
-import type { ParsedTrace, FeatureData } from './trace-parser';
+import type { ParsedTrace } from './trace-parser';
+import { serializeParsedTrace, deserializeParsedTrace } from './trace-serialization';
 
 export interface BaselineTrace {
   id: string;
   name: string;
   filename: string;
-  rawContent: string;              // ✅ NOW STORED
+  rawContent?: string;             // Only returned by getBaseline()
   trace: ParsedTrace;
   selectionPath: SelectionEntry[];
   createdAt: number;
@@ -58,59 +59,6 @@ async function getCurrentUser() {
   return session;
 }
 
-/**
- * Reconstruct Maps from JSON (Supabase returns parsed_data as plain objects)
- */
-function reconstructTrace(trace: ParsedTrace): ParsedTrace {
-  // Features Map
-  if (trace.features && !(trace.features instanceof Map)) {
-    const featuresObj = trace.features as unknown as Record<string, FeatureData>;
-    trace.features = new Map(Object.entries(featuresObj));
-  }
-
-  // Rulesets Map
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const rulesSummary = trace.rulesSummary as any;
-  if (rulesSummary?.rulesets && !(rulesSummary.rulesets instanceof Map)) {
-    const rulesetsObj = rulesSummary.rulesets as Record<string, unknown>;
-    rulesSummary.rulesets = new Map(Object.entries(rulesetsObj));
-
-    for (const [, ruleset] of rulesSummary.rulesets) {
-      if (ruleset.rules && !(ruleset.rules instanceof Map)) {
-        ruleset.rules = new Map(Object.entries(ruleset.rules));
-      }
-    }
-  }
-
-  if (rulesSummary?.ruleTypeBreakdown && !(rulesSummary.ruleTypeBreakdown instanceof Map)) {
-    rulesSummary.ruleTypeBreakdown = new Map(Object.entries(rulesSummary.ruleTypeBreakdown));
-  }
-
-  // Integration templates Map
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const integrationOutputs = trace.integrationOutputs as any;
-  if (integrationOutputs?.templates && !(integrationOutputs.templates instanceof Map)) {
-    integrationOutputs.templates = new Map(Object.entries(integrationOutputs.templates));
-
-    for (const [, template] of integrationOutputs.templates) {
-      for (const row of template.rows) {
-        if (row.properties && !(row.properties instanceof Map)) {
-          row.properties = new Map(Object.entries(row.properties));
-        }
-      }
-    }
-  }
-
-  // Variable tracking Map
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const variableTracking = trace.variableTracking as any;
-  if (variableTracking?.variables && !(variableTracking.variables instanceof Map)) {
-    variableTracking.variables = new Map(Object.entries(variableTracking.variables));
-  }
-
-  return trace;
-}
-
 /**
  * Add a new baseline to Supabase
  */
@@ -118,7 +66,8 @@ export async function addBaseline(
   name: string,
   filename: string,
   rawContent: string,
-  trace: ParsedTrace
+  trace: ParsedTrace,
+  rawContentReconstructed = false  // rawContent was rebuilt from the trace, not read from the file
 ): Promise<BaselineTrace> {
   const session = await getCurrentUser();
 
@@ -132,7 +81,8 @@ export async function addBaseline(
       name,
       filename,
       rawContent,
-      trace,
+      rawContentReconstructed,
+      trace: serializeParsedTrace(trace),
     }),
   });
 
@@ -143,8 +93,8 @@ export async function addBaseline(
 
   const baseline = await response.json();
 
-  // Reconstruct Maps from JSON
-  baseline.trace = reconstructTrace(baseline.trace);
+  // Rebuild Maps from the serialized trace
+  baseline.trace = deserializeParsedTrace(baseline.trace);
 
   return baseline;
 }
@@ -187,10 +137,10 @@ export async function getBaselines(): Promise<BaselineTrace[]> {
 
   const baselines = await response.json();
 
-  // Reconstruct Maps from JSON
+  // Rebuild Maps from the serialized trace
   return baselines.map((baseline: BaselineTrace) => ({
     ...baseline,
-    trace: reconstructTrace(baseline.trace),
+    trace: deserializeParsedTrace(baseline.trace),
   }));
 }
 
@@ -217,8 +167,8 @@ export async function getBaseline(id: string): Promise<BaselineTrace | null> {
 
     const baseline = await response.json();
 
-    // Reconstruct Maps from JSON
-    baseline.trace = reconstructTrace(baseline.trace);
+    // Rebuild Maps from the serialized trace
+    baseline.trace = deserializeParsedTrace(baseline.trace);
 
     return baseline;
   } catch (error) {
@@ -4,7 +4,8 @@
  * Stores baselines in localStorage with selection paths for matching.
  */
 
-import type { ParsedTrace, FeatureData } from './trace-parser';
+import type { ParsedTrace } from './trace-parser';
+import { serializeParsedTrace, deserializeParsedTrace } from './trace-serialization';
 
 export interface BaselineTrace {
   id: string;
@@ -77,9 +78,9 @@ export function loadBaselineLibrary(): BaselineLibrary {
 
     const library = JSON.parse(stored) as BaselineLibrary;
 
-    // Reconstruct Maps from JSON (they serialize as objects)
+    // Rebuild Maps and migrate traces saved by older versions
     for (const baseline of library.baselines) {
-      baseline.trace = reconstructTrace(baseline.trace);
+      baseline.trace = deserializeParsedTrace(baseline.trace);
     }
 
     return library;
@@ -89,104 +90,6 @@ export function loadBaselineLibrary(): BaselineLibrary {
   }
 }
 
-/**
- * Reconstruct Maps from JSON serialization
- */
-function reconstructTrace(trace: ParsedTrace): ParsedTrace {
-  // Features Map
-  if (trace.features && !(trace.features instanceof Map)) {
-    const featuresObj = trace.features as unknown as Record<string, FeatureData>;
-    trace.features = new Map(Object.entries(featuresObj));
-  }
-
-  // Rulesets Map - use any to bypass strict typing during reconstruction
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const rulesSummary = trace.rulesSummary as any;
-  if (rulesSummary?.rulesets && !(rulesSummary.rulesets instanceof Map)) {
-    const rulesetsObj = rulesSummary.rulesets as Record<string, unknown>;
-    rulesSummary.rulesets = new Map(Object.entries(rulesetsObj));
-
-    // Also reconstruct nested rules Maps
-    for (const [, ruleset] of rulesSummary.rulesets) {
-      if (ruleset.rules && !(ruleset.rules instanceof Map)) {
-        ruleset.rules = new Map(Object.entries(ruleset.rules));
-      }
-    }
-  }
-
-  // Rule type breakdown Map
-  if (rulesSummary?.ruleTypeBreakdown && !(rulesSummary.ruleTypeBreakdown instanceof Map)) {
-    rulesSummary.ruleTypeBreakdown = new Map(Object.entries(rulesSummary.ruleTypeBreakdown));
-  }
-
-  // Integration templates Map - use any to bypass strict typing during reconstruction
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const integrationOutputs = trace.integrationOutputs as any;
-  if (integrationOutputs?.templates && !(integrationOutputs.templates instanceof Map)) {
-    integrationOutputs.templates = new Map(Object.entries(integrationOutputs.templates));
-
-    // Reconstruct row properties Maps
-    for (const [, template] of integrationOutputs.templates) {
-      for (const row of template.rows) {
-        if (row.properties && !(row.properties instanceof Map)) {
-          row.properties = new Map(Object.entries(row.properties));
-        }
-      }
-    }
-  }
-
-  // Variable tracking Map - use any to bypass strict typing during reconstruction
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const variableTracking = trace.variableTracking as any;
-  if (variableTracking?.variables && !(variableTracking.variables instanceof Map)) {
-    variableTracking.variables = new Map(Object.entries(variableTracking.variables));
-  }
-
-  return trace;
-}
-
-/**
- * Serialize trace data for storage (convert Maps to objects)
- */
-function serializeTrace(trace: ParsedTrace): unknown {
-  return {
-    ...trace,
-    features: Object.fromEntries(trace.features),
-    rulesSummary: {
-      ...trace.rulesSummary,
-      rulesets: Object.fromEntries(
-        Array.from(trace.rulesSummary.rulesets.entries()).map(([key, ruleset]) => [
-          key,
-          {
-            ...ruleset,
-            rules: Object.fromEntries(ruleset.rules),
-          },
-        ])
-      ),
-      ruleTypeBreakdown: Object.fromEntries(trace.rulesSummary.ruleTypeBreakdown),
-    },
-    integrationOutputs: {
-      ...trace.integrationOutputs,
-      templates: Object.fromEntries(
-        Array.from(trace.integrationOutputs.templates.entries()).map(([key, template]) => [
-          key,
-          {
-            ...template,
-            rows: template.rows.map(row => ({
-              ...row,
-              properties: Object.fromEntries(row.properties),
-            })),
-          },
-        ])
-      ),
-    },
-    variableTracking: {
-      ...trace.variableTracking,
-      variables: Object.fromEntries(trace.variableTracking.variables),
-    },
-  };
-}
-
 /**
  * Save the baseline library to localStorage
  */
@@ -199,7 +102,7 @@ export function saveBaselineLibrary(library: BaselineLibrary): void {
       ...library,
       baselines: library.baselines.map(baseline => ({
         ...baseline,
-        trace: serializeTrace(baseline.trace),
+        trace: serializeParsedTrace(baseline.trace),
       })),
     };
 
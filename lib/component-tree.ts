@@ -0,0 +1,76 @@
+/**
+ * Component Tree
+ * Nests the components CreateComponentRule executions created under their
+ * parents, for multi-level products.
+ */
+
+import type { ComponentData } from './trace-parser';
+
+export interface ComponentTreeNode {
+  component: ComponentData;
+  path: string;                    // Names from the top-level component down, joined with "/"
+  depth: number;
+  children: ComponentTreeNode[];
+}
+
+/**
+ * Nest components under the component their parent name refers to. A parent
+ * that was never created in the trace (e.g. the root product) leaves the
+ * component at the top level, with that parent as the start of its path.
+ */
+export function buildComponentTree(components: ComponentData[]): ComponentTreeNode[] {
+  const nodes = components.map((component): ComponentTreeNode => ({ component, path: '', depth: 0, children: [] }));
+  const byName = new Map<string, ComponentTreeNode>();
+  for (const node of nodes) {
+    if (!byName.has(node.component.name)) {
+      byName.set(node.component.name, node);
+    }
+  }
+
+  const parentOf = new Map<ComponentTreeNode, ComponentTreeNode>();
+  const roots: ComponentTreeNode[] = [];
+
+  for (const node of nodes) {
+    const parent = node.component.parent ? byName.get(node.component.parent) : undefined;
+
+    // A component can't sit under itself or its own descendants
+    let ancestor = parent;
+    while (ancestor && ancestor !== node) {
+      ancestor = parentOf.get(ancestor);
+    }
+
+    if (parent && ancestor !== node) {
+      parent.children.push(node);
+      parentOf.set(node, parent);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const assignPaths = (node: ComponentTreeNode, parentPath: string | null, depth: number) => {
+    const prefix = parentPath ?? node.component.parent;
+    node.path = prefix ? `${prefix}/${node.component.name}` : node.component.name;
+    node.depth = depth;
+    for (const child of node.children) {
+      assignPaths(child, node.path, depth + 1);
+    }
+  };
+  for (const root of roots) {
+    assignPaths(root, null, 0);
+  }
+
+  return roots;
+}
+
+/**
+ * Every node of a tree, parents before their children
+ */
+export function flattenComponentTree(roots: ComponentTreeNode[]): ComponentTreeNode[] {
+  const result: ComponentTreeNode[] = [];
+  const visit = (node: ComponentTreeNode) => {
+    result.push(node);
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return result;
+}
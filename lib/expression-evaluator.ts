@@ -0,0 +1,410 @@
+/**
+ * CPQ Expression Evaluator
+ * Evaluates parsed CPQ expressions against variable values from the trace,
+ * so recorded condition results can be checked against a re-evaluation
+ */
+
+import { parseExpression, type ExpressionNode, type ParsedExpression } from './expression-parser';
+import { getVariableStateAt } from './variable-state';
+import type { ConditionEvaluation, ParsedTrace } from './trace-parser';
+
+export type ExpressionValue = string | number | boolean | null | ExpressionValue[];
+
+/**
+ * Returns a variable's value, or undefined when the value isn't known
+ */
+export type VariableLookup = (name: string) => ExpressionValue | undefined;
+
+export interface ExpressionEvaluation {
+  value: ExpressionValue;
+  isDeterminate: boolean;           // false when a variable was unknown or evaluation failed
+  unresolvedVariables: string[];
+  error?: string;
+  nodeValues: Map<ExpressionNode, ExpressionValue>;  // Every sub-expression that was evaluated
+}
+
+export interface ConditionReevaluation {
+  condition: ConditionEvaluation;
+  evaluation: ExpressionEvaluation;
+  evaluatedResult: boolean | null;  // null when the evaluation is indeterminate
+  matchesRecorded: boolean | null;  // null when the evaluation is indeterminate
+}
+
+// Thrown to abandon evaluation; not an Error so no stack trace is captured
+// for what is the common case in traces with unrecorded inputs
+class UnresolvedVariable {
+  variableName: string;
+
+  constructor(variableName: string) {
+    this.variableName = variableName;
+  }
+}
+
+// ============================================
+// VALUE COERCION
+// ============================================
+
+function toNumber(value: ExpressionValue): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+function toText(value: ExpressionValue): string {
+  if (value === null) return '';
+  if (Array.isArray(value)) return value.map(toText).join(',');
+  return String(value);
+}
+
+/**
+ * CPQ truthiness: "True" strings, non-zero numbers (numeric strings included,
+ * as toNumber reads them) and non-empty lists
+ */
+export function toBoolean(value: ExpressionValue): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase();
+    if (text === 'true') return true;
+    if (text === 'false' || text === '') return false;
+    const number = Number(text);
+    return !Number.isNaN(number) && number !== 0;
+  }
+  if (Array.isArray(value)) return value.length > 0;
+  return false;
+}
+
+function isEmpty(value: ExpressionValue): boolean {
+  return value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Equality with the loose typing of trace values: numeric strings compare as
+ * numbers, "True"/"False" as booleans. String comparison is case-sensitive.
+ */
+function valuesEqual(a: ExpressionValue, b: ExpressionValue): boolean {
+  if (a === null || b === null) return a === b;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') return toBoolean(a) === toBoolean(b);
+
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (!Number.isNaN(numA) && !Number.isNaN(numB)) return numA === numB;
+  return toText(a) === toText(b);
+}
+
+function compareValues(a: ExpressionValue, b: ExpressionValue): number {
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (!Number.isNaN(numA) && !Number.isNaN(numB)) return numA - numB;
+  const textA = toText(a);
+  const textB = toText(b);
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+}
+
+function isMember(value: ExpressionValue, collection: ExpressionValue): boolean {
+  if (Array.isArray(collection)) return collection.some(item => valuesEqual(value, item));
+  return valuesEqual(value, collection);
+}
+
+/**
+ * Format a value the way the trace writes it
+ */
+export function formatExpressionValue(value: ExpressionValue): string {
+  if (value === null) return 'null';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return `{${value.map(formatExpressionValue).join(', ')}}`;
+  return `"${value}"`;
+}
+
+// ============================================
+// FUNCTIONS
+// ============================================
+
+type Evaluate = (node: ExpressionNode) => ExpressionValue;
+
+/**
+ * CPQ functions by upper-case name. Arguments are passed unevaluated so
+ * IF, AND and OR can short-circuit like CPQ does.
+ */
+const FUNCTIONS: Record<string, (args: ExpressionNode[], evaluate: Evaluate) => ExpressionValue> = {
+  EXISTS: (args, evaluate) => !isEmpty(evaluate(args[0])),
+  ISNULL: (args, evaluate) => evaluate(args[0]) === null,
+  ISEMPTY: (args, evaluate) => isEmpty(evaluate(args[0])),
+  IF: (args, evaluate) => {
+    if (toBoolean(evaluate(args[0]))) return evaluate(args[1]);
+    return args.length > 2 ? evaluate(args[2]) : null;
+  },
+  AND: (args, evaluate) => args.every(arg => toBoolean(evaluate(arg))),
+  OR: (args, evaluate) => args.some(arg => toBoolean(evaluate(arg))),
+  NOT: (args, evaluate) => !toBoolean(evaluate(args[0])),
+  CONTAINS: (args, evaluate) => {
+    const haystack = evaluate(args[0]);
+    const needle = evaluate(args[1]);
+    if (Array.isArray(haystack)) return isMember(needle, haystack);
+    return toText(haystack).includes(toText(needle));
+  },
+  STARTSWITH: (args, evaluate) => toText(evaluate(args[0])).startsWith(toText(evaluate(args[1]))),
+  ENDSWITH: (args, evaluate) => toText(evaluate(args[0])).endsWith(toText(evaluate(args[1]))),
+  LEN: (args, evaluate) => toText(evaluate(args[0])).length,
+  LENGTH: (args, evaluate) => toText(evaluate(args[0])).length,
+  UPPER: (args, evaluate) => toText(evaluate(args[0])).toUpperCase(),
+  LOWER: (args, evaluate) => toText(evaluate(args[0])).toLowerCase(),
+  TRIM: (args, evaluate) => toText(evaluate(args[0])).trim(),
+  LEFT: (args, evaluate) => toText(evaluate(args[0])).slice(0, toNumber(evaluate(args[1]))),
+  RIGHT: (args, evaluate) => {
+    const count = toNumber(evaluate(args[1]));
+    return count > 0 ? toText(evaluate(args[0])).slice(-count) : '';
+  },
+  // 1-based start, like MID in CPQ
+  MID: (args, evaluate) => {
+    const start = toNumber(evaluate(args[1])) - 1;
+    return toText(evaluate(args[0])).slice(start, start + toNumber(evaluate(args[2])));
+  },
+  // 0-based start, optional length
+  SUBSTRING: (args, evaluate) => {
+    const text = toText(evaluate(args[0]));
+    const start = toNumber(evaluate(args[1]));
+    return args.length > 2 ? text.slice(start, start + toNumber(evaluate(args[2]))) : text.slice(start);
+  },
+  CONCAT: (args, evaluate) => args.map(arg => toText(evaluate(arg))).join(''),
+  REPLACE: (args, evaluate) =>
+    toText(evaluate(args[0])).split(toText(evaluate(args[1]))).join(toText(evaluate(args[2]))),
+};
+
+// ============================================
+// EVALUATION
+// ============================================
+
+function evaluateLiteral(node: ExpressionNode): ExpressionValue {
+  if (node.value === 'null') return null;
+  if (node.value === 'TRUE') return true;
+  if (node.value === 'FALSE') return false;
+  if (node.value.startsWith('"')) return node.value.slice(1, -1);
+  return Number(node.value);
+}
+
+function evaluateOperator(node: ExpressionNode, evaluate: Evaluate): ExpressionValue {
+  const [leftNode, rightNode] = node.children ?? [];
+
+  // Short-circuit before evaluating the right side
+  if (node.value === 'AND') return toBoolean(evaluate(leftNode)) && toBoolean(evaluate(rightNode));
+  if (node.value === 'OR') return toBoolean(evaluate(leftNode)) || toBoolean(evaluate(rightNode));
+
+  const left = evaluate(leftNode);
+  const right = evaluate(rightNode);
+
+  switch (node.value) {
+    case '=': return valuesEqual(left, right);
+    case '!=': return !valuesEqual(left, right);
+    case '<': return compareValues(left, right) < 0;
+    case '>': return compareValues(left, right) > 0;
+    case '<=': return compareValues(left, right) <= 0;
+    case '>=': return compareValues(left, right) >= 0;
+    case 'IN': return isMember(left, right);
+    case 'NOTIN': return !isMember(left, right);
+    case '+': {
+      const sum = toNumber(left) + toNumber(right);
+      return Number.isNaN(sum) ? toText(left) + toText(right) : sum;
+    }
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/': return toNumber(left) / toNumber(right);
+    default: throw new Error(`Unsupported operator: ${node.value}`);
+  }
+}
+
+/**
+ * Evaluate an expression AST. Evaluation is indeterminate when a variable
+ * it needs has no known value or a function isn't supported.
+ */
+export function evaluateExpression(root: ExpressionNode, lookup: VariableLookup): ExpressionEvaluation {
+  const nodeValues = new Map<ExpressionNode, ExpressionValue>();
+
+  const evaluate: Evaluate = (node) => {
+    const value = evaluateNode(node);
+    nodeValues.set(node, value);
+    return value;
+  };
+
+  const evaluateNode: Evaluate = (node) => {
+    switch (node.type) {
+      case 'literal':
+        return evaluateLiteral(node);
+      case 'variable': {
+        const value = lookup(node.value);
+        if (value === undefined) throw new UnresolvedVariable(node.value);
+        return value;
+      }
+      case 'array':
+        return (node.children ?? []).map(evaluate);
+      case 'unary': {
+        const operand = evaluate(node.children![0]);
+        return node.value === '-' ? -toNumber(operand) : !toBoolean(operand);
+      }
+      case 'operator':
+        return evaluateOperator(node, evaluate);
+      case 'function': {
+        const fn = FUNCTIONS[node.value];
+        if (!fn) throw new Error(`Unsupported function: ${node.value}`);
+        return fn(node.children ?? [], evaluate);
+      }
+    }
+  };
+
+  try {
+    return { value: evaluate(root), isDeterminate: true, unresolvedVariables: [], nodeValues };
+  } catch (error) {
+    if (error instanceof UnresolvedVariable) {
+      return { value: null, isDeterminate: false, unresolvedVariables: [error.variableName], nodeValues };
+    }
+    return {
+      value: null,
+      isDeterminate: false,
+      unresolvedVariables: [],
+      error: error instanceof Error ? error.message : 'Evaluation error',
+      nodeValues,
+    };
+  }
+}
+
+/**
+ * Evaluate a parsed expression. Indeterminate when it didn't parse, or when
+ * parsing stopped before the end: the tree then holds only part of the input.
+ */
+export function evaluateParsedExpression(parsed: ParsedExpression, lookup: VariableLookup): ExpressionEvaluation {
+  if (!parsed.root || parsed.unparsed) {
+    return {
+      value: null,
+      isDeterminate: false,
+      unresolvedVariables: [],
+      error: parsed.root ? `Unable to parse "${parsed.unparsed}"` : 'Unable to parse expression',
+      nodeValues: new Map(),
+    };
+  }
+  return evaluateExpression(parsed.root, lookup);
+}
+
+/**
+ * Variable names an expression reads, in order of first use
+ */
+export function getReferencedVariables(root: ExpressionNode): string[] {
+  const names = new Set<string>();
+  const visit = (node: ExpressionNode) => {
+    if (node.type === 'variable') names.add(node.value);
+    node.children?.forEach(visit);
+  };
+  visit(root);
+  return [...names];
+}
+
+/**
+ * Build a case-insensitive lookup over trace variable values.
+ * "null" and "(unassigned)" are known values that evaluate as null.
+ */
+export function createVariableLookup(values: Map<string, string | null>): VariableLookup {
+  return (name) => {
+    const value = values.get(name.toLowerCase());
+    if (value === undefined) return undefined;
+    if (value === null || value === 'null' || value === '(unassigned)') return null;
+    return value;
+  };
+}
+
+// ============================================
+// CONDITION RE-EVALUATION
+// ============================================
+
+type VariableStateInput = Pick<ParsedTrace, 'variableTracking' | 'timeline'>;
+
+function sortedAssignments(trace: VariableStateInput) {
+  return [...trace.variableTracking.variables.values()]
+    .flatMap(variable => variable.assignments)
+    .sort((a, b) => a.lineNumber - b.lineNumber);
+}
+
+/**
+ * Start line of the rule executing at a line; its own assignments come
+ * after its condition, so they don't count as known at that point
+ */
+function ruleStartLine(ruleStartLines: number[], lineNumber: number, fromIndex = 0): { line: number; index: number } {
+  let index = fromIndex;
+  while (index + 1 < ruleStartLines.length && ruleStartLines[index + 1] <= lineNumber) {
+    index++;
+  }
+  const line = ruleStartLines[index] <= lineNumber ? ruleStartLines[index] : lineNumber;
+  return { line, index };
+}
+
+/**
+ * Variable values (keyed by lower-case display and raw name) assigned
+ * before the rule executing at a line
+ */
+export function getVariableValuesBefore(trace: VariableStateInput, lineNumber: number): Map<string, string | null> {
+  const { line: cutoff } = ruleStartLine(trace.timeline.executions.map(e => e.lineNumber), lineNumber);
+  const values = new Map<string, string | null>();
+
+  // In assignment order, so a raw name shared by several display names keeps the latest value
+  const snapshot = getVariableStateAt(trace.variableTracking, cutoff - 1)
+    .sort((a, b) => a.assignment.lineNumber - b.assignment.lineNumber);
+  for (const { assignment } of snapshot) {
+    values.set(assignment.displayName.toLowerCase(), assignment.resultValue);
+    values.set(assignment.variableName.toLowerCase(), assignment.resultValue);
+  }
+
+  return values;
+}
+
+/**
+ * Re-evaluate every recorded condition with the variable values assigned
+ * before the rule that evaluated it, and compare with the recorded result
+ */
+export function reevaluateConditions(
+  trace: Pick<ParsedTrace, 'conditionTracking' | 'variableTracking' | 'timeline'>
+): ConditionReevaluation[] {
+  const assignments = sortedAssignments(trace);
+  const ruleStartLines = trace.timeline.executions.map(e => e.lineNumber);
+  const conditions = [...trace.conditionTracking.conditions].sort((a, b) => a.lineNumber - b.lineNumber);
+
+  const values = new Map<string, string | null>();
+  const lookup = createVariableLookup(values);
+  const parsed = new Map<string, ParsedExpression>();
+  const results: ConditionReevaluation[] = [];
+  let nextAssignment = 0;
+  let ruleIndex = 0;
+
+  for (const condition of conditions) {
+    const rule = ruleStartLine(ruleStartLines, condition.lineNumber, ruleIndex);
+    const cutoff = rule.line;
+    ruleIndex = rule.index;
+
+    while (nextAssignment < assignments.length && assignments[nextAssignment].lineNumber < cutoff) {
+      const assignment = assignments[nextAssignment++];
+      values.set(assignment.displayName.toLowerCase(), assignment.resultValue);
+      values.set(assignment.variableName.toLowerCase(), assignment.resultValue);
+    }
+
+    let expression = parsed.get(condition.expression);
+    if (!expression) {
+      expression = parseExpression(condition.expression);
+      parsed.set(condition.expression, expression);
+    }
+
+    const evaluation = evaluateParsedExpression(expression, lookup);
+    const evaluatedResult = evaluation.isDeterminate ? toBoolean(evaluation.value) : null;
+
+    results.push({
+      condition,
+      evaluation,
+      evaluatedResult,
+      matchesRecorded: evaluatedResult === null ? null : evaluatedResult === condition.result,
+    });
+  }
+
+  return results;
+}
@@ -23,6 +23,7 @@ export interface ParsedExpression {
   original: string;
   isValid: boolean;
   error?: string;
+  unparsed?: string;                // Input left over when parsing stopped before the end
 }
 
 // Token types for lexer
@@ -49,6 +50,9 @@ interface Token {
   position: number;
 }
 
+// Tokens that can end an operand
+const OPERAND_END_TOKENS: TokenType[] = ['STRING', 'NUMBER', 'BOOLEAN', 'NULL', 'IDENTIFIER', 'RPAREN', 'RBRACE', 'RBRACKET'];
+
 /**
  * Tokenize a CPQ expression into tokens
  */
@@ -84,8 +88,10 @@ function tokenize(expression: string): Token[] {
       continue;
     }
 
-    // Numbers
-    if (/[0-9]/.test(expression[pos]) || (expression[pos] === '-' && /[0-9]/.test(expression[pos + 1] || ''))) {
+    // Numbers; after an operand, "-" is subtraction (Qty-1), not a negative literal
+    const previous = tokens[tokens.length - 1];
+    const afterOperand = previous !== undefined && OPERAND_END_TOKENS.includes(previous.type);
+    if (/[0-9]/.test(expression[pos]) || (!afterOperand && expression[pos] === '-' && /[0-9]/.test(expression[pos + 1] || ''))) {
       let value = '';
       if (expression[pos] === '-') {
         value = '-';
@@ -252,6 +258,12 @@ class Parser {
     return this.parseOr();
   }
 
+  // Input after the last token parsed, empty when everything was consumed
+  remaining(): string {
+    const token = this.current();
+    return token.type === 'EOF' ? '' : this.original.slice(token.position).trim();
+  }
+
   // OR has lowest precedence
   private parseOr(): ExpressionNode {
     let left = this.parseAnd();
@@ -558,11 +570,13 @@ export function parseExpression(expression: string): ParsedExpression {
     const tokens = tokenize(expression);
     const parser = new Parser(tokens, expression);
     const root = parser.parse();
+    const unparsed = parser.remaining();
 
     return {
       root,
       original: expression,
       isValid: root !== null,
+      ...(unparsed && { unparsed }),
     };
   } catch (error) {
     return {
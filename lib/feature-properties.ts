@@ -0,0 +1,65 @@
+/**
+ * Screen Option Properties
+ * Reads UI state (hidden, read-only, required) out of the generic
+ * Property/Result pairs captured for each Screen Option.
+ */
+
+export type FeatureFlag = 'hidden' | 'readOnly' | 'required';
+
+export const FEATURE_FLAGS: { flag: FeatureFlag; label: string }[] = [
+  { flag: 'hidden', label: 'Hidden' },
+  { flag: 'readOnly', label: 'Read-only' },
+  { flag: 'required', label: 'Required' },
+];
+
+// Property names (normalized) that carry each flag; inverted ones set it when false
+const FLAG_PROPERTIES: { flag: FeatureFlag; property: string; inverted?: boolean }[] = [
+  { flag: 'hidden', property: 'hidden' },
+  { flag: 'hidden', property: 'visible', inverted: true },
+  { flag: 'readOnly', property: 'readonly' },
+  { flag: 'readOnly', property: 'enabled', inverted: true },
+  { flag: 'readOnly', property: 'editable', inverted: true },
+  { flag: 'required', property: 'required' },
+  { flag: 'required', property: 'mandatory' },
+];
+
+const TRUE_VALUES = new Set(['true', 'yes', '1']);
+const FALSE_VALUES = new Set(['false', 'no', '0']);
+
+/**
+ * "Read Only", "ReadOnly" and "read_only" all name the same property
+ */
+function normalizePropertyName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+/**
+ * Interpret a property value as a boolean, or null if it isn't one
+ */
+export function parseBooleanProperty(value: string | undefined): boolean | null {
+  if (value === undefined) return null;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.has(normalized)) return true;
+  if (FALSE_VALUES.has(normalized)) return false;
+  return null;
+}
+
+/**
+ * Flags set by a Screen Option's properties. Properties that aren't logged
+ * or aren't booleans leave their flag unset.
+ */
+export function getFeatureFlags(properties: Map<string, string>): Set<FeatureFlag> {
+  const byName = new Map<string, string>();
+  for (const [name, value] of properties) {
+    byName.set(normalizePropertyName(name), value);
+  }
+
+  const flags = new Set<FeatureFlag>();
+  for (const { flag, property, inverted } of FLAG_PROPERTIES) {
+    const value = parseBooleanProperty(byName.get(property));
+    if (value !== null && value !== !!inverted) {
+      flags.add(flag);
+    }
+  }
+  return flags;
+}
@@ -0,0 +1,197 @@
+/**
+ * Interaction Steps
+ * Splits a trace into engine passes - each ends with an "N rules executed"
+ * line - and attributes rules, Screen Options and variable changes to each.
+ * Also reconstructs the trace state after a step, for step-to-step diffs.
+ */
+
+import type {
+  FeatureOccurrence,
+  IntegrationTemplate,
+  InteractionStep,
+  ParsedTrace,
+  RuleExecutionTimeline,
+  StepFeature,
+  StepVariableChange,
+  VariableAssignment,
+  VariableSummary,
+  VariableTrackingSummary,
+} from './trace-parser';
+
+/**
+ * Line range of one pass as found by the parser
+ */
+export interface StepBoundary {
+  startLine: number;
+  endLine: number;
+  rulesExecuted: number | null;    // null for lines after the last "rules executed" line
+  rollbackPoints: string[];
+}
+
+export interface InteractionStepInput {
+  featureOccurrences: { name: string; occurrence: FeatureOccurrence }[];  // Every Screen Option section, in trace order
+  variableTracking: VariableTrackingSummary;
+  timeline: RuleExecutionTimeline;
+}
+
+/**
+ * Attribute trace content to step boundaries. Lines after the last pass only
+ * become a step of their own if something happened in them.
+ */
+export function buildInteractionSteps(boundaries: StepBoundary[], input: InteractionStepInput): InteractionStep[] {
+  const { featureOccurrences, timeline } = input;
+  const executions = timeline.executions;
+  const assignments: VariableAssignment[] = [];
+  for (const variable of input.variableTracking.variables.values()) {
+    assignments.push(...variable.assignments);
+  }
+  assignments.sort((a, b) => a.lineNumber - b.lineNumber);
+
+  const currentValues = new Map<string, string | null>();
+  const steps: InteractionStep[] = [];
+  let nextExecution = 0;
+  let nextFeature = 0;
+  let nextAssignment = 0;
+
+  for (const boundary of boundaries) {
+    const { endLine } = boundary;
+
+    const firstExecution = nextExecution;
+    while (nextExecution < executions.length && executions[nextExecution].lineNumber <= endLine) {
+      nextExecution++;
+    }
+    const executionRange = nextExecution > firstExecution
+      ? { first: executions[firstExecution].executionId, last: executions[nextExecution - 1].executionId }
+      : null;
+
+    // Later occurrences within the step replace earlier ones
+    const features = new Map<string, StepFeature>();
+    while (nextFeature < featureOccurrences.length && featureOccurrences[nextFeature].occurrence.lineNumber <= endLine) {
+      const { name, occurrence } = featureOccurrences[nextFeature++];
+      features.set(name, { name, ...occurrence });
+    }
+
+    const changes = new Map<string, StepVariableChange>();
+    while (nextAssignment < assignments.length && assignments[nextAssignment].lineNumber <= endLine) {
+      const assignment = assignments[nextAssignment++];
+      const name = assignment.displayName;
+      let change = changes.get(name);
+      if (!change) {
+        change = {
+          name,
+          previousValue: currentValues.get(name) ?? null,
+          newValue: null,
+          assignmentCount: 0,
+          lineNumber: assignment.lineNumber,
+        };
+        changes.set(name, change);
+      }
+      change.newValue = assignment.resultValue;
+      change.assignmentCount++;
+      change.lineNumber = assignment.lineNumber;
+      currentValues.set(name, assignment.resultValue);
+    }
+
+    const hasActivity = executionRange !== null || features.size > 0 || changes.size > 0;
+    if (boundary.rulesExecuted === null && !hasActivity) {
+      // Trailing log output (e.g. rollback bookkeeping) belongs to the last pass
+      const previous = steps[steps.length - 1];
+      if (previous) {
+        previous.endLine = endLine;
+        previous.rollbackPoints.push(...boundary.rollbackPoints);
+      }
+      continue;
+    }
+
+    steps.push({
+      index: steps.length + 1,
+      startLine: boundary.startLine,
+      endLine,
+      rulesExecuted: boundary.rulesExecuted,
+      rollbackPoints: boundary.rollbackPoints,
+      executionRange,
+      features: [...features.values()].sort((a, b) => a.lineNumber - b.lineNumber),
+      variableChanges: [...changes.values()]
+        .filter(change => change.newValue !== change.previousValue)
+        .sort((a, b) => a.lineNumber - b.lineNumber),
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * The parts of a trace that steps are compared on
+ */
+export type StepState = Pick<ParsedTrace, 'variableTracking' | 'conditionTracking' | 'integrationOutputs'> & {
+  features: Map<string, StepFeature>;
+};
+
+/**
+ * The trace as it stood once a step finished: the latest occurrence of each
+ * Screen Option, variable values, condition results and integration rows so far
+ */
+export function getStateAfterStep(
+  trace: Pick<ParsedTrace, 'steps' | 'variableTracking' | 'conditionTracking' | 'integrationOutputs'>,
+  stepIndex: number
+): StepState {
+  const step = trace.steps[stepIndex - 1];
+  if (!step) {
+    throw new Error(`Step ${stepIndex} does not exist (trace has ${trace.steps.length} steps)`);
+  }
+  const { endLine } = step;
+
+  const features = new Map<string, StepFeature>();
+  for (const earlier of trace.steps.slice(0, stepIndex)) {
+    for (const feature of earlier.features) {
+      features.set(feature.name, feature);
+    }
+  }
+
+  const variables = new Map<string, VariableSummary>();
+  let totalAssignments = 0;
+  for (const [name, summary] of trace.variableTracking.variables) {
+    const assignments = summary.assignments.filter(a => a.lineNumber <= endLine);
+    if (assignments.length === 0) continue;
+
+    const last = assignments[assignments.length - 1];
+    variables.set(name, {
+      ...summary,
+      assignments,
+      finalValue: last.resultValue,
+      assignmentCount: assignments.length,
+      lastAssignmentLine: last.lineNumber,
+      hasChanges: assignments.some(a =>
+        a.previousValue !== null &&
+        a.resultValue !== null &&
+        a.previousValue !== a.resultValue &&
+        a.previousValue !== '(unassigned)'
+      ),
+    });
+    totalAssignments += assignments.length;
+  }
+
+  const conditions = trace.conditionTracking.conditions.filter(c => c.lineNumber <= endLine);
+  const firedCount = conditions.filter(c => c.result).length;
+
+  const templates = new Map<string, IntegrationTemplate>();
+  let totalRows = 0;
+  for (const [name, template] of trace.integrationOutputs.templates) {
+    const rows = template.rows.filter(r => r.lineNumber <= endLine);
+    if (rows.length === 0) continue;
+    templates.set(name, { ...template, rows });
+    totalRows += rows.length;
+  }
+
+  return {
+    features,
+    variableTracking: { variables, totalAssignments, uniqueVariables: variables.size },
+    conditionTracking: {
+      totalConditions: conditions.length,
+      firedCount,
+      skippedCount: conditions.length - firedCount,
+      conditions,
+    },
+    integrationOutputs: { templates, totalRows },
+  };
+}
@@ -0,0 +1,534 @@
+/**
+ * Issue Detection Engine
+ * Registry of issue detectors run over a parsed trace. Each detector declares
+ * its category, default severity and tunable parameters; a project's JSON
+ * config can disable detectors, override severities and change thresholds.
+ * See docs/issue-detection.md for the config format.
+ */
+
+import type {
+  ParsedTrace,
+  ConditionEvaluation,
+  DetectedIssue,
+  IssueCategory,
+  IssueSeverity,
+  IssuesSummary,
+} from './trace-parser';
+import { findExecutionCycles, findRulesetRecursion } from './loop-detection';
+import type { RulesetRecursion } from './loop-detection';
+import { formatExpressionValue, reevaluateConditions } from './expression-evaluator';
+import type { ConditionReevaluation } from './expression-evaluator';
+
+// The parts of a trace detectors may look at
+export type IssueDetectionInput = Pick<
+  ParsedTrace,
+  'rulesSummary' | 'conditionTracking' | 'variableTracking' | 'timeline' | 'rollbackPoints' | 'rollbackOccurrences'
+>;
+
+export interface IssueDetectorParameter {
+  label: string;
+  description: string;
+  default: number;
+  min?: number;
+}
+
+// An issue as reported by a detector, before the engine assigns ids
+export type DetectorIssue = Omit<DetectedIssue, 'id' | 'detectorId'>;
+
+export interface IssueDetector {
+  id: string;
+  name: string;
+  description: string;
+  category: IssueCategory;
+  defaultSeverity: IssueSeverity;
+  parameters: Record<string, IssueDetectorParameter>;
+  detect(input: IssueDetectionInput, parameters: Record<string, number>): DetectorIssue[];
+}
+
+export interface IssueDetectorSettings {
+  enabled?: boolean;
+  severity?: IssueSeverity;          // Replaces the severity of every issue the detector reports
+  parameters?: Record<string, number>;
+}
+
+export interface IssueDetectionConfig {
+  detectors?: Record<string, IssueDetectorSettings>;
+}
+
+// Effective settings for one detector after applying a config
+export interface ResolvedDetectorSettings {
+  enabled: boolean;
+  severity: IssueSeverity | null;    // null = detector decides
+  parameters: Record<string, number>;
+}
+
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info'];
+
+// ============================================
+// BUILT-IN DETECTORS
+// ============================================
+
+const hotRulesDetector: IssueDetector = {
+  id: 'hot-rules',
+  name: 'Hot rules',
+  description: 'Rules that execute many times, tiered by execution count',
+  category: 'performance',
+  defaultSeverity: 'error',
+  parameters: {
+    errorAbove: { label: 'Error above', description: 'Executions above which a rule is an error', default: 50, min: 0 },
+    warningAbove: { label: 'Warning above', description: 'Executions above which a rule is a warning', default: 20, min: 0 },
+    infoAbove: { label: 'Info above', description: 'Executions above which a rule is reported', default: 10, min: 0 },
+  },
+  detect(input, { errorAbove, warningAbove, infoAbove }) {
+    const issues: DetectorIssue[] = [];
+
+    // First execution line of each rule, from the timeline
+    const firstLines = new Map<string, number>();
+    for (const execution of input.timeline.executions) {
+      const key = `${execution.ruleset}:${execution.ruleId}`;
+      if (!firstLines.has(key)) firstLines.set(key, execution.lineNumber);
+    }
+
+    for (const rule of input.rulesSummary.topRules) {
+      const count = rule.executionCount;
+      const context = { ruleName: rule.ruleName, ruleset: rule.ruleset, count };
+      const title = `Rule executes ${count} times`;
+      const lineNumber = firstLines.get(`${rule.ruleset}:${rule.ruleId}`) ?? 0;
+
+      if (count > errorAbove) {
+        issues.push({
+          severity: 'error',
+          category: 'performance',
+          title,
+          description: `"${rule.ruleName}" may indicate a performance issue or infinite loop`,
+          lineNumber,
+          context,
+        });
+      } else if (count > warningAbove) {
+        issues.push({
+          severity: 'warning',
+          category: 'performance',
+          title,
+          description: `"${rule.ruleName}" executes frequently - consider optimization`,
+          lineNumber,
+          context,
+        });
+      } else if (count > infoAbove) {
+        issues.push({
+          severity: 'info',
+          category: 'performance',
+          title,
+          description: `"${rule.ruleName}" - consider if this frequency is expected`,
+          lineNumber,
+          context,
+        });
+      }
+    }
+
+    return issues;
+  },
+};
+
+const executionCycleDetector: IssueDetector = {
+  id: 'execution-cycle',
+  name: 'Repeating execution cycle',
+  description: 'The same sequence of rules executed back to back many times',
+  category: 'performance',
+  defaultSeverity: 'warning',
+  parameters: {
+    minRepetitions: { label: 'Min repetitions', description: 'Back-to-back iterations before a sequence is reported', default: 5, min: 2 },
+    errorRepetitions: { label: 'Error at', description: 'Iterations at which a cycle becomes an error', default: 50, min: 2 },
+    maxCycleLength: { label: 'Max cycle length', description: 'Longest rule sequence to look for', default: 20, min: 1 },
+  },
+  detect(input, { minRepetitions, errorRepetitions, maxCycleLength }) {
+    return findExecutionCycles(input.timeline.executions, { minRepetitions, maxCycleLength }).map(
+      (cycle): DetectorIssue => {
+        const first = cycle.rules[0];
+        const sequence = cycle.rules.map(r => r.ruleName).join(' → ');
+        return {
+          severity: cycle.repetitions >= errorRepetitions ? 'error' : 'warning',
+          category: 'performance',
+          title: `${cycle.rules.length}-rule cycle repeats ${cycle.repetitions} times`,
+          description: `${sequence.length > 80 ? `${sequence.slice(0, 80)}…` : sequence} - possible infinite loop`,
+          lineNumber: cycle.occurrences[0].startLine,
+          endLineNumber: cycle.occurrences[cycle.occurrences.length - 1].endLine,
+          context: {
+            ruleName: first.ruleName,
+            ruleset: first.ruleset,
+            count: cycle.repetitions,
+          },
+        };
+      }
+    );
+  },
+};
+
+const rulesetRecursionDetector: IssueDetector = {
+  id: 'ruleset-recursion',
+  name: 'Ruleset recursion',
+  description: 'LoadRulesetRule loading a ruleset that is already on the load stack',
+  category: 'logic',
+  defaultSeverity: 'error',
+  parameters: {},
+  detect(input) {
+    // One issue per load rule, at its first re-entry
+    const byRule = new Map<string, { recursion: RulesetRecursion; count: number }>();
+    for (const recursion of findRulesetRecursion(input.timeline.executions)) {
+      const key = `${recursion.ruleset}:${recursion.ruleId}`;
+      const entry = byRule.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        byRule.set(key, { recursion, count: 1 });
+      }
+    }
+
+    return Array.from(byRule.values(), ({ recursion, count }): DetectorIssue => ({
+      severity: 'error',
+      category: 'logic',
+      title: `Ruleset ${recursion.reenteredRuleset} re-entered`,
+      description: `"${recursion.ruleName}" loads a ruleset already on the stack (${recursion.stack.join(' → ')})`,
+      lineNumber: recursion.range.startLine,
+      endLineNumber: recursion.range.endLine,
+      context: {
+        ruleName: recursion.ruleName,
+        ruleset: recursion.ruleset,
+        count,
+      },
+    }));
+  },
+};
+
+const excessiveRollbacksDetector: IssueDetector = {
+  id: 'excessive-rollbacks',
+  name: 'Excessive rollback points',
+  description: 'Traces with many rollback points',
+  category: 'performance',
+  defaultSeverity: 'warning',
+  parameters: {
+    maxRollbackPoints: { label: 'Max rollback points', description: 'Rollback points allowed before reporting', default: 15, min: 0 },
+  },
+  detect(input, { maxRollbackPoints }) {
+    if (input.rollbackPoints <= maxRollbackPoints) return [];
+
+    return [{
+      severity: 'warning',
+      category: 'performance',
+      title: `${input.rollbackPoints} rollback points`,
+      description: 'High rollback count may indicate complex conflict resolution',
+      lineNumber: 0,
+      context: {
+        count: input.rollbackPoints,
+      },
+    }];
+  },
+};
+
+const alwaysFalseConditionDetector: IssueDetector = {
+  id: 'always-false-condition',
+  name: 'Condition always False',
+  description: 'Conditions evaluated repeatedly that never fire',
+  category: 'logic',
+  defaultSeverity: 'warning',
+  parameters: {
+    minEvaluations: { label: 'Min evaluations', description: 'Evaluations needed before a never-true condition is reported', default: 3, min: 1 },
+  },
+  detect(input, { minEvaluations }) {
+    // Group conditions by ruleId+ruleset+expression to find patterns
+    const conditionsByRule = new Map<string, { condition: ConditionEvaluation; trueCount: number; falseCount: number }>();
+
+    for (const condition of input.conditionTracking.conditions) {
+      const key = `${condition.ruleset}:${condition.ruleId}:${condition.expression}`;
+      if (!conditionsByRule.has(key)) {
+        conditionsByRule.set(key, { condition, trueCount: 0, falseCount: 0 });
+      }
+      const entry = conditionsByRule.get(key)!;
+      if (condition.result) {
+        entry.trueCount++;
+      } else {
+        entry.falseCount++;
+      }
+    }
+
+    const issues: DetectorIssue[] = [];
+    for (const [, entry] of conditionsByRule) {
+      const totalEvals = entry.trueCount + entry.falseCount;
+      if (totalEvals >= minEvaluations && entry.trueCount === 0) {
+        issues.push({
+          severity: 'warning',
+          category: 'logic',
+          title: `Condition always False (${totalEvals} evaluations)`,
+          description: `"${entry.condition.ruleName}" - rule never fires`,
+          lineNumber: entry.condition.lineNumber,
+          context: {
+            ruleName: entry.condition.ruleName,
+            ruleset: entry.condition.ruleset,
+            expression: entry.condition.expression,
+            count: totalEvals,
+          },
+        });
+      }
+    }
+
+    return issues;
+  },
+};
+
+const conditionResultMismatchDetector: IssueDetector = {
+  id: 'condition-result-mismatch',
+  name: 'Condition result mismatch',
+  description: 'Re-evaluating a condition with the traced variable values gives a different result than recorded',
+  category: 'logic',
+  defaultSeverity: 'info',
+  parameters: {},
+  detect(input) {
+    // Report the first mismatch per condition, with how often it happened
+    const mismatches = new Map<string, { reevaluation: ConditionReevaluation; count: number }>();
+
+    for (const reevaluation of reevaluateConditions(input)) {
+      if (reevaluation.matchesRecorded !== false) continue;
+      const { condition } = reevaluation;
+      const key = `${condition.ruleset}:${condition.ruleId}:${condition.expression}`;
+      const entry = mismatches.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        mismatches.set(key, { reevaluation, count: 1 });
+      }
+    }
+
+    return [...mismatches.values()].map(({ reevaluation: { condition, evaluation }, count }): DetectorIssue => ({
+      severity: 'info',
+      category: 'logic',
+      title: 'Condition result mismatch',
+      description:
+        `"${condition.ruleName}" recorded ${condition.result ? 'True' : 'False'} ` +
+        `but evaluates to ${formatExpressionValue(evaluation.value)} with the traced variable values`,
+      lineNumber: condition.lineNumber,
+      context: {
+        ruleName: condition.ruleName,
+        ruleset: condition.ruleset,
+        expression: condition.expression,
+        count,
+      },
+    }));
+  },
+};
+
+const nullInExpressionDetector: IssueDetector = {
+  id: 'null-in-expression',
+  name: 'Null value in expression',
+  description: 'Condition traces that evaluate with a null value',
+  category: 'data',
+  defaultSeverity: 'info',
+  parameters: {},
+  detect(input) {
+    // Group by unique expression to avoid flooding with same issue
+    const uniqueNullExpressions = new Map<string, ConditionEvaluation>();
+    for (const condition of input.conditionTracking.conditions) {
+      if (condition.trace && condition.trace.includes('null') && !uniqueNullExpressions.has(condition.expression)) {
+        uniqueNullExpressions.set(condition.expression, condition);
+      }
+    }
+
+    return Array.from(uniqueNullExpressions.values(), (condition): DetectorIssue => ({
+      severity: 'info',
+      category: 'data',
+      title: 'Null value in expression',
+      description: `Expression evaluates with null: ${condition.expression.slice(0, 60)}`,
+      lineNumber: condition.lineNumber,
+      context: {
+        expression: condition.expression,
+        ruleName: condition.ruleName,
+      },
+    }));
+  },
+};
+
+const unassignedVariableReadDetector: IssueDetector = {
+  id: 'unassigned-variable-read',
+  name: 'Variable read when unassigned',
+  description: 'Variables used in an expression before being assigned',
+  category: 'data',
+  defaultSeverity: 'warning',
+  parameters: {},
+  detect(input) {
+    const issues: DetectorIssue[] = [];
+
+    for (const [, variable] of input.variableTracking.variables) {
+      const assignment = variable.assignments.find(
+        a => a.previousValue === '(unassigned)' && a.assignmentExpression.startsWith('=')
+      );
+      // Only report first occurrence per variable
+      if (assignment) {
+        issues.push({
+          severity: 'warning',
+          category: 'data',
+          title: 'Variable read when unassigned',
+          description: `"${variable.name}" was unassigned when used in expression`,
+          lineNumber: assignment.lineNumber,
+          context: {
+            variableName: variable.name,
+            expression: assignment.assignmentExpression,
+          },
+        });
+      }
+    }
+
+    return issues;
+  },
+};
+
+const duplicateRollbackPointDetector: IssueDetector = {
+  id: 'duplicate-rollback-point',
+  name: 'Duplicate rollback point',
+  description: 'Rollback point numbers that appear more than once',
+  category: 'configuration',
+  defaultSeverity: 'info',
+  parameters: {},
+  detect(input) {
+    return input.rollbackOccurrences
+      .filter(occurrence => occurrence.count > 1)
+      .map((occurrence): DetectorIssue => ({
+        severity: 'info',
+        category: 'configuration',
+        title: `Duplicate rollback point ${occurrence.point}`,
+        description: `Rollback point ${occurrence.point} appears ${occurrence.count} times`,
+        lineNumber: occurrence.firstLine,
+        context: {
+          count: occurrence.count,
+        },
+      }));
+  },
+};
+
+/**
+ * Built-in detectors, in reporting order within each severity
+ */
+export const ISSUE_DETECTORS: IssueDetector[] = [
+  hotRulesDetector,
+  executionCycleDetector,
+  rulesetRecursionDetector,
+  excessiveRollbacksDetector,
+  alwaysFalseConditionDetector,
+  conditionResultMismatchDetector,
+  nullInExpressionDetector,
+  unassignedVariableReadDetector,
+  duplicateRollbackPointDetector,
+];
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * Apply a config on top of a detector's declared defaults
+ */
+export function resolveDetectorSettings(
+  detector: IssueDetector,
+  config: IssueDetectionConfig = {}
+): ResolvedDetectorSettings {
+  const settings = config.detectors?.[detector.id] ?? {};
+  const parameters: Record<string, number> = {};
+  for (const [name, parameter] of Object.entries(detector.parameters)) {
+    parameters[name] = settings.parameters?.[name] ?? parameter.default;
+  }
+
+  return {
+    enabled: settings.enabled ?? true,
+    severity: settings.severity ?? null,
+    parameters,
+  };
+}
+
+/**
+ * Check a parsed JSON config against the detector registry.
+ * Throws with a message naming the first invalid entry.
+ */
+export function validateIssueDetectionConfig(
+  value: unknown,
+  detectors: IssueDetector[] = ISSUE_DETECTORS
+): IssueDetectionConfig {
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    !!v && typeof v === 'object' && !Array.isArray(v);
+
+  if (!isObject(value)) {
+    throw new Error('Issue detection config must be a JSON object');
+  }
+  if (value.detectors === undefined) return {};
+  if (!isObject(value.detectors)) {
+    throw new Error('"detectors" must be an object keyed by detector id');
+  }
+
+  const result: Record<string, IssueDetectorSettings> = {};
+  for (const [id, settings] of Object.entries(value.detectors)) {
+    const detector = detectors.find(d => d.id === id);
+    if (!detector) throw new Error(`Unknown detector "${id}"`);
+    if (!isObject(settings)) throw new Error(`Settings for "${id}" must be an object`);
+
+    const { enabled, severity, parameters } = settings;
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new Error(`"${id}.enabled" must be true or false`);
+    }
+    if (severity !== undefined && !SEVERITIES.includes(severity as IssueSeverity)) {
+      throw new Error(`"${id}.severity" must be one of ${SEVERITIES.join(', ')}`);
+    }
+    if (parameters !== undefined && !isObject(parameters)) {
+      throw new Error(`"${id}.parameters" must be an object`);
+    }
+
+    for (const [name, paramValue] of Object.entries(parameters ?? {})) {
+      const parameter = detector.parameters[name];
+      if (!parameter) throw new Error(`Unknown parameter "${id}.parameters.${name}"`);
+      if (typeof paramValue !== 'number' || !Number.isFinite(paramValue)) {
+        throw new Error(`"${id}.parameters.${name}" must be a number`);
+      }
+      if (parameter.min !== undefined && paramValue < parameter.min) {
+        throw new Error(`"${id}.parameters.${name}" must be at least ${parameter.min}`);
+      }
+    }
+
+    result[id] = settings as IssueDetectorSettings;
+  }
+
+  return { detectors: result };
+}
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * Run every enabled detector and summarize the issues they report
+ */
+export function detectIssues(
+  input: IssueDetectionInput,
+  config: IssueDetectionConfig = {},
+  detectors: IssueDetector[] = ISSUE_DETECTORS
+): IssuesSummary {
+  const issues: DetectedIssue[] = [];
+
+  for (const detector of detectors) {
+    const settings = resolveDetectorSettings(detector, config);
+    if (!settings.enabled) continue;
+
+    for (const issue of detector.detect(input, settings.parameters)) {
+      issues.push({
+        ...issue,
+        id: `issue-${issues.length + 1}`,
+        detectorId: detector.id,
+        severity: settings.severity ?? issue.severity,
+      });
+    }
+  }
+
+  // Sort issues: errors first, then warnings, then info
+  issues.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+
+  return {
+    issues,
+    errorCount: issues.filter(i => i.severity === 'error').length,
+    warningCount: issues.filter(i => i.severity === 'warning').length,
+    infoCount: issues.filter(i => i.severity === 'info').length,
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Loop & Recursion Detection
+ * Finds repeating execution cycles and ruleset re-entry in the rule execution
+ * timeline, with the trace line range of every occurrence.
+ */
+
+import { ruleTypeContributes } from './rule-types';
+import type { RuleExecution, RuleExecutionTimeline } from './trace-parser';
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * The same sequence of rules executed back to back several times
+ */
+export interface ExecutionCycle {
+  rules: { ruleId: string; ruleName: string; ruleset: string }[];  // One iteration, in order
+  repetitions: number;
+  startExecution: number;
+  endExecution: number;
+  occurrences: LineRange[];        // One per iteration
+}
+
+/**
+ * A LoadRulesetRule that loads a ruleset already on the load stack
+ */
+export interface RulesetRecursion {
+  executionId: number;             // The re-entering LoadRulesetRule
+  ruleId: string;
+  ruleName: string;
+  ruleset: string;                 // Ruleset the LoadRulesetRule belongs to
+  reenteredRuleset: string;
+  stack: string[];                 // Rulesets from outermost to the load rule's own
+  range: LineRange;                // From the outer entry into the ruleset to the load rule
+}
+
+export interface LoopAnalysis {
+  cycles: ExecutionCycle[];
+  recursions: RulesetRecursion[];
+}
+
+export interface LoopDetectionOptions {
+  minRepetitions?: number;         // Iterations before a sequence counts as a cycle
+  maxCycleLength?: number;         // Longest sequence (in rules) to look for
+}
+
+const DEFAULT_MIN_REPETITIONS = 5;
+const DEFAULT_MAX_CYCLE_LENGTH = 20;
+
+function executionEndLine(execution: RuleExecution): number {
+  return execution.duration?.endLine ?? execution.lineNumber;
+}
+
+/**
+ * True when keys[start, start + length) is itself a repeat of a shorter block
+ */
+function hasShorterPeriod(keys: string[], start: number, length: number): boolean {
+  for (let period = 1; period < length; period++) {
+    if (length % period !== 0) continue;
+    let repeats = true;
+    for (let i = start + period; i < start + length && repeats; i++) {
+      repeats = keys[i] === keys[i - period];
+    }
+    if (repeats) return true;
+  }
+  return false;
+}
+
+/**
+ * Find back-to-back repeats of the same rule sequence.
+ * Where runs overlap, the one covering more executions wins, so a few
+ * repeats inside a longer cycle don't hide it.
+ */
+export function findExecutionCycles(
+  executions: RuleExecution[],
+  options: LoopDetectionOptions = {}
+): ExecutionCycle[] {
+  const minRepetitions = Math.max(2, options.minRepetitions ?? DEFAULT_MIN_REPETITIONS);
+  const maxCycleLength = options.maxCycleLength ?? DEFAULT_MAX_CYCLE_LENGTH;
+  const keys = executions.map(e => `${e.ruleset}\u0000${e.ruleId}`);
+  const covered = new Uint8Array(executions.length);
+  const cycles: ExecutionCycle[] = [];
+  const runs: { start: number; period: number; repetitions: number }[] = [];
+
+  const collectRun = (start: number, matched: number, period: number) => {
+    const repetitions = Math.floor((matched + period) / period);
+    if (repetitions < minRepetitions) return;
+    if (hasShorterPeriod(keys, start, period)) return;
+    runs.push({ start, period, repetitions });
+  };
+
+  for (let period = 1; period <= maxCycleLength; period++) {
+    // A run of positions where keys[i] === keys[i + period]
+    let runStart = 0;
+    for (let i = 0; i + period < keys.length; i++) {
+      if (keys[i] !== keys[i + period]) {
+        collectRun(runStart, i - runStart, period);
+        runStart = i + 1;
+      }
+    }
+    collectRun(runStart, Math.max(0, keys.length - period - runStart), period);
+  }
+
+  // Most executions covered first; among equals, the shorter cycle
+  runs.sort((a, b) => b.period * b.repetitions - a.period * a.repetitions || a.period - b.period || a.start - b.start);
+
+  for (const { start, period, repetitions } of runs) {
+    const end = start + repetitions * period - 1;
+    if (covered.subarray(start, end + 1).some(Boolean)) continue;
+    covered.fill(1, start, end + 1);
+
+    const occurrences: LineRange[] = [];
+    for (let k = 0; k < repetitions; k++) {
+      occurrences.push({
+        startLine: executions[start + k * period].lineNumber,
+        endLine: executionEndLine(executions[start + (k + 1) * period - 1]),
+      });
+    }
+
+    cycles.push({
+      rules: executions.slice(start, start + period).map(({ ruleId, ruleName, ruleset }) => ({ ruleId, ruleName, ruleset })),
+      repetitions,
+      startExecution: executions[start].executionId,
+      endExecution: executions[end].executionId,
+      occurrences,
+    });
+  }
+
+  return cycles.sort((a, b) => a.startExecution - b.startExecution);
+}
+
+/**
+ * Find LoadRulesetRules whose target ruleset is already being executed
+ * further up the load stack (including the load rule's own ruleset).
+ * The stack is rebuilt from ruleset switches alone: returning to a ruleset
+ * on the stack pops everything loaded after it.
+ */
+export function findRulesetRecursion(executions: RuleExecution[]): RulesetRecursion[] {
+  const recursions: RulesetRecursion[] = [];
+  const loadStack: RuleExecution[] = [];
+
+  for (const execution of executions) {
+    // Returning to a ruleset on the stack pops everything loaded after it
+    const stackIndex = loadStack.findIndex(e => e.ruleset === execution.ruleset);
+    if (stackIndex >= 0) {
+      loadStack.splice(stackIndex + 1);
+    }
+
+    if (!ruleTypeContributes(execution.ruleType, 'rulesetLoads')) continue;
+
+    const target = execution.loadedRuleset;
+    const stack = [...loadStack.map(e => e.ruleset), execution.ruleset]
+      .filter((ruleset, i, all) => i === 0 || all[i - 1] !== ruleset);
+
+    if (target && stack.includes(target)) {
+      // Where the ruleset was entered the first time: its loader, or its own first load rule
+      const entry =
+        loadStack.find(e => e.loadedRuleset === target) ??
+        loadStack.find(e => e.ruleset === target) ??
+        execution;
+
+      recursions.push({
+        executionId: execution.executionId,
+        ruleId: execution.ruleId,
+        ruleName: execution.ruleName,
+        ruleset: execution.ruleset,
+        reenteredRuleset: target,
+        stack,
+        range: {
+          startLine: entry.lineNumber,
+          endLine: executionEndLine(execution),
+        },
+      });
+    }
+
+    loadStack.push(execution);
+  }
+
+  return recursions;
+}
+
+/**
+ * Run cycle and recursion detection over a timeline
+ */
+export function analyzeLoops(
+  timeline: RuleExecutionTimeline,
+  options: LoopDetectionOptions = {}
+): LoopAnalysis {
+  return {
+    cycles: findExecutionCycles(timeline.executions, options),
+    recursions: findRulesetRecursion(timeline.executions),
+  };
+}
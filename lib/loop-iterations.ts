@@ -0,0 +1,177 @@
+/**
+ * Loop Iterations
+ * Groups ForEachRule and LoopRule executions into runs of iterations, with
+ * the rules and variable assignments each iteration covered.
+ */
+
+import { ruleTypeContributes } from './rule-types';
+import type {
+  InteractionStep,
+  LoopIteration,
+  LoopRun,
+  RuleExecution,
+  RuleExecutionTimeline,
+  VariableAssignment,
+  VariableTrackingSummary,
+} from './trace-parser';
+
+/**
+ * Whether an execution ends the body of a loop: control is back in the loop's
+ * own ruleset at the loop's depth, or above it
+ */
+function endsBody(loop: RuleExecution, execution: RuleExecution): boolean {
+  return execution.depth < loop.depth || (execution.depth === loop.depth && execution.ruleset === loop.ruleset);
+}
+
+/**
+ * Each loop rule execution starts an iteration; its body is the executions
+ * that follow until control returns to the loop's ruleset. An iteration that
+ * ends at another execution of the same rule continues the same run. Bodies
+ * never cross the end of an interaction step.
+ */
+export function buildLoopRuns(
+  timeline: RuleExecutionTimeline,
+  variableTracking: VariableTrackingSummary,
+  steps: InteractionStep[]
+): LoopRun[] {
+  const { executions } = timeline;
+  const assignments: VariableAssignment[] = [];
+  for (const variable of variableTracking.variables.values()) {
+    assignments.push(...variable.assignments);
+  }
+  assignments.sort((a, b) => a.lineNumber - b.lineNumber);
+
+  // First assignment at or after a line
+  const firstAssignmentFrom = (line: number): number => {
+    let lo = 0;
+    let hi = assignments.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (assignments[mid].lineNumber < line) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const stepEndAt = (line: number): number => {
+    const step = steps.find(s => s.startLine <= line && line <= s.endLine);
+    return step ? step.endLine : Infinity;
+  };
+
+  const lastLine = executions.length > 0
+    ? executions[executions.length - 1].duration?.endLine ?? executions[executions.length - 1].lineNumber
+    : 0;
+
+  const runs: LoopRun[] = [];
+  const consumed = new Set<number>();
+
+  for (let start = 0; start < executions.length; start++) {
+    const first = executions[start];
+    if (!ruleTypeContributes(first.ruleType, 'loopIterations') || consumed.has(start)) continue;
+
+    const iterations: LoopIteration[] = [];
+    let current = start;
+
+    while (current >= 0) {
+      const header = executions[current];
+      consumed.add(current);
+      const stepEnd = stepEndAt(header.lineNumber);
+
+      let next = current + 1;
+      while (
+        next < executions.length &&
+        executions[next].lineNumber <= stepEnd &&
+        !endsBody(header, executions[next])
+      ) {
+        next++;
+      }
+
+      const nextExecution = executions[next];
+      const endLine = nextExecution
+        ? Math.min(nextExecution.lineNumber - 1, stepEnd)
+        : Math.min(lastLine, stepEnd);
+
+      // The loop rule's own assignment is the item it moved to
+      const headerEnd = header.duration?.endLine ?? header.lineNumber;
+      let assignmentIndex = firstAssignmentFrom(header.lineNumber);
+      const itemAssignment = assignmentIndex < assignments.length && assignments[assignmentIndex].lineNumber <= headerEnd
+        ? assignments[assignmentIndex]
+        : null;
+      let assignmentCount = 0;
+      while (assignmentIndex < assignments.length && assignments[assignmentIndex].lineNumber <= endLine) {
+        assignmentCount++;
+        assignmentIndex++;
+      }
+
+      iterations.push({
+        index: iterations.length + 1,
+        item: itemAssignment?.resultValue ?? null,
+        itemVariable: itemAssignment?.displayName ?? null,
+        startLine: header.lineNumber,
+        endLine,
+        executionRange: { first: header.executionId, last: executions[next - 1].executionId },
+        assignmentCount,
+      });
+
+      const continues = nextExecution !== undefined &&
+        nextExecution.lineNumber <= stepEnd &&
+        nextExecution.ruleId === header.ruleId &&
+        nextExecution.ruleset === header.ruleset &&
+        nextExecution.depth === header.depth;
+      current = continues ? next : -1;
+    }
+
+    runs.push({
+      id: runs.length + 1,
+      ruleId: first.ruleId,
+      ruleName: first.ruleName,
+      ruleType: first.ruleType,
+      ruleset: first.ruleset,
+      depth: first.depth,
+      startLine: first.lineNumber,
+      endLine: iterations[iterations.length - 1].endLine,
+      iterations,
+    });
+  }
+
+  return runs;
+}
+
+export interface LoopIterationMatch {
+  loop: LoopRun;
+  iteration: LoopIteration;
+}
+
+export interface LoopIterationIndex {
+  /** Innermost loop iteration a line falls in, or null outside every loop */
+  getIterationAt(lineNumber: number): LoopIterationMatch | null;
+}
+
+/**
+ * Index iterations by line so rows (assignments, executions) can be tagged
+ * with the iteration they ran in
+ */
+export function createLoopIterationIndex(loops: LoopRun[]): LoopIterationIndex {
+  const entries: LoopIterationMatch[] = loops
+    .flatMap(loop => loop.iterations.map(iteration => ({ loop, iteration })))
+    .sort((a, b) => a.iteration.startLine - b.iteration.startLine);
+
+  return {
+    getIterationAt(lineNumber) {
+      // Last iteration starting at or before the line
+      let lo = 0;
+      let hi = entries.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (entries[mid].iteration.startLine <= lineNumber) lo = mid + 1;
+        else hi = mid;
+      }
+
+      // Nested iterations start later than the ones containing them
+      for (let i = lo - 1; i >= 0; i--) {
+        if (entries[i].iteration.endLine >= lineNumber) return entries[i];
+      }
+      return null;
+    },
+  };
+}
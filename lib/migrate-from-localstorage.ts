@@ -5,6 +5,7 @@
 
 import { addBaseline as addSupabaseBaseline } from './baseline-storage-supabase';
 import type { ParsedTrace } from './trace-parser';
+import { deserializeParsedTrace } from './trace-serialization';
 
 // Old localStorage implementation types
 interface LegacyBaselineTrace {
@@ -141,15 +142,19 @@ export async function migrateBaselines(): Promise<{
     // Migrate each baseline
     for (const legacyBaseline of library.baselines) {
       try {
+        // localStorage holds the serialized trace, so rebuild its Maps first
+        const trace = deserializeParsedTrace(legacyBaseline.trace);
+
         // Reconstruct raw content (best effort)
-        const rawContent = reconstructRawContent(legacyBaseline.trace);
+        const rawContent = reconstructRawContent(trace);
 
-        // Create in Supabase
+        // Create in Supabase, flagged so the stored trace is never re-parsed from the rebuilt text
         await addSupabaseBaseline(
           legacyBaseline.name,
           legacyBaseline.filename,
           rawContent,
-          legacyBaseline.trace
+          trace,
+          true
         );
 
         results.success++;
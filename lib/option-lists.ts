@@ -0,0 +1,143 @@
+/**
+ * Option Lists
+ * Resolves the full option list behind each Option List Id, so a Screen
+ * Option's available options (its Option List Group) can be told apart from
+ * the ones rules filtered out of it, and the rules that created both.
+ */
+
+import type { FeatureOccurrence, OptionList, OptionSource } from './trace-parser';
+
+/**
+ * A list logged with its values, as found by the parser
+ */
+export interface OptionListDefinition {
+  options: string[];
+  lineNumber: number;
+}
+
+/**
+ * Build the full list for every Option List Id. Logged definitions win;
+ * otherwise the list is the union of every group seen for that id, which
+ * misses options that were filtered out on every pass.
+ */
+export function resolveOptionLists(
+  definitions: Map<string, OptionListDefinition>,
+  occurrences: Pick<FeatureOccurrence, 'options' | 'properties'>[]
+): Map<string, OptionList> {
+  const optionLists = new Map<string, OptionList>();
+
+  for (const [id, definition] of definitions) {
+    optionLists.set(id, { id, options: definition.options, source: 'definition', lineNumber: definition.lineNumber });
+  }
+
+  for (const occurrence of occurrences) {
+    const id = occurrence.properties.get('Option List Id');
+    if (!id) continue;
+
+    let list = optionLists.get(id);
+    if (!list) {
+      list = { id, options: [], source: 'observed', lineNumber: null };
+      optionLists.set(id, list);
+    }
+    if (list.source !== 'observed') continue;
+
+    for (const option of occurrence.options) {
+      if (!list.options.includes(option)) {
+        list.options.push(option);
+      }
+    }
+  }
+
+  return optionLists;
+}
+
+/**
+ * The full list a Screen Option draws from, or null if it has no Option List Id
+ * or the list couldn't be resolved
+ */
+export function getOptionList(
+  feature: Pick<FeatureOccurrence, 'properties'>,
+  optionLists: Map<string, OptionList>
+): OptionList | null {
+  const id = feature.properties.get('Option List Id');
+  return (id && optionLists.get(id)) || null;
+}
+
+export interface OptionAvailability {
+  list: OptionList | null;
+  available: string[];
+  filteredOut: string[];   // In the full list but not in the Option List Group
+}
+
+/**
+ * Split a Screen Option's full list into the options it offered and the ones
+ * filtered out. Without an Option List Group nothing is filtered.
+ */
+export function getOptionAvailability(
+  feature: Pick<FeatureOccurrence, 'options' | 'optionListGroup' | 'properties'>,
+  optionLists: Map<string, OptionList>
+): OptionAvailability {
+  const list = getOptionList(feature, optionLists);
+  if (!list) {
+    return { list, available: feature.options, filteredOut: [] };
+  }
+  if (!feature.optionListGroup) {
+    return { list, available: list.options, filteredOut: [] };
+  }
+
+  const available = new Set(feature.options);
+  return { list, available: feature.options, filteredOut: list.options.filter(o => !available.has(o)) };
+}
+
+/**
+ * The rules that created a Screen Option's Option List Group and full list
+ */
+export interface OptionProvenance {
+  group: OptionSource | null;
+  list: OptionSource | null;
+}
+
+/**
+ * Look up the rules behind a Screen Option's options. Static lists and groups
+ * logged outside a create rule have no source.
+ */
+export function getOptionProvenance(
+  feature: Pick<FeatureOccurrence, 'optionListGroup' | 'properties'>,
+  optionSources: Map<string, OptionSource>
+): OptionProvenance {
+  const listId = feature.properties.get('Option List Id');
+  return {
+    group: (feature.optionListGroup && optionSources.get(feature.optionListGroup)) || null,
+    list: (listId && optionSources.get(listId)) || null,
+  };
+}
+
+/**
+ * Why options a baseline offered are missing from a test trace
+ */
+export interface RemovedOptionsBreakdown {
+  filteredByRule: string[];    // Still in the test trace's full list
+  removedFromModel: string[];  // Gone from the test trace's logged list definition
+  unexplained: string[];       // No logged definition to check against
+}
+
+/**
+ * Classify removed options against the test trace's full list. Only a logged
+ * definition proves an option is gone from the model; an observed list only
+ * proves the options it contains still exist.
+ */
+export function classifyRemovedOptions(removed: string[], list: OptionList | null): RemovedOptionsBreakdown {
+  const breakdown: RemovedOptionsBreakdown = { filteredByRule: [], removedFromModel: [], unexplained: [] };
+
+  for (const option of removed) {
+    if (list?.options.includes(option)) {
+      breakdown.filteredByRule.push(option);
+    } else if (list?.source === 'definition') {
+      breakdown.removedFromModel.push(option);
+    } else {
+      breakdown.unexplained.push(option);
+    }
+  }
+
+  return breakdown;
+}
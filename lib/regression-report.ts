@@ -0,0 +1,367 @@
+/**
+ * Regression Report Export
+ * Turns one or many regression results into JUnit XML (for CI), a self-contained
+ * HTML report and a Markdown summary (for release tickets).
+ */
+
+import type { RegressionResult, BehavioralIssue, BehavioralIssueType } from './trace-parser';
+
+export type RegressionReportFormat = 'junit' | 'html' | 'markdown';
+
+export interface RegressionReportEntry {
+  traceName: string;               // Test trace filename or label
+  result: RegressionResult;
+}
+
+export interface RegressionReportOptions {
+  title?: string;
+  generatedAt?: Date;
+}
+
+export const REPORT_FORMATS: Record<RegressionReportFormat, { label: string; extension: string; mimeType: string }> = {
+  junit: { label: 'JUnit XML', extension: 'xml', mimeType: 'application/xml' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+};
+
+const DEFAULT_TITLE = 'CPQ Regression Report';
+
+const ISSUE_TYPE_LABELS: Record<BehavioralIssueType, string> = {
+  options_changed: 'Options Changed',
+  integration_changed: 'Integration Output Changed',
+  condition_changed: 'Condition Result Changed',
+  feature_missing: 'Feature Missing',
+  feature_added: 'New Feature',
+};
+
+// A JUnit testcase: one feature, integration template or condition
+interface ReportTestCase {
+  classname: 'feature' | 'integration' | 'condition';
+  name: string;
+  issues: BehavioralIssue[];
+  skipped: string | null;
+}
+
+/**
+ * A result fails when it has any error-severity issue
+ */
+export function isFailingResult(result: RegressionResult): boolean {
+  return result.summary.errors > 0;
+}
+
+function formatValue(value: BehavioralIssue['baseline']['value']): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+// Text outside tables, e.g. a heading: no character may start markup
+function escapeMarkdownText(text: string): string {
+  return text.replace(/[\\`*_[\]<>#|~]/g, '\\$&').replace(/\r?\n/g, ' ');
+}
+
+function describeIssue(issue: BehavioralIssue): string {
+  const values = `expected ${formatValue(issue.baseline.value)}, got ${formatValue(issue.test.value)}`;
+  return `${ISSUE_TYPE_LABELS[issue.type]}: ${issue.details ?? values} (line ${issue.lineNumber})`;
+}
+
+/**
+ * Group a result into testcases: every compared feature, plus each
+ * integration template and condition that reported issues
+ */
+function buildTestCases(result: RegressionResult): ReportTestCase[] {
+  const cases = new Map<string, ReportTestCase>();
+
+  const getCase = (classname: ReportTestCase['classname'], name: string) => {
+    const key = `${classname}:${name}`;
+    let testCase = cases.get(key);
+    if (!testCase) {
+      testCase = { classname, name, issues: [], skipped: null };
+      cases.set(key, testCase);
+    }
+    return testCase;
+  };
+
+  for (const selection of result.matchingSelections) {
+    getCase('feature', selection.featureName);
+  }
+
+  for (const selection of result.divergentSelections) {
+    getCase('feature', selection.featureName).skipped =
+      `Selection differs from baseline (${selection.baselineValue ?? 'null'} -> ${selection.testValue ?? 'null'})`;
+  }
+
+  for (const issue of result.issues) {
+    if (issue.type === 'integration_changed') {
+      // "BOM[ROW-1].Qty" belongs to template "BOM"
+      getCase('integration', issue.featureName.split('[')[0]).issues.push(issue);
+    } else if (issue.type === 'condition_changed') {
+      getCase('condition', issue.featureName).issues.push(issue);
+    } else {
+      getCase('feature', issue.featureName).issues.push(issue);
+    }
+  }
+
+  return Array.from(cases.values());
+}
+
+/**
+ * JUnit XML: one testsuite per trace, failures for error-severity issues.
+ * Warnings and info are attached as system-out so CI logs still show them.
+ */
+export function formatJUnitReport(
+  entries: RegressionReportEntry[],
+  options: RegressionReportOptions = {}
+): string {
+  const timestamp = (options.generatedAt ?? new Date()).toISOString();
+  const suites = entries.map(({ traceName, result }) => ({ traceName, result, cases: buildTestCases(result) }));
+
+  // A testcase is failed or skipped, never both; a failure wins
+  const isFailure = (testCase: ReportTestCase) => testCase.issues.some(i => i.severity === 'error');
+  const countFailures = (cases: ReportTestCase[]) => cases.filter(isFailure).length;
+  const countSkipped = (cases: ReportTestCase[]) => cases.filter(c => c.skipped !== null && !isFailure(c)).length;
+
+  const totalTests = suites.reduce((sum, s) => sum + s.cases.length, 0);
+  const totalFailures = suites.reduce((sum, s) => sum + countFailures(s.cases), 0);
+  const totalSkipped = suites.reduce((sum, s) => sum + countSkipped(s.cases), 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(options.title ?? DEFAULT_TITLE)}" tests="${totalTests}" failures="${totalFailures}" errors="0" skipped="${totalSkipped}">`,
+  ];
+
+  for (const { traceName, result, cases } of suites) {
+    lines.push(
+      `  <testsuite name="${escapeXml(traceName)}" tests="${cases.length}" failures="${countFailures(cases)}" ` +
+      `errors="0" skipped="${countSkipped(cases)}" timestamp="${timestamp}">`,
+      '    <properties>',
+      `      <property name="baseline" value="${escapeXml(result.matchedBaselineName)}"/>`,
+      `      <property name="baselineId" value="${escapeXml(result.matchedBaselineId)}"/>`,
+      `      <property name="matchScore" value="${result.matchScore}"/>`,
+      '    </properties>'
+    );
+
+    for (const testCase of cases) {
+      const errors = testCase.issues.filter(i => i.severity === 'error');
+      const others = testCase.issues.filter(i => i.severity !== 'error');
+      const open = `    <testcase classname="${testCase.classname}" name="${escapeXml(testCase.name)}"`;
+
+      if (errors.length === 0 && others.length === 0 && testCase.skipped === null) {
+        lines.push(`${open}/>`);
+        continue;
+      }
+
+      const notes = others.map(i => `[${i.severity}] ${describeIssue(i)}`);
+      lines.push(`${open}>`);
+      if (errors.length > 0) {
+        lines.push(
+          `      <failure message="${escapeXml(describeIssue(errors[0]))}" type="${errors[0].type}">` +
+          `${escapeXml(errors.map(describeIssue).join('\n'))}</failure>`
+        );
+        // The skip reason still shows in the log
+        if (testCase.skipped !== null) notes.unshift(testCase.skipped);
+      } else if (testCase.skipped !== null) {
+        lines.push(`      <skipped message="${escapeXml(testCase.skipped)}"/>`);
+      }
+      if (notes.length > 0) {
+        lines.push(`      <system-out>${escapeXml(notes.join('\n'))}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+/**
+ * Markdown summary table plus the non-info issues of each trace
+ */
+export function formatMarkdownReport(
+  entries: RegressionReportEntry[],
+  options: RegressionReportOptions = {}
+): string {
+  const failed = entries.filter(e => isFailingResult(e.result)).length;
+  const lines = [
+    `# ${options.title ?? DEFAULT_TITLE}`,
+    '',
+    `Generated ${(options.generatedAt ?? new Date()).toISOString()} · ${entries.length} trace${entries.length !== 1 ? 's' : ''} · ` +
+    `${entries.length - failed} passed · ${failed} failed`,
+    '',
+    '| Status | Trace | Baseline | Match | Errors | Warnings | Info | Divergent |',
+    '|--------|-------|----------|------:|-------:|---------:|-----:|----------:|',
+  ];
+
+  for (const { traceName, result } of entries) {
+    const { summary } = result;
+    lines.push(
+      `| ${isFailingResult(result) ? '❌ Fail' : summary.warnings > 0 ? '⚠️ Warn' : '✅ Pass'} ` +
+      `| ${escapeMarkdownCell(traceName)} | ${escapeMarkdownCell(result.matchedBaselineName)} | ${result.matchScore}% ` +
+      `| ${summary.errors} | ${summary.warnings} | ${summary.infos} | ${summary.userChoicesDiverged} |`
+    );
+  }
+
+  for (const { traceName, result } of entries) {
+    const issues = result.issues.filter(i => i.severity !== 'info');
+    if (issues.length === 0) continue;
+
+    lines.push(
+      '',
+      `## ${escapeMarkdownText(traceName)}`,
+      '',
+      `Baseline: ${escapeMarkdownText(result.matchedBaselineName)} (${result.matchScore}% match)`,
+      ''
+    );
+    lines.push('| Severity | Type | Subject | Expected | Actual | Line |', '|----------|------|---------|----------|--------|-----:|');
+    for (const issue of issues) {
+      lines.push(
+        `| ${issue.severity} | ${ISSUE_TYPE_LABELS[issue.type]} | ${escapeMarkdownCell(issue.featureName)} ` +
+        `| ${escapeMarkdownCell(formatValue(issue.baseline.value))} | ${escapeMarkdownCell(formatValue(issue.test.value))} ` +
+        `| ${issue.lineNumber} |`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; background: #fff; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #6b7280; margin-bottom: 1.5rem; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.875rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.status { font-weight: 600; }
+.pass { color: #15803d; } .warn { color: #a16207; } .fail { color: #b91c1c; }
+.error { background: #fef2f2; } .warning { background: #fefce8; } .info { background: #eff6ff; }
+details { margin-bottom: 1.5rem; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem 1rem; }
+summary { cursor: pointer; font-weight: 600; }
+code { font-family: ui-monospace, monospace; }
+`.trim();
+
+/**
+ * Self-contained HTML report (inline styles, no external assets)
+ */
+export function formatHtmlReport(
+  entries: RegressionReportEntry[],
+  options: RegressionReportOptions = {}
+): string {
+  const title = options.title ?? DEFAULT_TITLE;
+  const failed = entries.filter(e => isFailingResult(e.result)).length;
+
+  const statusCell = (result: RegressionResult) =>
+    isFailingResult(result)
+      ? '<span class="status fail">Fail</span>'
+      : result.summary.warnings > 0
+        ? '<span class="status warn">Warnings</span>'
+        : '<span class="status pass">Pass</span>';
+
+  const summaryRows = entries.map(({ traceName, result }) => `
+      <tr>
+        <td>${statusCell(result)}</td>
+        <td><code>${escapeXml(traceName)}</code></td>
+        <td>${escapeXml(result.matchedBaselineName)}</td>
+        <td class="num">${result.matchScore}%</td>
+        <td class="num">${result.summary.errors}</td>
+        <td class="num">${result.summary.warnings}</td>
+        <td class="num">${result.summary.infos}</td>
+        <td class="num">${result.summary.userChoicesDiverged}</td>
+      </tr>`).join('');
+
+  const details = entries.map(({ traceName, result }) => {
+    const issueRows = result.issues.map(issue => `
+          <tr class="${issue.severity}">
+            <td>${issue.severity}</td>
+            <td>${ISSUE_TYPE_LABELS[issue.type]}</td>
+            <td><code>${escapeXml(issue.featureName)}</code></td>
+            <td>${escapeXml(formatValue(issue.baseline.value))}</td>
+            <td>${escapeXml(formatValue(issue.test.value))}</td>
+            <td>${escapeXml(issue.details ?? '')}</td>
+            <td class="num">${issue.lineNumber}</td>
+          </tr>`).join('');
+
+    const divergentRows = result.divergentSelections.map(sel => `
+          <tr>
+            <td><code>${escapeXml(sel.featureName)}</code></td>
+            <td>${escapeXml(sel.baselineValue ?? 'null')}</td>
+            <td>${escapeXml(sel.testValue ?? 'null')}</td>
+          </tr>`).join('');
+
+    return `
+    <details${isFailingResult(result) ? ' open' : ''}>
+      <summary>${statusCell(result)} ${escapeXml(traceName)}</summary>
+      <p class="meta">Baseline: ${escapeXml(result.matchedBaselineName)} (${result.matchScore}% match) ·
+        ${result.summary.totalFeaturesCompared} features compared · ${result.matchingSelections.length} matching selections</p>
+      ${result.issues.length > 0 ? `
+      <table>
+        <thead><tr><th>Severity</th><th>Type</th><th>Subject</th><th>Expected</th><th>Actual</th><th>Details</th><th>Line</th></tr></thead>
+        <tbody>${issueRows}
+        </tbody>
+      </table>` : '<p>No behavioral issues.</p>'}
+      ${result.divergentSelections.length > 0 ? `
+      <table>
+        <thead><tr><th>Divergent Feature</th><th>Baseline</th><th>Test</th></tr></thead>
+        <tbody>${divergentRows}
+        </tbody>
+      </table>` : ''}
+    </details>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeXml(title)}</title>
+  <style>
+${HTML_STYLES}
+  </style>
+</head>
+<body>
+  <h1>${escapeXml(title)}</h1>
+  <p class="meta">Generated ${(options.generatedAt ?? new Date()).toISOString()} · ${entries.length} trace${entries.length !== 1 ? 's' : ''} ·
+    ${entries.length - failed} passed · ${failed} failed</p>
+  <table>
+    <thead>
+      <tr><th>Status</th><th>Trace</th><th>Baseline</th><th>Match</th><th>Errors</th><th>Warnings</th><th>Info</th><th>Divergent</th></tr>
+    </thead>
+    <tbody>${summaryRows}
+    </tbody>
+  </table>
+${details}
+</body>
+</html>`;
+}
+
+/**
+ * Render a report in the given format
+ */
+export function formatRegressionReport(
+  format: RegressionReportFormat,
+  entries: RegressionReportEntry[],
+  options: RegressionReportOptions = {}
+): string {
+  switch (format) {
+    case 'junit':
+      return formatJUnitReport(entries, options);
+    case 'html':
+      return formatHtmlReport(entries, options);
+    case 'markdown':
+      return formatMarkdownReport(entries, options);
+  }
+}
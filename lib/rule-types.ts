@@ -0,0 +1,79 @@
+/**
+ * Rule Types
+ * Registry of the rule types the CPQ engine logs: which of its properties the
+ * parser reads and which summaries its executions feed. A type missing from
+ * the registry is still captured by name and parsed generically, so rules
+ * from a newer engine release keep their timeline, variables and conditions.
+ */
+
+/**
+ * Summaries a rule type feeds beyond the generic ones. Every rule, registered
+ * or not, feeds the timeline, variable tracking and RuleCondition checks.
+ */
+export type RuleContribution =
+  | 'conditionResults'   // Logs its own Condition Expression / Condition Result pair
+  | 'rulesetLoads'       // Rules that follow run nested under it, one depth deeper
+  | 'components'         // Creates a component from its property Results
+  | 'optionSources'      // Creates an Option List or Option List Group
+  | 'loopIterations';    // Each execution starts an iteration of its body
+
+export interface RuleTypeDefinition {
+  name: string;
+  description: string;
+  contributes: readonly RuleContribution[];
+  /** Properties holding the id the rule creates and its values ('optionSources' only) */
+  output?: { idProperty: string; valuesProperty: string };
+}
+
+export const RULE_TYPES: readonly RuleTypeDefinition[] = [
+  { name: 'ConditionRule', description: 'Checks a condition', contributes: [] },
+  { name: 'VariableRule', description: 'Sets a variable', contributes: ['conditionResults'] },
+  { name: 'LoadRulesetRule', description: 'Runs another ruleset', contributes: ['rulesetLoads'] },
+  { name: 'CreateComponentRule', description: 'Creates a component', contributes: ['components'] },
+  {
+    name: 'CreateDynamicOptionListRule',
+    description: 'Creates an Option List',
+    contributes: ['optionSources'],
+    output: { idProperty: 'Option List Id', valuesProperty: 'Option List Values' },
+  },
+  {
+    name: 'CreateDynamicOptionListGroupRule',
+    description: 'Creates an Option List Group',
+    contributes: ['optionSources'],
+    output: { idProperty: 'Group Name', valuesProperty: 'Group Values' },
+  },
+  { name: 'ScreenDisplayRule', description: 'Changes what a screen shows', contributes: [] },
+  { name: 'ForEachRule', description: 'Runs its body once per item', contributes: ['loopIterations'] },
+  { name: 'LoopRule', description: 'Runs its body while a condition holds', contributes: ['loopIterations'] },
+  { name: 'ClearUserValueRule', description: 'Clears a value the user picked', contributes: [] },
+];
+
+/**
+ * Definition used for types missing from the registry, and for rules whose
+ * type line isn't a rule type at all (ruleType 'Unknown')
+ */
+export const GENERIC_RULE_TYPE: RuleTypeDefinition = {
+  name: 'Unknown',
+  description: 'Not in the rule type registry; parsed generically',
+  contributes: [],
+};
+
+const registry = new Map(RULE_TYPES.map(type => [type.name, type]));
+
+// Type line after a rule header, e.g. "VariableRule"; any *Rule name is captured
+export const ruleTypeLinePattern = /^([A-Z][A-Za-z0-9]*Rule)\b/;
+
+export function isRegisteredRuleType(ruleType: string): boolean {
+  return registry.has(ruleType);
+}
+
+/**
+ * Definition to parse a rule type with, the generic one if it isn't registered
+ */
+export function getRuleType(ruleType: string): RuleTypeDefinition {
+  return registry.get(ruleType) ?? GENERIC_RULE_TYPE;
+}
+
+export function ruleTypeContributes(ruleType: string, contribution: RuleContribution): boolean {
+  return getRuleType(ruleType).contributes.includes(contribution);
+}
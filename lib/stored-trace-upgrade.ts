@@ -0,0 +1,64 @@
+/**
+ * Stored Trace Upgrade
+ * Brings a trace row's parsed_data up to the current schema version and
+ * writes it back, so a row is upgraded once per schema bump, not per request.
+ * Server-side only - uses the admin client.
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import { parseTrace } from './trace-parser';
+import {
+  serializeParsedTrace,
+  deserializeParsedTrace,
+  isSerializedParsedTrace,
+  TRACE_SCHEMA_VERSION,
+} from './trace-serialization';
+import type { SerializedParsedTrace } from './trace-serialization';
+
+export interface StoredTraceRow {
+  id: string;
+  parsed_data: unknown;
+  raw_content_reconstructed: boolean;
+}
+
+/**
+ * The row's trace at the current schema version. Older traces are re-parsed
+ * from raw_content, fetched only when the caller hasn't already; rows whose
+ * raw_content was rebuilt from a localStorage baseline are migrated instead,
+ * since that text isn't the original trace.
+ */
+export async function loadCurrentTrace(row: StoredTraceRow, rawContent?: string): Promise<SerializedParsedTrace> {
+  if (isSerializedParsedTrace(row.parsed_data) && row.parsed_data.schemaVersion === TRACE_SCHEMA_VERSION) {
+    return row.parsed_data;
+  }
+
+  let trace: SerializedParsedTrace;
+  if (row.raw_content_reconstructed) {
+    trace = serializeParsedTrace(deserializeParsedTrace(row.parsed_data));
+  } else {
+    if (rawContent === undefined) {
+      const { data, error } = await supabaseAdmin
+        .from('traces')
+        .select('raw_content')
+        .eq('id', row.id)
+        .single();
+      if (error || !data) {
+        throw new Error(`Failed to fetch raw content of trace ${row.id}`);
+      }
+      rawContent = (data as { raw_content: string }).raw_content;
+    }
+    trace = serializeParsedTrace(parseTrace(rawContent));
+  }
+
+  // A failed write only means the next request upgrades the row again
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const traces = supabaseAdmin.from('traces') as any;
+  const { error: updateError } = await traces
+    .update({ parsed_data: trace as unknown as Record<string, unknown> })
+    .eq('id', row.id);
+  if (updateError) {
+    console.error('Error saving upgraded trace:', updateError);
+  }
+
+  return trace;
+}
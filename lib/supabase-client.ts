@@ -32,6 +32,7 @@ export interface Database {
           user_id: string;
           filename: string;
           raw_content: string;
+          raw_content_reconstructed: boolean;
           parsed_data: Record<string, unknown> | null;
           file_size: number;
           created_at: string;
@@ -42,6 +43,7 @@ export interface Database {
           user_id: string;
           filename: string;
           raw_content: string;
+          raw_content_reconstructed?: boolean;
           parsed_data?: Record<string, unknown> | null;
           file_size: number;
           created_at?: string;
@@ -52,6 +54,7 @@ export interface Database {
           user_id?: string;
           filename?: string;
           raw_content?: string;
+          raw_content_reconstructed?: boolean;
           parsed_data?: Record<string, unknown> | null;
           file_size?: number;
           created_at?: string;
@@ -0,0 +1,256 @@
+/**
+ * Timing Profile
+ * Self and total time per rule and per ruleset over the LoadRulesetRule
+ * nesting, and the flame graph of ruleset load stacks. Uses the timings the
+ * trace logs when it has any, and line counts otherwise.
+ */
+
+import type { ParsedTrace, RuleExecution } from './trace-parser';
+
+/**
+ * What profile values measure: milliseconds from the trace's Timestamp and
+ * Elapsed lines, or trace lines from each rule to the next when none are logged
+ */
+export type TimingWeight = 'time' | 'lines';
+
+export interface ExecutionTiming {
+  executionId: number;
+  self: number;                    // The rule alone
+  total: number;                   // The rule plus every rule it loaded, directly or not
+}
+
+export interface RuleTiming {
+  ruleId: string;
+  ruleName: string;
+  ruleType: string;
+  ruleset: string;
+  executions: number;
+  self: number;
+  total: number;                   // Executions nested in another of the same rule count once
+}
+
+export interface RulesetTiming {
+  ruleset: string;
+  executions: number;
+  self: number;
+  total: number;                   // Executions nested in the same ruleset count once
+}
+
+/**
+ * A ruleset reached through one stack of ruleset loads; executions of the
+ * ruleset through the same stack share a frame
+ */
+export interface FlameFrame {
+  id: string;                      // Rulesets from outermost to this one, joined by " > "
+  ruleset: string;
+  depth: number;                   // 0 for rulesets not loaded by another
+  executions: number;
+  self: number;
+  total: number;
+  firstExecutionId: number;
+  children: FlameFrame[];          // In order of first load
+}
+
+export interface TimingProfile {
+  weight: TimingWeight;
+  timedExecutions: number;         // Executions with a Timestamp or Elapsed line
+  total: number;                   // Sum of every execution's self value
+  executions: ExecutionTiming[];   // Indexed by executionId
+  rules: RuleTiming[];             // Highest self first
+  rulesets: RulesetTiming[];       // Highest self first
+  frames: FlameFrame[];            // Top-level rulesets, in order of first execution
+}
+
+export const FLAME_FRAME_SEPARATOR = ' > ';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function lineWeight(execution: RuleExecution): number {
+  const endLine = execution.duration?.endLine ?? execution.lineNumber;
+  return endLine - execution.lineNumber + 1;
+}
+
+/**
+ * Self time of every execution. An Elapsed value is used as is; otherwise a
+ * rule runs until the next rule of the same interaction step starts, so the
+ * time a user spends between clicks is never counted. Rules with neither
+ * line count as 0.
+ */
+function timedSelfValues(trace: ParsedTrace): number[] {
+  const { executions } = trace.timeline;
+
+  const stepEnds = new Set<number>();
+  for (const step of trace.steps) {
+    if (step.executionRange) stepEnds.add(step.executionRange.last);
+  }
+
+  const self = new Array<number>(executions.length).fill(0);
+  let nextStart: number | null = null;
+  for (let i = executions.length - 1; i >= 0; i--) {
+    const { startedAt, elapsedMs } = executions[i];
+    if (stepEnds.has(i)) nextStart = null;
+
+    if (elapsedMs !== undefined) {
+      self[i] = elapsedMs;
+    } else if (startedAt !== undefined && nextStart !== null) {
+      // Bare times of day (ms since midnight) wrap at midnight
+      const gap = nextStart - startedAt;
+      self[i] = gap < 0 && startedAt < DAY_MS ? gap + DAY_MS : Math.max(0, gap);
+    }
+
+    // A rule with only an Elapsed line started that long before the next one
+    if (startedAt !== undefined) nextStart = startedAt;
+    else if (nextStart !== null) nextStart -= self[i];
+  }
+  return self;
+}
+
+/**
+ * Sum totals over executions, skipping any nested in an execution with the
+ * same key so recursion isn't counted twice
+ */
+function sumOutermost(
+  executions: RuleExecution[],
+  totals: number[],
+  keyOf: (execution: RuleExecution) => string
+): Map<string, number> {
+  const sums = new Map<string, number>();
+  for (const execution of executions) {
+    const key = keyOf(execution);
+    let nested = false;
+    for (let parent = execution.parentExecutionId; parent !== null; parent = executions[parent].parentExecutionId) {
+      if (keyOf(executions[parent]) === key) {
+        nested = true;
+        break;
+      }
+    }
+    if (!nested) sums.set(key, (sums.get(key) ?? 0) + totals[execution.executionId]);
+  }
+  return sums;
+}
+
+function buildFrames(executions: RuleExecution[], self: number[]): FlameFrame[] {
+  const roots: FlameFrame[] = [];
+  const childFrames = new Map<FlameFrame | null, Map<string, FlameFrame>>();
+  const frameOf: FlameFrame[] = [];
+
+  for (const execution of executions) {
+    const parentFrame = execution.parentExecutionId !== null ? frameOf[execution.parentExecutionId] : null;
+    let siblings = childFrames.get(parentFrame);
+    if (!siblings) {
+      siblings = new Map();
+      childFrames.set(parentFrame, siblings);
+    }
+
+    let frame = siblings.get(execution.ruleset);
+    if (!frame) {
+      frame = {
+        id: parentFrame ? `${parentFrame.id}${FLAME_FRAME_SEPARATOR}${execution.ruleset}` : execution.ruleset,
+        ruleset: execution.ruleset,
+        depth: parentFrame ? parentFrame.depth + 1 : 0,
+        executions: 0,
+        self: 0,
+        total: 0,
+        firstExecutionId: execution.executionId,
+        children: [],
+      };
+      siblings.set(execution.ruleset, frame);
+      (parentFrame ? parentFrame.children : roots).push(frame);
+    }
+
+    frame.executions++;
+    frame.self += self[execution.executionId];
+    frameOf[execution.executionId] = frame;
+  }
+
+  const sumTotals = (frame: FlameFrame): number => {
+    frame.total = frame.children.reduce((sum, child) => sum + sumTotals(child), frame.self);
+    return frame.total;
+  };
+  roots.forEach(sumTotals);
+
+  return roots;
+}
+
+/**
+ * Build the timing profile of a trace's rule executions
+ */
+export function buildTimingProfile(trace: ParsedTrace): TimingProfile {
+  const { executions } = trace.timeline;
+
+  const timedExecutions = executions.filter(e => e.startedAt !== undefined || e.elapsedMs !== undefined).length;
+  const weight: TimingWeight = timedExecutions > 0 ? 'time' : 'lines';
+  const self = weight === 'time' ? timedSelfValues(trace) : executions.map(lineWeight);
+
+  // Children always come after their parent, so a reverse pass sees them first
+  const totals = [...self];
+  for (let i = executions.length - 1; i >= 0; i--) {
+    for (const childId of executions[i].childExecutionIds) {
+      totals[i] += totals[childId];
+    }
+  }
+
+  const ruleKey = (e: RuleExecution) => `${e.ruleset}\u0000${e.ruleId}`;
+  const ruleTotals = sumOutermost(executions, totals, ruleKey);
+  const rulesetTotals = sumOutermost(executions, totals, e => e.ruleset);
+
+  const rules = new Map<string, RuleTiming>();
+  const rulesets = new Map<string, RulesetTiming>();
+  for (const execution of executions) {
+    const key = ruleKey(execution);
+    let rule = rules.get(key);
+    if (!rule) {
+      rule = {
+        ruleId: execution.ruleId,
+        ruleName: execution.ruleName,
+        ruleType: execution.ruleType,
+        ruleset: execution.ruleset,
+        executions: 0,
+        self: 0,
+        total: ruleTotals.get(key) ?? 0,
+      };
+      rules.set(key, rule);
+    }
+    rule.executions++;
+    rule.self += self[execution.executionId];
+
+    let ruleset = rulesets.get(execution.ruleset);
+    if (!ruleset) {
+      ruleset = {
+        ruleset: execution.ruleset,
+        executions: 0,
+        self: 0,
+        total: rulesetTotals.get(execution.ruleset) ?? 0,
+      };
+      rulesets.set(execution.ruleset, ruleset);
+    }
+    ruleset.executions++;
+    ruleset.self += self[execution.executionId];
+  }
+
+  const bySelf = (a: { self: number; total: number }, b: { self: number; total: number }) =>
+    b.self - a.self || b.total - a.total;
+
+  return {
+    weight,
+    timedExecutions,
+    total: self.reduce((sum, value) => sum + value, 0),
+    executions: executions.map(e => ({ executionId: e.executionId, self: self[e.executionId], total: totals[e.executionId] })),
+    rules: Array.from(rules.values()).sort(bySelf),
+    rulesets: Array.from(rulesets.values()).sort(bySelf),
+    frames: buildFrames(executions, self),
+  };
+}
+
+/**
+ * Format a profile value, e.g. "12.5 ms", "1.24 s" or "1,024 lines"
+ */
+export function formatTimingValue(value: number, weight: TimingWeight): string {
+  if (weight === 'lines') {
+    return `${value.toLocaleString()} line${value !== 1 ? 's' : ''}`;
+  }
+  if (value >= 1000) {
+    return `${(value / 1000).toFixed(2)} s`;
+  }
+  return `${Number(value.toFixed(value < 10 ? 2 : 1))} ms`;
+}
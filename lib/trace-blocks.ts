@@ -0,0 +1,47 @@
+/**
+ * Trace Blocks
+ * Finds the block a line belongs to, so a link to any line can show the
+ * whole rule, Screen Option or Template block around it.
+ */
+
+import type { TraceBlock } from './trace-parser';
+
+// Blocks never nested in another block; nothing before one contains a line after it ends
+const TOP_LEVEL_KINDS = new Set<TraceBlock['kind']>(['header', 'rule', 'summary']);
+
+/**
+ * Innermost block containing a line, or null for lines outside every block
+ * Blocks must be in order of first line, as the parser returns them.
+ */
+export function findBlockAt(blocks: TraceBlock[], lineNumber: number): TraceBlock | null {
+  // Last block starting at or before the line
+  let lo = 0;
+  let hi = blocks.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (blocks[mid].startLine <= lineNumber) lo = mid + 1;
+    else hi = mid;
+  }
+
+  // Nested blocks start after the rule block containing them
+  for (let i = lo - 1; i >= 0; i--) {
+    const block = blocks[i];
+    if (block.endLine >= lineNumber) return block;
+    if (TOP_LEVEL_KINDS.has(block.kind)) break;
+  }
+  return null;
+}
+
+/**
+ * Short label for a block, e.g. "VariableRule: Set price (SO.Pricing)"
+ */
+export function getBlockLabel(block: TraceBlock): string {
+  switch (block.kind) {
+    case 'header': return 'XML header';
+    case 'rule': return `${block.ruleType}: ${block.ruleName} (${block.ruleset})`;
+    case 'screenOption': return `Screen Option: ${block.name}`;
+    case 'template': return `Template: ${block.name}`;
+    case 'group': return `Option List Group: ${block.groupId ?? 'unnamed'}`;
+    case 'summary': return block.rulesExecuted !== null ? `${block.rulesExecuted} rules executed` : 'Rollback points';
+  }
+}
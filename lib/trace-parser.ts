@@ -4,6 +4,15 @@
  * Focuses on universal CPQ engine patterns that work across implementations.
  */
 
+import { detectIssues } from './issue-detection';
+import { buildInteractionSteps, getStateAfterStep } from './interaction-steps';
+import type { StepBoundary } from './interaction-steps';
+import { classifyRemovedOptions, getOptionList, resolveOptionLists } from './option-lists';
+import type { OptionListDefinition, RemovedOptionsBreakdown } from './option-lists';
+import { buildComponentTree, flattenComponentTree } from './component-tree';
+import { buildLoopRuns } from './loop-iterations';
+import { getRuleType, isRegisteredRuleType, ruleTypeContributes, ruleTypeLinePattern } from './rule-types';
+
 export interface ConfigurationMetadata {
   instance: string;
   application: string;
@@ -12,6 +21,11 @@ export interface ConfigurationMetadata {
   partNamespace: string;
   configurationMode: string;
   headerID: string;
+  timestamp: string;                  // <Timestamp> as logged
+  startedAt: number | null;           // Timestamp in epoch ms, null if missing or unreadable
+  user: string;
+  culture: string;
+  headerFields: Map<string, string>;  // Every <InputParameters> attribute and element as logged, known or not
 }
 
 export interface FeatureData {
@@ -21,12 +35,55 @@ export interface FeatureData {
   options: string[]; // Available options from Option List Group
   optionListId: string | null; // Reference to full option list
   optionListGroup: string | null; // Reference to filtered group
-  lineNumber: number; // Line in trace where this feature appears
+  lineNumber: number; // Line of the latest occurrence
+  properties: Map<string, string>; // Every Property/Result pair of the latest occurrence
+  occurrences: FeatureOccurrence[]; // Every Screen Option section for this feature, in trace order
+}
+
+/**
+ * One Screen Option section. A feature is logged again on every engine pass
+ * that re-evaluates it, so caption, value and options can differ between them.
+ */
+export interface FeatureOccurrence {
+  lineNumber: number;
+  caption: string;
+  selectedValue: string | null;
+  optionListGroup: string | null;
+  options: string[]; // Resolved from the Option List Group
+  properties: Map<string, string>; // Property name → Result (or Trace when there is no Result)
+}
+
+/**
+ * The full option list behind an Option List Id. Each Option List Group is
+ * the subset of it that rules left available.
+ */
+export interface OptionList {
+  id: string;
+  options: string[];
+  source: 'definition' | 'observed'; // Logged with its values, or the union of every group seen for it
+  lineNumber: number | null;         // Line of the definition
+}
+
+/**
+ * The rule execution that created a dynamic option list or Option List Group
+ */
+export interface OptionSource {
+  id: string;                 // Option List Id or Option List Group GUID
+  ruleId: string;
+  ruleName: string;
+  ruleType: string;           // CreateDynamicOptionListRule or CreateDynamicOptionListGroupRule
+  ruleset: string;
+  lineNumber: number;         // Rule header line
+  condition: string | null;   // RuleCondition expression the rule fired on
+  expression: string | null;  // Expression that computed the values - the filter, for a group
 }
 
 export interface ParsedTrace {
   metadata: ConfigurationMetadata;
   features: Map<string, FeatureData>;
+  optionLists: Map<string, OptionList>;
+  optionSources: Map<string, OptionSource>;
+  components: ComponentData[];     // In order of first creation
   rulesSummary: RuleExecutionSummary;
   integrationOutputs: IntegrationOutputSummary;
   variableTracking: VariableTrackingSummary;
@@ -35,7 +92,18 @@ export interface ParsedTrace {
   timeline: RuleExecutionTimeline;
   rulesExecuted: number;
   rollbackPoints: number;
-  parseErrors: string[];
+  rollbackOccurrences: RollbackOccurrence[];
+  steps: InteractionStep[];
+  loops: LoopRun[];
+  blocks: TraceBlock[];            // In order of first line; nested blocks follow the rule block they're in
+  parseErrors: ParseDiagnostic[];  // In line order
+  parseCoverage: ParseCoverage;
+}
+
+export interface RollbackOccurrence {
+  point: string;                   // Rollback point number
+  count: number;
+  firstLine: number;
 }
 
 // Rule execution types
@@ -137,13 +205,16 @@ export interface RuleExecution {
   ruleType: string;
   ruleset: string;
   lineNumber: number;
-  depth: number;                // Nesting depth (0 = top level, 1+ = triggered by LoadRulesetRule)
-  parentExecutionId: number | null;  // ID of LoadRulesetRule that triggered this
+  depth: number;                // LoadRulesetRules still running when this rule started (0 = top level)
+  parentExecutionId: number | null;  // ID of the innermost of those LoadRulesetRules
   childExecutionIds: number[]; // IDs of rules triggered by this LoadRulesetRule
+  loadedRuleset?: string;       // LoadRulesetRule only: target from its "Ruleset" property
   duration?: {                  // Estimated from lines between this rule and next
     startLine: number;
     endLine: number;
   };
+  startedAt?: number;           // From a "Timestamp :" line: epoch ms, or ms since midnight for a bare time of day
+  elapsedMs?: number;           // From an "Elapsed :" line: the rule's own time, without the rules it loads
 }
 
 export interface RuleExecutionTimeline {
@@ -159,17 +230,89 @@ export interface RuleExecutionTimeline {
   }[];
 }
 
+// Interaction step types
+export interface StepVariableChange {
+  name: string;                    // Display name
+  previousValue: string | null;    // Before the step, null if unassigned
+  newValue: string | null;         // At the end of the step
+  assignmentCount: number;         // Assignments during the step
+  lineNumber: number;              // Last assignment in the step
+}
+
+export interface StepFeature extends FeatureOccurrence {
+  name: string;
+}
+
+/**
+ * One engine pass, i.e. what a single click in the configurator triggered
+ */
+export interface InteractionStep {
+  index: number;                   // 1-based, in trace order
+  startLine: number;
+  endLine: number;
+  rulesExecuted: number | null;    // From the step's "N rules executed" line, null if the trace ends mid-pass
+  rollbackPoints: string[];        // Rollback points logged during the step
+  executionRange: { first: number; last: number } | null;  // Timeline execution IDs
+  features: StepFeature[];         // Screen Options shown during the step (last occurrence of each)
+  variableChanges: StepVariableChange[];
+}
+
+// Loop iteration types
+export interface LoopIteration {
+  index: number;                   // 1-based within the run
+  item: string | null;             // Collection item the loop rule assigned, when logged
+  itemVariable: string | null;     // Variable the item was assigned to
+  startLine: number;               // Loop rule header
+  endLine: number;
+  executionRange: { first: number; last: number };  // Timeline execution IDs, loop rule included
+  assignmentCount: number;         // Variable assignments during the iteration, the item's included
+}
+
+/**
+ * Back-to-back executions of one ForEachRule or LoopRule, each starting an
+ * iteration whose body runs until control returns to the loop's ruleset
+ */
+export interface LoopRun {
+  id: number;                      // 1-based, in trace order
+  ruleId: string;
+  ruleName: string;
+  ruleType: string;
+  ruleset: string;
+  depth: number;
+  startLine: number;
+  endLine: number;
+  iterations: LoopIteration[];
+}
+
+// Component types
+/**
+ * A component created by a CreateComponentRule. The rule runs again on every
+ * pass that re-evaluates it; each component is kept once, with its latest values.
+ */
+export interface ComponentData {
+  name: string;
+  parent: string | null;           // Parent component name, null for top-level components
+  quantity: number | null;         // null if the rule didn't log one
+  ruleId: string;
+  ruleName: string;
+  ruleset: string;
+  lineNumber: number;              // Rule header of the latest creation
+  creationCount: number;
+}
+
 // Issue detection types
 export type IssueSeverity = 'error' | 'warning' | 'info';
 export type IssueCategory = 'performance' | 'logic' | 'data' | 'configuration';
 
 export interface DetectedIssue {
   id: string;
+  detectorId: string;              // Registry id of the detector that reported it
   severity: IssueSeverity;
   category: IssueCategory;
   title: string;
   description: string;
   lineNumber: number;
+  endLineNumber?: number;          // Last line when the issue spans a range
   context: {
     ruleName?: string;
     ruleset?: string;
@@ -186,80 +329,669 @@ export interface IssuesSummary {
   infoCount: number;
 }
 
+// Trace block types
+/**
+ * A run of lines the parser reads as one unit, from its first line to its
+ * divider (or last line, for blocks without one)
+ */
+interface TraceBlockBase {
+  startLine: number;
+  endLine: number;
+}
+
+export interface HeaderBlock extends TraceBlockBase {
+  kind: 'header';                  // XML <InputParameters> header
+}
+
+export interface RuleBlock extends TraceBlockBase {
+  kind: 'rule';
+  executionId: number;             // Same as the timeline's RuleExecution.executionId
+  ruleId: string;
+  ruleName: string;
+  ruleType: string;                // As logged, even if unregistered; 'Unknown' if the line isn't a rule type
+  ruleset: string;
+}
+
+export interface ScreenOptionBlock extends TraceBlockBase {
+  kind: 'screenOption';
+  name: string;
+}
+
+export interface TemplateBlock extends TraceBlockBase {
+  kind: 'template';
+  name: string;
+}
+
+/**
+ * An Option List Group definition: "Property : Group Name" and its
+ * "Group Values", usually inside a CreateDynamicOptionListGroupRule block
+ */
+export interface GroupBlock extends TraceBlockBase {
+  kind: 'group';
+  groupId: string | null;
+  options: string[];
+}
+
+/**
+ * "N rules executed" and rollback lines logged outside any other block
+ */
+export interface SummaryBlock extends TraceBlockBase {
+  kind: 'summary';
+  rulesExecuted: number | null;
+  rollbackPoints: string[];
+}
+
+export type TraceBlock = HeaderBlock | RuleBlock | ScreenOptionBlock | TemplateBlock | GroupBlock | SummaryBlock;
+
+// Parse diagnostic types
+export type ParseDiagnosticCode =
+  | 'unknown-rule-type'      // Rule header followed by a type missing from the rule type registry
+  | 'unrecognized-block'     // Lines outside any section the parser reads
+  | 'unterminated-section'   // Section with no divider before the next one starts
+  | 'truncated-trace'        // Trace ends inside a section or mid-pass
+  | 'no-rule-executions';
+
+export interface ParseDiagnostic {
+  lineNumber: number;
+  severity: IssueSeverity;
+  code: ParseDiagnosticCode;
+  message: string;
+}
+
+/**
+ * How much of the trace the parser understood
+ */
+export interface ParseCoverage {
+  totalLines: number;              // Non-blank lines
+  recognizedLines: number;         // Inside a rule, Screen Option, Template or XML header section, or a summary line
+  percent: number | null;          // Rounded down to one decimal, 100 for an empty trace; null for a stored trace that predates coverage
+}
+
+// Streaming parser types
+export interface ParseProgress {
+  linesParsed: number;
+  charactersRead: number;         // UTF-16 code units, as JavaScript counts string length
+  totalCharacters: number | null; // Known when the caller supplies it (e.g. string length)
+  bytesRead: number;              // UTF-8 size of the text read so far, only counted when totalBytes is known
+  totalBytes: number | null;      // Known when the caller supplies it (e.g. File.size)
+  percent: number | null;         // 0-100 of totalBytes, else of totalCharacters; null when neither is known
+}
+
+export interface TraceParserOptions {
+  totalCharacters?: number;       // Length of the trace text
+  totalBytes?: number;            // Size of the UTF-8 input before decoding
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+export interface TraceParser {
+  write(chunk: string): void;     // Feed the next chunk of trace text (may split lines anywhere)
+  end(): ParsedTrace;             // Flush the last line and build the result
+}
+
+/**
+ * Where a line sits in the trace's block structure
+ */
+interface LineContext {
+  block: TraceBlock | null;        // Innermost block the line belongs to
+  rule: RuleBlock | null;          // Rule block the line belongs to, if any
+  isStart: boolean;                // The line is `block`'s first line
+  isEnd: boolean;                  // The line is `block`'s divider (or closing tag)
+  unterminated: TraceBlock | null; // Block cut off by the section this line starts, before its divider
+}
+
+/**
+ * A single-pass consumer of trace lines
+ * `lines` is the parser's sliding window; `i` indexes into it and is guaranteed
+ * to have MAX_LOOKAHEAD lines and the rest of its rule or section block after
+ * it. The block reader has already placed the line in its block.
+ */
+interface LineConsumer<T> {
+  consume(lines: string[], i: number, lineNumber: number, context: LineContext): void;
+  finish(): T;
+}
+
+/**
+ * Window index of the last line a consumer may look ahead to from line `i`:
+ * the end of its rule block, or of the block it's in outside a rule
+ */
+function blockEndIndex(lines: string[], i: number, lineNumber: number, { rule, block }: LineContext): number {
+  const endLine = (rule ?? block)?.endLine ?? lineNumber;
+  return Math.min(lines.length - 1, i + endLine - lineNumber);
+}
+
+// Pattern: Ruleset: <name> Rule: <id> <name> (Ruleset: <name>)
+// The rule type appears on the line after the header (ruleTypeLinePattern)
+const ruleHeaderPattern = /^Ruleset: (\S+) Rule: (\d+) (.+?) \(Ruleset:/;
+
+// Furthest any consumer looks ahead of the current line
+const MAX_LOOKAHEAD = 15;
+// Screen Option and Template sections are read ahead until their divider
+const openSectionPattern = /^\s*Screen Option:|^\s+Template:\s+\S/;
+const sectionDividerPattern = /^-{10,}/;
+// Lines besides rule headers that close every open block
+const blockBreakPattern = /^\s*<InputParameters\b|^\d+ rules executed/;
+// Consumed lines are dropped from the window in batches of this size
+const WINDOW_TRIM_THRESHOLD = 4096;
+
 /**
  * Parse an Infor CPQ trace file
  * Extracts Screen Option sections which are standard CPQ engine output.
  * Options are resolved by tracing back from Option List Group GUIDs.
  */
 export function parseTrace(traceContent: string): ParsedTrace {
-  // Handle both Unix (\n) and Windows (\r\n) line endings
-  const lines = traceContent.split(/\r?\n/);
-  const parseErrors: string[] = [];
+  const parser = createTraceParser();
+  parser.write(traceContent);
+  return parser.end();
+}
 
-  // Initialize metadata with defaults
-  const metadata: ConfigurationMetadata = {
-    instance: '',
-    application: '',
-    configurationId: '',
-    partNumber: '',
-    partNamespace: '',
-    configurationMode: '',
-    headerID: '',
+/**
+ * Parse a trace from a stream of text chunks (e.g. File.stream() piped through TextDecoderStream)
+ * Memory use is bounded by the parsed result, not the raw trace size.
+ */
+export async function parseTraceStream(
+  source: ReadableStream<string> | AsyncIterable<string>,
+  options: TraceParserOptions = {}
+): Promise<ParsedTrace> {
+  const parser = createTraceParser(options);
+  await writeTraceStream(source, parser);
+  return parser.end();
+}
+
+/**
+ * Feed every chunk of a stream to an incremental parser, without ending it
+ */
+export async function writeTraceStream(
+  source: ReadableStream<string> | AsyncIterable<string>,
+  parser: { write(chunk: string): void }
+): Promise<void> {
+  if ('getReader' in source) {
+    const reader = source.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parser.write(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source) {
+      parser.write(chunk);
+    }
+  }
+}
+
+/**
+ * Number of bytes a string takes as UTF-8. Matches the size of the input it
+ * was decoded from, except for a byte order mark or invalid sequences.
+ */
+export function utf8ByteLength(text: string): number {
+  let bytes = text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) continue;
+    // A surrogate pair is 4 bytes, 2 per code unit
+    bytes += code < 0x800 || (code >= 0xd800 && code <= 0xdfff) ? 1 : 2;
+  }
+  return bytes;
+}
+
+/**
+ * Progress percent from whichever total the caller supplied, held below 100
+ * until the input has ended
+ */
+export function progressPercent(
+  read: { charactersRead: number; bytesRead: number },
+  options: TraceParserOptions
+): number | null {
+  const fraction = options.totalBytes
+    ? read.bytesRead / options.totalBytes
+    : options.totalCharacters
+      ? read.charactersRead / options.totalCharacters
+      : null;
+  return fraction === null ? null : Math.min(99, Math.floor(fraction * 100));
+}
+
+/**
+ * Create an incremental trace parser
+ * Every sub-parser consumes each line exactly once, in order, from a sliding
+ * window that only holds the look-ahead still needed.
+ */
+export function createTraceParser(options: TraceParserOptions = {}): TraceParser {
+  const blockReader = createBlockReader();
+  const optionListParser = createOptionListParser();
+  const optionSourceParser = createOptionSourceParser();
+  const componentParser = createComponentParser();
+  const configurationParser = createConfigurationParser();
+  const ruleExecutionParser = createRuleExecutionParser();
+  const integrationOutputParser = createIntegrationOutputParser();
+  const variableParser = createVariableParser();
+  const conditionParser = createConditionParser();
+  const timelineParser = createTimelineParser();
+  const interactionStepParser = createInteractionStepParser();
+  const diagnosticsParser = createDiagnosticsParser();
+
+  const consumers: LineConsumer<unknown>[] = [
+    optionListParser,
+    optionSourceParser,
+    componentParser,
+    configurationParser,
+    ruleExecutionParser,
+    integrationOutputParser,
+    variableParser,
+    conditionParser,
+    timelineParser,
+    interactionStepParser,
+    diagnosticsParser,
+  ];
+
+  let window: string[] = [];
+  let windowStart = 0;   // Absolute index of window[0]
+  let cursor = 0;        // Absolute index of the next line to consume
+  let partialLine = '';  // Text after the last line break seen so far
+  let charactersRead = 0;
+  let bytesRead = 0;
+  let ended = false;
+
+  // End search state for the rule or section block opening at the cursor
+  let endSearch = { from: -1, scannedTo: 0, lastLine: 0, found: -1 };
+
+  /**
+   * Index of the last line of the rule, Screen Option or Template block
+   * opening at `from`: its divider, or the last non-blank line before the
+   * block that cuts it off. -1 while that's beyond the window, until the input ends.
+   */
+  const findBlockEnd = (from: number): number => {
+    if (endSearch.from !== from) {
+      endSearch = { from, scannedTo: from + 1, lastLine: from, found: -1 };
+    }
+    if (endSearch.found >= 0) return endSearch.found;
+
+    const isSection = !ruleHeaderPattern.test(window[from - windowStart]);
+    const windowEnd = windowStart + window.length;
+    for (let j = endSearch.scannedTo; j < windowEnd; j++) {
+      const line = window[j - windowStart];
+      if (sectionDividerPattern.test(line)) {
+        endSearch.found = j;
+        return j;
+      }
+      if (ruleHeaderPattern.test(line) || blockBreakPattern.test(line) || (isSection && openSectionPattern.test(line))) {
+        endSearch.found = endSearch.lastLine;
+        return endSearch.lastLine;
+      }
+      if (line.trim() !== '') endSearch.lastLine = j;
+    }
+    endSearch.scannedTo = windowEnd;
+    return ended ? endSearch.lastLine : -1;
   };
 
-  const features = new Map<string, FeatureData>();
-  let rulesExecuted = 0;
-  let rollbackPoints = 0;
+  const opensBlock = (line: string) => ruleHeaderPattern.test(line) || openSectionPattern.test(line);
 
-  // Pattern matchers for metadata (XML header)
-  const instancePattern = /<InputParameters Instance="([^"]+)" Application="([^"]+)">/;
-  const configIdPattern = /<ConfigurationID>(\d+)<\/ConfigurationID>/;
-  const partNumberPattern = /<PartNumber>([^<]+)<\/PartNumber>/;
-  const partNamespacePattern = /<PartNamespace>([^<]+)<\/PartNamespace>/;
-  const configModePattern = /<ConfigurationMode>([^<]+)<\/ConfigurationMode>/;
-  const headerIdPattern = /<HeaderID>([^<]+)<\/HeaderID>/;
+  const canConsume = (index: number): boolean => {
+    const windowEnd = windowStart + window.length;
+    if (index >= windowEnd) return false;
+    if (ended) return true;
+    if (windowEnd <= index + MAX_LOOKAHEAD) return false;
+
+    // Rule and section blocks are read whole, so consumers can look ahead to their last line
+    if (opensBlock(window[index - windowStart])) {
+      const end = findBlockEnd(index);
+      return end >= 0 && windowEnd > end + 3;
+    }
+    return true;
+  };
+
+  const drain = () => {
+    while (canConsume(cursor)) {
+      const localIndex = cursor - windowStart;
+      const lineNumber = cursor + 1; // 1-indexed for display
+      const endLine = opensBlock(window[localIndex]) ? findBlockEnd(cursor) + 1 : lineNumber;
+      const context = blockReader.read(window, localIndex, lineNumber, endLine);
+      for (const consumer of consumers) {
+        consumer.consume(window, localIndex, lineNumber, context);
+      }
+      cursor++;
+    }
+
+    if (cursor - windowStart >= WINDOW_TRIM_THRESHOLD) {
+      window = window.slice(cursor - windowStart);
+      windowStart = cursor;
+    }
+  };
+
+  const reportProgress = () => {
+    if (!options.onProgress) return;
+    options.onProgress({
+      linesParsed: cursor,
+      charactersRead,
+      totalCharacters: options.totalCharacters ?? null,
+      bytesRead,
+      totalBytes: options.totalBytes ?? null,
+      percent: ended ? 100 : progressPercent({ charactersRead, bytesRead }, options),
+    });
+  };
+
+  return {
+    write(chunk: string) {
+      if (ended) {
+        throw new Error('Cannot write to a trace parser after end()');
+      }
+
+      charactersRead += chunk.length;
+      if (options.totalBytes) bytesRead += utf8ByteLength(chunk);
+
+      // Handle both Unix (\n) and Windows (\r\n) line endings, even when split across chunks
+      const pieces = (partialLine + chunk).split(/\r?\n/);
+      partialLine = pieces.pop() ?? '';
+      for (const piece of pieces) {
+        window.push(piece);
+      }
+
+      drain();
+      reportProgress();
+    },
+
+    end(): ParsedTrace {
+      if (!ended) {
+        ended = true;
+        window.push(partialLine);
+        partialLine = '';
+        drain();
+        reportProgress();
+      }
+
+      const blocks = blockReader.finish();
+
+      // A group re-created on a later pass replaces the earlier one
+      const groupOptionsMap = new Map<string, string[]>();
+      for (const block of blocks) {
+        if (block.kind === 'group' && block.groupId) {
+          groupOptionsMap.set(block.groupId, block.options);
+        }
+      }
+      const {
+        metadata,
+        features,
+        featureOccurrences,
+        rulesExecuted,
+        rollbackPoints,
+        rollbackOccurrences,
+      } = configurationParser.finish();
+
+      // Option List Groups may be defined after the Screen Option that uses them
+      for (const feature of features.values()) {
+        for (const occurrence of feature.occurrences) {
+          occurrence.options = occurrence.optionListGroup
+            ? (groupOptionsMap.get(occurrence.optionListGroup) || [])
+            : [];
+        }
+        feature.options = feature.occurrences[feature.occurrences.length - 1].options;
+      }
+      const optionLists = resolveOptionLists(
+        optionListParser.finish(),
+        featureOccurrences.map(({ occurrence }) => occurrence)
+      );
+      const optionSources = optionSourceParser.finish();
+      const components = componentParser.finish();
+
+      const rulesSummary = ruleExecutionParser.finish();
+      const integrationOutputs = integrationOutputParser.finish();
+      const variableTracking = variableParser.finish();
+      const conditionTracking = conditionParser.finish();
+      const timeline = timelineParser.finish();
+      const steps = buildInteractionSteps(interactionStepParser.finish(), {
+        featureOccurrences,
+        variableTracking,
+        timeline,
+      });
+      const loops = buildLoopRuns(timeline, variableTracking, steps);
+      const { diagnostics: parseErrors, coverage: parseCoverage } = diagnosticsParser.finish();
+
+      const rollbackHistory = Array.from(
+        rollbackOccurrences,
+        ([point, info]): RollbackOccurrence => ({ point, ...info })
+      );
+
+      // Detect issues and warnings with the default detector settings
+      const issues = detectIssues({
+        rulesSummary,
+        conditionTracking,
+        variableTracking,
+        timeline,
+        rollbackPoints,
+        rollbackOccurrences: rollbackHistory,
+      });
+
+      return {
+        metadata,
+        features,
+        optionLists,
+        optionSources,
+        components,
+        rulesSummary,
+        integrationOutputs,
+        variableTracking,
+        conditionTracking,
+        issues,
+        timeline,
+        rulesExecuted,
+        rollbackPoints,
+        rollbackOccurrences: rollbackHistory,
+        steps,
+        loops,
+        blocks,
+        parseErrors,
+        parseCoverage,
+      };
+    },
+  };
+}
+
+/**
+ * Split the trace into typed blocks as its lines stream in: the XML header,
+ * rule blocks from header to divider (with the Screen Option, Template and
+ * Option List Group blocks a rule logs nested inside), top-level Screen Option
+ * and Template blocks, and summary blocks of "rules executed" and rollback
+ * lines. Every consumer reads rule boundaries from here.
+ */
+function createBlockReader(): {
+  read(lines: string[], i: number, lineNumber: number, endLine: number): LineContext;
+  finish(): TraceBlock[];
+} {
+  const blocks: TraceBlock[] = [];
+  const open: TraceBlock[] = [];   // Outermost first; only a rule block has blocks nested in it
+  let executionId = 0;
+  // Property the open group block expects a Result for, 'read' once it has its values
+  let groupProperty: 'Group Name' | 'Group Values' | 'read' | null = null;
 
-  // Universal CPQ engine patterns
   const screenOptionPattern = /^\s*Screen Option:\s*(\S+)/;
+  const templatePattern = /^\s+Template:\s+(.+)$/;
   const propertyPattern = /^\s+Property\s+:\s+(.+)/;
-  const traceValuePattern = /^\s+Trace\s+:\s+"([^"]+)"/;
   const resultValuePattern = /^\s+Result\s+:\s+"([^"]+)"/;
   const resultArrayPattern = /^\s+Result\s+:\s+(\{.+\})/;
-  const selectedValuePattern = /^\s+Value:\s*(.+)/;
-  const rollbackPattern = /Rollback point (\d+)/;
+  const xmlHeaderStartPattern = /^\s*<InputParameters\b/;
+  const xmlHeaderEndPattern = /<\/InputParameters>/;
   const rulesExecutedPattern = /^(\d+) rules executed/;
-  const sectionDivider = /^-{10,}/;
+  const rollbackPattern = /Rollback point (\d+)/;
+
+  const openBlock = (block: TraceBlock) => {
+    blocks.push(block);
+    open.push(block);
+  };
+
+  // A new top-level block starts; an open section should have ended at its divider
+  const closeAll = (): TraceBlock | null => {
+    const outermost = open[0];
+    open.length = 0;
+    groupProperty = null;
+    return outermost && outermost.kind !== 'header' && outermost.kind !== 'summary' ? outermost : null;
+  };
+
+  const summaryBlock = (lineNumber: number): SummaryBlock => {
+    const current = open[0];
+    if (current?.kind === 'summary') return current;
+    closeAll();
+    const block: SummaryBlock = { kind: 'summary', startLine: lineNumber, endLine: lineNumber, rulesExecuted: null, rollbackPoints: [] };
+    openBlock(block);
+    return block;
+  };
+
+  return {
+    read(lines, i, lineNumber, endLine) {
+      const line = lines[i];
+      let unterminated: TraceBlock | null = null;
+      let isStart = false;
+      let isEnd = false;
+
+      if (line.trim() === '') {
+        const block = open[open.length - 1] ?? null;
+        return { block, rule: open[0]?.kind === 'rule' ? open[0] : null, isStart, isEnd, unterminated };
+      }
+
+      const ruleMatch = line.match(ruleHeaderPattern);
+      const screenOptionMatch = ruleMatch ? null : line.match(screenOptionPattern);
+      const templateMatch = ruleMatch || screenOptionMatch ? null : line.match(templatePattern);
+      const rulesExecutedMatch = line.match(rulesExecutedPattern);
+      const rollbackMatch = line.match(rollbackPattern);
+
+      // Summary blocks end at the first line that isn't a summary line
+      if (open[0]?.kind === 'summary' && !rulesExecutedMatch && !rollbackMatch) {
+        closeAll();
+      }
+
+      if (ruleMatch) {
+        unterminated = closeAll();
+        const typeMatch = i + 1 < lines.length ? lines[i + 1].match(ruleTypeLinePattern) : null;
+        openBlock({
+          kind: 'rule',
+          startLine: lineNumber,
+          endLine,
+          executionId: executionId++,
+          ruleId: ruleMatch[2],
+          ruleName: ruleMatch[3].trim(),
+          ruleType: typeMatch ? typeMatch[1] : 'Unknown',
+          ruleset: ruleMatch[1],
+        });
+        isStart = true;
+      } else if (screenOptionMatch || templateMatch) {
+        // A rule may log its own Screen Option or Template
+        if (open[0]?.kind === 'rule') {
+          open.length = 1;
+          groupProperty = null;
+        } else {
+          unterminated = closeAll();
+        }
+        openBlock(screenOptionMatch
+          ? { kind: 'screenOption', startLine: lineNumber, endLine, name: screenOptionMatch[1] }
+          : { kind: 'template', startLine: lineNumber, endLine, name: templateMatch![1].trim() });
+        isStart = true;
+      } else if (xmlHeaderStartPattern.test(line)) {
+        closeAll();
+        openBlock({ kind: 'header', startLine: lineNumber, endLine: lineNumber });
+        isStart = true;
+        isEnd = xmlHeaderEndPattern.test(line);
+      } else if (rulesExecutedMatch) {
+        // The pass is over, whether or not its last rule logged a divider
+        const block = summaryBlock(lineNumber);
+        block.rulesExecuted = parseInt(rulesExecutedMatch[1]);
+        isStart = block.startLine === lineNumber;
+      } else if (rollbackMatch && open.length === 0) {
+        const block = summaryBlock(lineNumber);
+        block.rollbackPoints.push(rollbackMatch[1]);
+        isStart = block.startLine === lineNumber;
+      } else if (sectionDividerPattern.test(line)) {
+        isEnd = open.length > 0;
+      } else if (open[0]?.kind === 'header') {
+        isEnd = xmlHeaderEndPattern.test(line);
+      } else {
+        const innermost = open[open.length - 1];
+        const propMatch = line.match(propertyPattern);
+        const propName = propMatch ? propMatch[1].trim() : null;
+
+        if (propName === 'Group Name') {
+          if (innermost?.kind === 'group') open.pop();
+          openBlock({ kind: 'group', startLine: lineNumber, endLine: lineNumber, groupId: null, options: [] });
+          groupProperty = 'Group Name';
+          isStart = true;
+        } else if (innermost?.kind === 'group') {
+          if (propName === 'Group Values') {
+            groupProperty = 'Group Values';
+          } else if (propName) {
+            // The group ends at the next property once its values are read
+            if (groupProperty === 'read') {
+              open.pop();
+              groupProperty = null;
+            }
+          } else if (groupProperty === 'Group Name') {
+            const resultMatch = line.match(resultValuePattern);
+            if (resultMatch) {
+              innermost.groupId = resultMatch[1];
+              groupProperty = null;
+            }
+          } else if (groupProperty === 'Group Values') {
+            const arrayMatch = line.match(resultArrayPattern);
+            if (arrayMatch) {
+              innermost.options = parseOptionArray(arrayMatch[1]);
+              groupProperty = 'read';
+            }
+          }
+        }
+      }
 
-  // PASS 1: Build map of Option List Group GUIDs to their options
-  // Look for "Property : Group Name" followed by "Property : Group Values"
-  const groupOptionsMap = new Map<string, string[]>();
+      // Rule, Screen Option and Template blocks know their end line from their first
+      for (const block of open) {
+        if (block.kind === 'header' || block.kind === 'summary' || block.kind === 'group') {
+          block.endLine = lineNumber;
+        }
+      }
+      const block = open[open.length - 1] ?? null;
+      const rule = open[0]?.kind === 'rule' ? open[0] : null;
+      if (isEnd) {
+        closeAll();
+      }
+      return { block, rule, isStart, isEnd, unterminated };
+    },
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const propMatch = line.match(propertyPattern);
+    finish: () => blocks,
+  };
+}
+
+/**
+ * Build map of Option List Ids to their full option lists
+ * Looks for "Property : Option List Id" followed by "Property : Option List Values"
+ */
+function createOptionListParser(): LineConsumer<Map<string, OptionListDefinition>> {
+  const definitions = new Map<string, OptionListDefinition>();
+
+  const propertyPattern = /^\s+Property\s+:\s+(.+)/;
+  const resultValuePattern = /^\s+Result\s+:\s+"([^"]+)"/;
+  const resultArrayPattern = /^\s+Result\s+:\s+(\{.+\})/;
+
+  return {
+    consume(lines, i, lineNumber) {
+      const propMatch = lines[i].match(propertyPattern);
+      if (!propMatch || propMatch[1].trim() !== 'Option List Id') return;
 
-    if (propMatch && propMatch[1].trim() === 'Group Name') {
       // Look for Result with GUID on next few lines
-      let groupGuid: string | null = null;
+      let listId: string | null = null;
       for (let j = i + 1; j < Math.min(i + 5, lines.length); j++) {
         const resultMatch = lines[j].match(resultValuePattern);
         if (resultMatch) {
-          groupGuid = resultMatch[1];
+          listId = resultMatch[1];
           break;
         }
       }
 
-      // Now look for "Property : Group Values" nearby
-      if (groupGuid) {
+      // Screen Options reference a list by id; only definitions log its values
+      if (listId) {
         for (let j = i + 1; j < Math.min(i + 10, lines.length); j++) {
           const nextPropMatch = lines[j].match(propertyPattern);
-          if (nextPropMatch && nextPropMatch[1].trim() === 'Group Values') {
-            // Look for Result with options array
+          if (nextPropMatch && nextPropMatch[1].trim() === 'Option List Values') {
             for (let k = j + 1; k < Math.min(j + 5, lines.length); k++) {
               const arrayMatch = lines[k].match(resultArrayPattern);
               if (arrayMatch) {
-                const options = parseOptionArray(arrayMatch[1]);
-                groupOptionsMap.set(groupGuid, options);
+                definitions.set(listId, { options: parseOptionArray(arrayMatch[1]), lineNumber });
                 break;
               }
             }
@@ -267,183 +999,654 @@ export function parseTrace(traceContent: string): ParsedTrace {
           }
         }
       }
-    }
-  }
+    },
 
-  // PASS 2: Parse trace for metadata, features, and stats
-  let i = 0;
-  while (i < lines.length) {
-    const line = lines[i];
+    finish: () => definitions,
+  };
+}
 
-    // Parse metadata from XML header
-    const instanceMatch = line.match(instancePattern);
-    if (instanceMatch) {
-      metadata.instance = instanceMatch[1];
-      metadata.application = instanceMatch[2];
-    }
+/**
+ * Record which rule created each dynamic option list and Option List Group,
+ * keyed by the id it logged, with the expression that computed its values
+ */
+function createOptionSourceParser(): LineConsumer<Map<string, OptionSource>> {
+  const sources = new Map<string, OptionSource>();
 
-    const configIdMatch = line.match(configIdPattern);
-    if (configIdMatch) {
-      metadata.configurationId = configIdMatch[1];
-    }
+  const propertyPattern = /^\s+Property\s+:\s+(.+)/;
+  const expressionPattern = /^\s+Expression\s+:\s+=(.+)/;
+  const resultPattern = /^\s+Result\s+:/;
+  const resultValuePattern = /^\s+Result\s+:\s+"([^"]+)"/;
 
-    const partNumMatch = line.match(partNumberPattern);
-    if (partNumMatch && !metadata.partNumber) {
-      metadata.partNumber = partNumMatch[1];
+  let currentRule: Omit<OptionSource, 'id' | 'condition' | 'expression'> | null = null;
+  // Properties holding the created id and its values, from the rule type registry
+  let output: { idProperty: string; valuesProperty: string } | null = null;
+  let condition: string | null = null;
+
+  // Expression logged under a property, before its Result
+  const findExpression = (lines: string[], from: number): string | null => {
+    for (let j = from + 1; j < Math.min(from + 5, lines.length); j++) {
+      const exprMatch = lines[j].match(expressionPattern);
+      if (exprMatch) return `=${exprMatch[1].trim()}`;
+      if (resultPattern.test(lines[j]) || propertyPattern.test(lines[j])) break;
     }
+    return null;
+  };
 
-    const partNsMatch = line.match(partNamespacePattern);
-    if (partNsMatch) {
-      metadata.partNamespace = partNsMatch[1];
-    }
+  return {
+    consume(lines, i, lineNumber, context) {
+      const { rule } = context;
+      if (context.isStart && rule && context.block === rule) {
+        output = ruleTypeContributes(rule.ruleType, 'optionSources') ? getRuleType(rule.ruleType).output ?? null : null;
+        currentRule = output
+          ? { ruleId: rule.ruleId, ruleName: rule.ruleName, ruleType: rule.ruleType, ruleset: rule.ruleset, lineNumber }
+          : null;
+        condition = null;
+        return;
+      }
 
-    const configModeMatch = line.match(configModePattern);
-    if (configModeMatch) {
-      metadata.configurationMode = configModeMatch[1];
-    }
+      if (!currentRule || !output) return;
+      if (!rule || context.isEnd) {
+        currentRule = null;
+        return;
+      }
+
+      const propMatch = lines[i].match(propertyPattern);
+      if (!propMatch) return;
+      const propName = propMatch[1].trim();
+
+      if (propName === 'RuleCondition') {
+        condition = findExpression(lines, i);
+        return;
+      }
+
+      if (propName !== output.idProperty) return;
+
+      let id: string | null = null;
+      for (let j = i + 1; j < Math.min(i + 5, lines.length); j++) {
+        const resultMatch = lines[j].match(resultValuePattern);
+        if (resultMatch) {
+          id = resultMatch[1];
+          break;
+        }
+      }
+      if (!id) return;
+
+      let expression: string | null = null;
+      for (let j = i + 1; j < Math.min(i + 10, lines.length); j++) {
+        const nextPropMatch = lines[j].match(propertyPattern);
+        if (nextPropMatch && nextPropMatch[1].trim() === output.valuesProperty) {
+          expression = findExpression(lines, j);
+          break;
+        }
+      }
+
+      // A group re-created on a later pass replaces the earlier one, as its options do
+      sources.set(id, { id, ...currentRule, condition, expression });
+    },
+
+    finish: () => sources,
+  };
+}
 
-    const headerIdMatch = line.match(headerIdPattern);
-    if (headerIdMatch) {
-      metadata.headerID = headerIdMatch[1];
+/**
+ * Build the components created by CreateComponentRule executions
+ * Collects each rule's Property/Result pairs up to its divider; rules whose
+ * RuleCondition is False create nothing
+ */
+function createComponentParser(): LineConsumer<ComponentData[]> {
+  const components = new Map<string, ComponentData>();
+
+  const propertyPattern = /^\s+Property\s+:\s+(.+)/;
+  const anyResultValuePattern = /^\s+Result\s+:\s*(.*)$/;
+
+  // Property names each field is logged under, in order of preference
+  const nameProperties = ['Component Name', 'Component', 'Name'];
+  const parentProperties = ['Parent Component', 'Parent'];
+  const quantityProperties = ['Quantity', 'Qty'];
+
+  let currentRule: { ruleId: string; ruleName: string; ruleset: string; lineNumber: number } | null = null;
+  let properties = new Map<string, string>();
+  let currentProperty: string | null = null;
+
+  const firstOf = (names: string[]): string | null => {
+    for (const name of names) {
+      const value = properties.get(name);
+      if (value !== undefined && value !== '' && value !== 'null') return value;
     }
+    return null;
+  };
 
-    // Track rollback points
-    const rollbackMatch = line.match(rollbackPattern);
-    if (rollbackMatch) {
-      rollbackPoints = Math.max(rollbackPoints, parseInt(rollbackMatch[1]));
+  const finishRule = () => {
+    if (!currentRule || properties.get('RuleCondition') === 'False') {
+      currentRule = null;
+      return;
     }
 
-    // Track rules executed
-    const rulesMatch = line.match(rulesExecutedPattern);
-    if (rulesMatch) {
-      rulesExecuted = parseInt(rulesMatch[1]);
+    // Without a logged name the rule is the best label there is
+    const name = firstOf(nameProperties) ?? currentRule.ruleName;
+    const parent = firstOf(parentProperties);
+    const quantity = parseFloat(firstOf(quantityProperties) ?? '');
+    const key = `${parent ?? ''}/${name}`;
+    const existing = components.get(key);
+
+    components.set(key, {
+      name,
+      parent,
+      quantity: isNaN(quantity) ? null : quantity,
+      ruleId: currentRule.ruleId,
+      ruleName: currentRule.ruleName,
+      ruleset: currentRule.ruleset,
+      lineNumber: currentRule.lineNumber,
+      creationCount: (existing?.creationCount ?? 0) + 1,
+    });
+    currentRule = null;
+  };
+
+  return {
+    consume(lines, i, lineNumber, context) {
+      const line = lines[i];
+      const { rule } = context;
+
+      if (context.isStart && rule && context.block === rule) {
+        finishRule();
+        if (ruleTypeContributes(rule.ruleType, 'components')) {
+          currentRule = { ruleId: rule.ruleId, ruleName: rule.ruleName, ruleset: rule.ruleset, lineNumber };
+          properties = new Map();
+          currentProperty = null;
+        }
+        return;
+      }
+
+      if (!currentRule) return;
+      if (!rule || context.isEnd) {
+        finishRule();
+        return;
+      }
+
+      const propMatch = line.match(propertyPattern);
+      if (propMatch) {
+        currentProperty = propMatch[1].trim();
+        return;
+      }
+
+      const resultMatch = line.match(anyResultValuePattern);
+      if (resultMatch && currentProperty) {
+        properties.set(currentProperty, unquote(resultMatch[1]));
+      }
+    },
+
+    finish() {
+      finishRule();
+      return [...components.values()];
+    },
+  };
+}
+
+interface ConfigurationParseResult {
+  metadata: ConfigurationMetadata;
+  features: Map<string, FeatureData>; // Options are resolved once all groups are known
+  featureOccurrences: { name: string; occurrence: FeatureOccurrence }[];  // Every Screen Option section, in trace order
+  rulesExecuted: number;
+  rollbackPoints: number;
+  rollbackOccurrences: Map<string, { count: number; firstLine: number }>;
+}
+
+type HeaderMetadataField = Exclude<keyof ConfigurationMetadata, 'startedAt' | 'headerFields'>;
+
+// Header attributes and elements kept as named metadata fields; any other name is only in headerFields
+const HEADER_METADATA_FIELDS: Record<string, HeaderMetadataField> = {
+  Instance: 'instance',
+  Application: 'application',
+  ConfigurationID: 'configurationId',
+  PartNumber: 'partNumber',
+  PartNamespace: 'partNamespace',
+  ConfigurationMode: 'configurationMode',
+  HeaderID: 'headerID',
+  Timestamp: 'timestamp',
+  User: 'user',
+  UserName: 'user',
+  UserID: 'user',
+  Culture: 'culture',
+};
+
+/**
+ * Header attributes and elements with no named metadata field, in trace order
+ */
+export function getUnnamedHeaderFields(metadata: ConfigurationMetadata): [string, string][] {
+  return Array.from(metadata.headerFields.entries()).filter(([name]) => !Object.hasOwn(HEADER_METADATA_FIELDS, name));
+}
+
+const xmlEntities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => xmlEntities[name]);
+}
+
+/**
+ * Parse metadata, features, and execution stats
+ */
+function createConfigurationParser(): LineConsumer<ConfigurationParseResult> {
+  // Initialize metadata with defaults
+  const metadata: ConfigurationMetadata = {
+    instance: '',
+    application: '',
+    configurationId: '',
+    partNumber: '',
+    partNamespace: '',
+    configurationMode: '',
+    headerID: '',
+    timestamp: '',
+    startedAt: null,
+    user: '',
+    culture: '',
+    headerFields: new Map(),
+  };
+
+  const features = new Map<string, FeatureData>();
+  const featureOccurrences: ConfigurationParseResult['featureOccurrences'] = [];
+  const rollbackOccurrences = new Map<string, { count: number; firstLine: number }>();
+  let rulesExecuted = 0;
+  let rollbackPoints = 0;
+
+  // Pattern matchers for metadata (XML header block)
+  const headerOpenPattern = /<InputParameters\b([^>]*)>/;
+  const headerAttributePattern = /([\w.-]+)="([^"]*)"/g;
+  const headerElementPattern = /^\s*<([\w.-]+)(?:\s[^>]*)?>([^<]*)<\/\1>/;
+
+  // Universal CPQ engine patterns
+  const screenOptionPattern = /^\s*Screen Option:\s*(\S+)/;
+  const propertyPattern = /^\s+Property\s+:\s+(.+)/;
+  const traceValuePattern = /^\s+Trace\s+:\s+"([^"]+)"/;
+  const resultValuePattern = /^\s+Result\s+:\s+"([^"]+)"/;
+  const anyTraceValuePattern = /^\s+Trace\s+:\s*(.*)$/;
+  const anyResultValuePattern = /^\s+Result\s+:\s*(.*)$/;
+  const selectedValuePattern = /^\s+Value:\s*(.+)/;
+  const rollbackPattern = /Rollback point (\d+)/;
+  const rulesExecutedPattern = /^(\d+) rules executed/;
+  const sectionDivider = /^-{10,}/;
+
+  // The first value of a header field wins
+  const setHeaderField = (name: string, rawValue: string) => {
+    if (metadata.headerFields.has(name)) return;
+    const value = decodeXmlEntities(rawValue.trim());
+    metadata.headerFields.set(name, value);
+
+    if (Object.hasOwn(HEADER_METADATA_FIELDS, name)) {
+      const field = HEADER_METADATA_FIELDS[name];
+      metadata[field] = value;
+      if (field === 'timestamp') {
+        const startedAt = Date.parse(value);
+        metadata.startedAt = Number.isNaN(startedAt) ? null : startedAt;
+      }
     }
+  };
 
-    // Parse Screen Option sections (standard CPQ engine output)
-    const screenMatch = line.match(screenOptionPattern);
-    if (screenMatch) {
-      const featureName = screenMatch[1];
-      const featureLineNumber = i + 1; // 1-indexed for display
-      let caption = featureName;
-      let selectedValue: string | null = null;
-      let optionListId: string | null = null;
-      let optionListGroup: string | null = null;
-
-      // Look ahead within this section to find properties and Value
-      for (let j = i + 1; j < lines.length; j++) {
-        const sectionLine = lines[j];
-
-        // Stop at section divider
-        if (sectionDivider.test(sectionLine)) {
-          break;
+  return {
+    consume(lines, i, lineNumber, { block }) {
+      const line = lines[i];
+
+      // Parse metadata from the XML header: attributes of <InputParameters>, then one element per line
+      if (block?.kind === 'header') {
+        const openMatch = line.match(headerOpenPattern);
+        if (openMatch) {
+          for (const [, name, value] of openMatch[1].matchAll(headerAttributePattern)) {
+            setHeaderField(name, value);
+          }
+        } else {
+          const elementMatch = line.match(headerElementPattern);
+          if (elementMatch) {
+            setHeaderField(elementMatch[1], elementMatch[2]);
+          }
         }
+      }
 
-        const propMatch = sectionLine.match(propertyPattern);
-        if (propMatch) {
-          const propName = propMatch[1].trim();
+      // Track rollback points (highest number, plus occurrences for duplicate detection)
+      const rollbackMatch = line.match(rollbackPattern);
+      if (rollbackMatch) {
+        rollbackPoints = Math.max(rollbackPoints, parseInt(rollbackMatch[1]));
 
-          // Look for Result/Trace on next few lines based on property type
-          if (propName === 'Caption') {
-            for (let k = j + 1; k < Math.min(j + 4, lines.length); k++) {
-              const traceMatch = lines[k].match(traceValuePattern);
-              if (traceMatch) {
-                caption = traceMatch[1];
-                break;
-              }
-              const resultMatch = lines[k].match(resultValuePattern);
-              if (resultMatch) {
-                caption = resultMatch[1];
-                break;
-              }
+        const pointNum = rollbackMatch[1];
+        if (!rollbackOccurrences.has(pointNum)) {
+          rollbackOccurrences.set(pointNum, { count: 0, firstLine: lineNumber });
+        }
+        rollbackOccurrences.get(pointNum)!.count++;
+      }
+
+      // Track rules executed
+      const rulesMatch = line.match(rulesExecutedPattern);
+      if (rulesMatch) {
+        rulesExecuted = parseInt(rulesMatch[1]);
+      }
+
+      // Parse Screen Option sections (standard CPQ engine output)
+      const screenMatch = line.match(screenOptionPattern);
+      if (screenMatch) {
+        const featureName = screenMatch[1];
+        let caption = featureName;
+        let selectedValue: string | null = null;
+        let optionListId: string | null = null;
+        let optionListGroup: string | null = null;
+        const properties = new Map<string, string>();
+        let currentProperty: string | null = null;
+
+        // Look ahead within this section to find properties and Value
+        for (let j = i + 1; j < lines.length; j++) {
+          const sectionLine = lines[j];
+
+          // Stop at section divider
+          if (sectionDivider.test(sectionLine)) {
+            break;
+          }
+
+          // Capture every property generically; a Result overrides the Trace before it
+          if (currentProperty) {
+            const resultMatch = sectionLine.match(anyResultValuePattern);
+            const traceMatch = resultMatch ? null : sectionLine.match(anyTraceValuePattern);
+            if (resultMatch) {
+              properties.set(currentProperty, unquote(resultMatch[1]));
+            } else if (traceMatch && !properties.has(currentProperty)) {
+              properties.set(currentProperty, unquote(traceMatch[1]));
             }
-          } else if (propName === 'Option List Id') {
-            for (let k = j + 1; k < Math.min(j + 4, lines.length); k++) {
-              const resultMatch = lines[k].match(resultValuePattern);
-              if (resultMatch) {
-                optionListId = resultMatch[1];
-                break;
+          }
+
+          const propMatch = sectionLine.match(propertyPattern);
+          if (propMatch) {
+            const propName = propMatch[1].trim();
+            currentProperty = propName;
+
+            // Look for Result/Trace on next few lines based on property type
+            if (propName === 'Caption') {
+              for (let k = j + 1; k < Math.min(j + 4, lines.length); k++) {
+                const traceMatch = lines[k].match(traceValuePattern);
+                if (traceMatch) {
+                  caption = traceMatch[1];
+                  break;
+                }
+                const resultMatch = lines[k].match(resultValuePattern);
+                if (resultMatch) {
+                  caption = resultMatch[1];
+                  break;
+                }
               }
-            }
-          } else if (propName === 'Option List Group') {
-            for (let k = j + 1; k < Math.min(j + 4, lines.length); k++) {
-              const resultMatch = lines[k].match(resultValuePattern);
-              if (resultMatch) {
-                optionListGroup = resultMatch[1];
-                break;
+            } else if (propName === 'Option List Id') {
+              for (let k = j + 1; k < Math.min(j + 4, lines.length); k++) {
+                const resultMatch = lines[k].match(resultValuePattern);
+                if (resultMatch) {
+                  optionListId = resultMatch[1];
+                  break;
+                }
+              }
+            } else if (propName === 'Option List Group') {
+              for (let k = j + 1; k < Math.min(j + 4, lines.length); k++) {
+                const resultMatch = lines[k].match(resultValuePattern);
+                if (resultMatch) {
+                  optionListGroup = resultMatch[1];
+                  break;
+                }
               }
             }
           }
-        }
 
-        // Look for selected Value (at end of Screen Option section)
-        const valueMatch = sectionLine.match(selectedValuePattern);
-        if (valueMatch) {
-          const val = valueMatch[1].trim();
-          // Handle null, empty, and unassigned values
-          if (val === 'null' || val === '(unassigned)' || val === '""' || val === '') {
-            selectedValue = null;
-          } else {
-            // Remove surrounding quotes if present
-            selectedValue = val.replace(/^"|"$/g, '');
+          // Look for selected Value (at end of Screen Option section)
+          const valueMatch = sectionLine.match(selectedValuePattern);
+          if (valueMatch) {
+            const val = valueMatch[1].trim();
+            // Handle null, empty, and unassigned values
+            if (val === 'null' || val === '(unassigned)' || val === '""' || val === '') {
+              selectedValue = null;
+            } else {
+              // Remove surrounding quotes if present
+              selectedValue = val.replace(/^"|"$/g, '');
+            }
+            break; // Value is typically at the end of a Screen Option section
           }
-          break; // Value is typically at the end of a Screen Option section
         }
+
+        const occurrence: FeatureOccurrence = {
+          lineNumber,
+          caption,
+          selectedValue,
+          optionListGroup,
+          options: [],
+          properties,
+        };
+        const occurrences = features.get(featureName)?.occurrences ?? [];
+        occurrences.push(occurrence);
+        featureOccurrences.push({ name: featureName, occurrence });
+
+        // Store or update feature (later occurrences may have updated values)
+        features.set(featureName, {
+          name: featureName,
+          caption,
+          selectedValue,
+          options: [],
+          optionListId,
+          optionListGroup,
+          lineNumber,
+          properties,
+          occurrences,
+        });
       }
+    },
 
-      // Look up options from the group GUID
-      const options = optionListGroup ? (groupOptionsMap.get(optionListGroup) || []) : [];
+    finish: () => ({
+      metadata,
+      features,
+      featureOccurrences,
+      rulesExecuted,
+      rollbackPoints,
+      rollbackOccurrences,
+    }),
+  };
+}
 
-      // Store or update feature (later occurrences may have updated values)
-      features.set(featureName, {
-        name: featureName,
-        caption,
-        selectedValue,
-        options,
-        optionListId,
-        optionListGroup,
-        lineNumber: featureLineNumber,
-      });
-    }
+/**
+ * Strip the quotes around a Trace/Result value; unquoted values (True, 42, {...}) are kept as-is
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1)
+    : trimmed;
+}
 
-    i++;
-  }
+/**
+ * Split the trace into engine passes, each ending at an "N rules executed" line
+ */
+function createInteractionStepParser(): LineConsumer<StepBoundary[]> {
+  const boundaries: StepBoundary[] = [];
+
+  const rollbackPattern = /Rollback point (\d+)/;
+  const rulesExecutedPattern = /^(\d+) rules executed/;
 
-  // Parse rule executions
-  const rulesSummary = parseRuleExecutions(lines);
+  let startLine = 1;
+  let lastLine = 0;
+  let rollbackPoints: string[] = [];
+
+  return {
+    consume(lines, i, lineNumber) {
+      const line = lines[i];
+      lastLine = lineNumber;
 
-  // Parse integration outputs
-  const integrationOutputs = parseIntegrationOutputs(lines);
+      const rollbackMatch = line.match(rollbackPattern);
+      if (rollbackMatch) {
+        rollbackPoints.push(rollbackMatch[1]);
+      }
 
-  // Parse variable assignments
-  const variableTracking = parseVariableAssignments(lines);
+      const rulesMatch = line.match(rulesExecutedPattern);
+      if (rulesMatch) {
+        boundaries.push({ startLine, endLine: lineNumber, rulesExecuted: parseInt(rulesMatch[1]), rollbackPoints });
+        startLine = lineNumber + 1;
+        rollbackPoints = [];
+      }
+    },
 
-  // Parse condition evaluations
-  const conditionTracking = parseConditions(lines);
+    finish() {
+      // Lines after the last pass; buildInteractionSteps decides if they form a step
+      if (lastLine >= startLine) {
+        boundaries.push({ startLine, endLine: lastLine, rulesExecuted: null, rollbackPoints });
+      }
+      return boundaries;
+    },
+  };
+}
 
-  // Parse rule execution timeline
-  const timeline = parseRuleExecutionTimeline(lines);
+// Diagnostics past this many per code are summarized in one extra diagnostic
+const MAX_DIAGNOSTICS_PER_CODE = 50;
 
-  // Detect issues and warnings
-  const issues = detectIssues({
-    rulesSummary,
-    conditionTracking,
-    variableTracking,
-    rollbackPoints,
-    lines,
-  });
+// How diagnostics name a section block
+function describeBlock(block: TraceBlock): string {
+  switch (block.kind) {
+    case 'rule': return `Rule section "${block.ruleName}"`;
+    case 'screenOption': return `Screen Option section "${block.name}"`;
+    case 'template': return `Template section "${block.name}"`;
+    default: return `${block.kind} section`;
+  }
+}
+
+/**
+ * Report what the block reader couldn't place: unknown rule types, lines
+ * outside any block, sections missing their divider and traces that stop
+ * mid-section or mid-pass. Coverage counts the non-blank lines in a block.
+ */
+function createDiagnosticsParser(): LineConsumer<{ diagnostics: ParseDiagnostic[]; coverage: ParseCoverage }> {
+  const diagnostics: ParseDiagnostic[] = [];
+  const reportedCounts = new Map<ParseDiagnosticCode, number>();
+  const suppressed = new Map<ParseDiagnosticCode, { count: number; firstLine: number }>();
+  let totalLines = 0;
+  let recognizedLines = 0;
+  let ruleCount = 0;
+
+  // Rule, Screen Option or Template block still waiting for its divider
+  let openSection: TraceBlock | null = null;
+  // Unrecognized lines since the last recognized one
+  let unrecognized: { startLine: number; count: number } | null = null;
+  // Rule headers seen since the last "rules executed" line
+  let pendingPassStart: number | null = null;
+
+  const report = (lineNumber: number, severity: IssueSeverity, code: ParseDiagnosticCode, message: string) => {
+    const reported = reportedCounts.get(code) ?? 0;
+    if (reported < MAX_DIAGNOSTICS_PER_CODE) {
+      diagnostics.push({ lineNumber, severity, code, message });
+      reportedCounts.set(code, reported + 1);
+      return;
+    }
+    const entry = suppressed.get(code);
+    if (entry) {
+      entry.count++;
+    } else {
+      suppressed.set(code, { count: 1, firstLine: lineNumber });
+    }
+  };
+
+  const flushUnrecognized = () => {
+    if (!unrecognized) return;
+    const { startLine, count } = unrecognized;
+    report(
+      startLine,
+      'info',
+      'unrecognized-block',
+      `${count} line${count !== 1 ? 's' : ''} outside any rule, Screen Option or Template section`
+    );
+    unrecognized = null;
+  };
 
   return {
-    metadata,
-    features,
-    rulesSummary,
-    integrationOutputs,
-    variableTracking,
-    conditionTracking,
-    issues,
-    timeline,
-    rulesExecuted,
-    rollbackPoints,
-    parseErrors,
+    consume(lines, i, lineNumber, { block, rule, isStart, isEnd, unterminated }) {
+      if (lines[i].trim() === '') return;
+      totalLines++;
+
+      if (unterminated) {
+        report(
+          unterminated.startLine,
+          'warning',
+          'unterminated-section',
+          `${describeBlock(unterminated)} has no divider before the next section at line ${lineNumber}`
+        );
+      }
+
+      if (isStart && block?.kind === 'rule') {
+        ruleCount++;
+        pendingPassStart ??= lineNumber;
+
+        if (block.ruleType !== 'Unknown' && !isRegisteredRuleType(block.ruleType)) {
+          report(
+            lineNumber,
+            'warning',
+            'unknown-rule-type',
+            `Rule "${block.ruleName}" has type "${block.ruleType}", which isn't in the rule type registry; its properties are parsed generically`
+          );
+        } else if (block.ruleType === 'Unknown') {
+          const typeLine = i + 1 < lines.length ? lines[i + 1].trim() : '';
+          report(
+            lineNumber,
+            'warning',
+            'unknown-rule-type',
+            typeLine
+              ? `Rule "${block.ruleName}" has unrecognized type "${typeLine}"; it is shown as Unknown`
+              : `Rule "${block.ruleName}" has no rule type line; it is shown as Unknown`
+          );
+        }
+      } else if (block?.kind === 'summary' && block.rulesExecuted !== null) {
+        pendingPassStart = null;
+      }
+
+      const section = rule ?? (block?.kind === 'screenOption' || block?.kind === 'template' ? block : null);
+      openSection = isEnd ? null : section;
+
+      if (block) {
+        recognizedLines++;
+        flushUnrecognized();
+      } else if (unrecognized) {
+        unrecognized.count++;
+      } else {
+        unrecognized = { startLine: lineNumber, count: 1 };
+      }
+    },
+
+    finish() {
+      flushUnrecognized();
+
+      if (openSection) {
+        report(
+          openSection.startLine,
+          'warning',
+          'truncated-trace',
+          `Trace ends inside ${describeBlock(openSection)}; the trace may be cut off`
+        );
+      } else if (pendingPassStart !== null) {
+        report(
+          pendingPassStart,
+          'warning',
+          'truncated-trace',
+          'No "rules executed" line after the last rules ran; the trace may be cut off mid-pass'
+        );
+      }
+
+      if (ruleCount === 0 && totalLines > 0) {
+        report(1, 'warning', 'no-rule-executions', 'No rule executions found; this may not be a CPQ trace');
+      }
+
+      for (const [code, { count, firstLine }] of suppressed) {
+        const severity = diagnostics.find(d => d.code === code)?.severity ?? 'info';
+        diagnostics.push({
+          lineNumber: firstLine,
+          severity,
+          code,
+          message: `${count} more ${code} diagnostic${count !== 1 ? 's' : ''} not listed`,
+        });
+      }
+      diagnostics.sort((a, b) => a.lineNumber - b.lineNumber);
+
+      return {
+        diagnostics,
+        coverage: {
+          totalLines,
+          recognizedLines,
+          percent: totalLines > 0 ? Math.floor((recognizedLines / totalLines) * 1000) / 10 : 100,
+        },
+      };
+    },
   };
 }
 
@@ -470,36 +1673,19 @@ function parseOptionArray(arrayStr: string): string[] {
 /**
  * Parse rule executions from trace content
  */
-function parseRuleExecutions(lines: string[]): RuleExecutionSummary {
+function createRuleExecutionParser(): LineConsumer<RuleExecutionSummary> {
   const rulesets = new Map<string, RulesetSummary>();
   const ruleTypeBreakdown = new Map<string, number>();
   const ruleExecutionCounts = new Map<string, RuleStats>();
   let totalExecutions = 0;
 
-  // Pattern: Ruleset: <name> Rule: <id> <name> (Ruleset: <name>)
-  const rulesetPattern = /^Ruleset: (\S+) Rule: (\d+) (.+?) \(Ruleset:/;
-  // Rule type appears on the next line
-  const ruleTypePattern = /^(ConditionRule|VariableRule|LoadRulesetRule|CreateComponentRule|CreateDynamicOptionListRule|CreateDynamicOptionListGroupRule|ScreenDisplayRule|ForEachRule|LoopRule)/;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const ruleMatch = line.match(rulesetPattern);
+  return {
+    consume(lines, i, lineNumber, { block, isStart }) {
+      if (!isStart || block?.kind !== 'rule') return;
 
-    if (ruleMatch) {
-      const rulesetName = ruleMatch[1];
-      const ruleId = ruleMatch[2];
-      const ruleName = ruleMatch[3].trim();
+      const { ruleset: rulesetName, ruleId, ruleName, ruleType } = block;
       totalExecutions++;
 
-      // Look for rule type on next line
-      let ruleType = 'Unknown';
-      if (i + 1 < lines.length) {
-        const typeMatch = lines[i + 1].match(ruleTypePattern);
-        if (typeMatch) {
-          ruleType = typeMatch[1];
-        }
-      }
-
       // Extract namespace from ruleset name (first segment)
       const namespace = rulesetName.split('.')[0];
 
@@ -544,27 +1730,29 @@ function parseRuleExecutions(lines: string[]): RuleExecutionSummary {
 
       // Update rule type breakdown
       ruleTypeBreakdown.set(ruleType, (ruleTypeBreakdown.get(ruleType) || 0) + 1);
-    }
-  }
-
-  // Get top rules by execution count
-  const topRules = Array.from(ruleExecutionCounts.values())
-    .sort((a, b) => b.executionCount - a.executionCount)
-    .slice(0, 20);
+    },
 
-  return {
-    totalExecutions,
-    uniqueRules: ruleExecutionCounts.size,
-    rulesets,
-    topRules,
-    ruleTypeBreakdown,
+    finish() {
+      // Get top rules by execution count
+      const topRules = Array.from(ruleExecutionCounts.values())
+        .sort((a, b) => b.executionCount - a.executionCount)
+        .slice(0, 20);
+
+      return {
+        totalExecutions,
+        uniqueRules: ruleExecutionCounts.size,
+        rulesets,
+        topRules,
+        ruleTypeBreakdown,
+      };
+    },
   };
 }
 
 /**
  * Parse integration outputs (Template sections) from trace content
  */
-function parseIntegrationOutputs(lines: string[]): IntegrationOutputSummary {
+function createIntegrationOutputParser(): LineConsumer<IntegrationOutputSummary> {
   const templates = new Map<string, IntegrationTemplate>();
   let totalRows = 0;
 
@@ -576,38 +1764,27 @@ function parseIntegrationOutputs(lines: string[]): IntegrationOutputSummary {
   const resultStringPattern = /^\s+Result\s+:\s+"([^"]*)"/;
   const resultNumberPattern = /^\s+Result\s+:\s+(-?\d+\.?\d*)/;
   const resultNullPattern = /^\s+Result\s+:\s+(null|\{\}|\(unassigned\))/;
-  const sectionDivider = /^-{10,}/;
 
-  let i = 0;
-  while (i < lines.length) {
-    const line = lines[i];
-    const templateMatch = line.match(templatePattern);
+  return {
+    consume(lines, i, lineNumber, { block }) {
+      const templateMatch = lines[i].match(templatePattern);
+      if (!templateMatch || block?.kind !== 'template') return;
 
-    if (templateMatch) {
       const templateName = templateMatch[1].trim();
-      const lineNumber = i + 1; // 1-indexed
       const properties = new Map<string, string | number | null>();
       let integrationOutputId = '0';
+      const end = Math.min(lines.length - 1, i + block.endLine - lineNumber);
 
-      // Parse all properties in this template section
-      for (let j = i + 1; j < lines.length; j++) {
-        const sectionLine = lines[j];
-
-        // Stop at section divider
-        if (sectionDivider.test(sectionLine)) {
-          break;
-        }
-
-        const propMatch = sectionLine.match(propertyPattern);
+      // Parse all properties in this template block
+      for (let j = i + 1; j <= end; j++) {
+        const propMatch = lines[j].match(propertyPattern);
         if (propMatch) {
           const propName = propMatch[1].trim();
 
-          // Look for Result on next few lines
-          for (let k = j + 1; k < Math.min(j + 6, lines.length); k++) {
+          // Its Result follows before the next Property
+          for (let k = j + 1; k <= end; k++) {
             const resultLine = lines[k];
-
-            // Check for next Property or section end
-            if (propertyPattern.test(resultLine) || sectionDivider.test(resultLine)) {
+            if (propertyPattern.test(resultLine)) {
               break;
             }
 
@@ -668,68 +1845,45 @@ function parseIntegrationOutputs(lines: string[]): IntegrationOutputSummary {
 
         totalRows++;
       }
-    }
-
-    i++;
-  }
+    },
 
-  return { templates, totalRows };
+    finish: () => ({ templates, totalRows }),
+  };
 }
 
 /**
  * Parse variable assignments from trace content
  * Resolves indexed variables like ROOT[infeat] to root.Feature
  */
-function parseVariableAssignments(lines: string[]): VariableTrackingSummary {
+function createVariableParser(): LineConsumer<VariableTrackingSummary> {
   const assignments: VariableAssignment[] = [];
   const variableValues = new Map<string, string>(); // Track current values for index resolution
 
-  // Patterns for rule context
-  const rulesetPattern = /^Ruleset: (\S+) Rule: (\d+) (.+?) \(Ruleset:/;
-  const ruleTypePattern = /^(ConditionRule|VariableRule|LoadRulesetRule|CreateComponentRule|CreateDynamicOptionListRule|CreateDynamicOptionListGroupRule|ScreenDisplayRule|ForEachRule|LoopRule)/;
-
   // Patterns for variable assignments
   const variablePattern = /^\s+Variable\s+:\s+(.+)/;
   const assignmentPattern = /^\s+Assignment\s+:\s+(.+)/;
   const previousPattern = /^\s+Previous\s+:\s+(.+)/;
   const resultPattern = /^\s+Result\s+:\s+(.+)/;
 
-  let currentRuleset = '';
-  let currentRuleName = '';
-  let currentRuleType = '';
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Track rule context
-    const ruleMatch = line.match(rulesetPattern);
-    if (ruleMatch) {
-      currentRuleset = ruleMatch[1];
-      currentRuleName = ruleMatch[3].trim();
+  return {
+    consume(lines, i, lineNumber, context) {
+      const { rule } = context;
+      const line = lines[i];
 
-      // Look for rule type on next line
-      if (i + 1 < lines.length) {
-        const typeMatch = lines[i + 1].match(ruleTypePattern);
-        if (typeMatch) {
-          currentRuleType = typeMatch[1];
-        }
-      }
-    }
+      // Look for Variable : lines
+      const varMatch = line.match(variablePattern);
+      if (!varMatch) return;
 
-    // Look for Variable : lines
-    const varMatch = line.match(variablePattern);
-    if (varMatch) {
       const rawVariableName = varMatch[1].trim();
       let assignmentExpr = '';
       let previousValue: string | null = null;
       let resultValue: string | null = null;
 
-      // Look ahead for Assignment, Previous, Result
-      for (let j = i + 1; j < Math.min(i + 10, lines.length); j++) {
+      // Look ahead for Assignment, Previous, Result, up to the next Variable line
+      const end = blockEndIndex(lines, i, lineNumber, context);
+      for (let j = i + 1; j <= end; j++) {
         const nextLine = lines[j];
-
-        // Stop if we hit another Variable line or section end
-        if (variablePattern.test(nextLine) || /^-{10,}/.test(nextLine) || rulesetPattern.test(nextLine)) {
+        if (variablePattern.test(nextLine)) {
           break;
         }
 
@@ -760,10 +1914,10 @@ function parseVariableAssignments(lines: string[]): VariableTrackingSummary {
         assignmentExpression: assignmentExpr,
         previousValue,
         resultValue,
-        lineNumber: i + 1, // 1-indexed
-        ruleType: currentRuleType,
-        ruleName: currentRuleName,
-        ruleset: currentRuleset,
+        lineNumber,
+        ruleType: rule?.ruleType ?? '',
+        ruleName: rule?.ruleName ?? '',
+        ruleset: rule?.ruleset ?? '',
       });
 
       // Track the value for future index resolution
@@ -777,47 +1931,49 @@ function parseVariableAssignments(lines: string[]): VariableTrackingSummary {
           variableValues.set(simpleName, resultValue);
         }
       }
-    }
-  }
+    },
 
-  // Group assignments by display name
-  const variablesMap = new Map<string, VariableSummary>();
-
-  for (const assignment of assignments) {
-    const key = assignment.displayName;
-
-    if (!variablesMap.has(key)) {
-      variablesMap.set(key, {
-        name: assignment.displayName,
-        rawName: assignment.variableName,
-        assignments: [],
-        finalValue: null,
-        assignmentCount: 0,
-        firstAssignmentLine: assignment.lineNumber,
-        lastAssignmentLine: assignment.lineNumber,
-        hasChanges: false,
-      });
-    }
+    finish() {
+      // Group assignments by display name
+      const variablesMap = new Map<string, VariableSummary>();
+
+      for (const assignment of assignments) {
+        const key = assignment.displayName;
+
+        if (!variablesMap.has(key)) {
+          variablesMap.set(key, {
+            name: assignment.displayName,
+            rawName: assignment.variableName,
+            assignments: [],
+            finalValue: null,
+            assignmentCount: 0,
+            firstAssignmentLine: assignment.lineNumber,
+            lastAssignmentLine: assignment.lineNumber,
+            hasChanges: false,
+          });
+        }
 
-    const summary = variablesMap.get(key)!;
-    summary.assignments.push(assignment);
-    summary.assignmentCount++;
-    summary.lastAssignmentLine = assignment.lineNumber;
-    summary.finalValue = assignment.resultValue;
-
-    // Check if value changed
-    if (assignment.previousValue !== null &&
-        assignment.resultValue !== null &&
-        assignment.previousValue !== assignment.resultValue &&
-        assignment.previousValue !== '(unassigned)') {
-      summary.hasChanges = true;
-    }
-  }
+        const summary = variablesMap.get(key)!;
+        summary.assignments.push(assignment);
+        summary.assignmentCount++;
+        summary.lastAssignmentLine = assignment.lineNumber;
+        summary.finalValue = assignment.resultValue;
+
+        // Check if value changed
+        if (assignment.previousValue !== null &&
+            assignment.resultValue !== null &&
+            assignment.previousValue !== assignment.resultValue &&
+            assignment.previousValue !== '(unassigned)') {
+          summary.hasChanges = true;
+        }
+      }
 
-  return {
-    variables: variablesMap,
-    totalAssignments: assignments.length,
-    uniqueVariables: variablesMap.size,
+      return {
+        variables: variablesMap,
+        totalAssignments: assignments.length,
+        uniqueVariables: variablesMap.size,
+      };
+    },
   };
 }
 
@@ -873,13 +2029,9 @@ function resolveVariableName(rawName: string, variableValues: Map<string, string
  * Parse condition evaluations from trace content
  * Tracks which conditions evaluated True/False for rule firing decisions
  */
-function parseConditions(lines: string[]): ConditionSummary {
+function createConditionParser(): LineConsumer<ConditionSummary> {
   const conditions: ConditionEvaluation[] = [];
 
-  // Patterns for rule context
-  const rulesetPattern = /^Ruleset: (\S+) Rule: (\d+) (.+?) \(Ruleset:/;
-  const ruleTypePattern = /^(ConditionRule|VariableRule|LoadRulesetRule|CreateComponentRule|CreateDynamicOptionListRule|CreateDynamicOptionListGroupRule|ScreenDisplayRule|ForEachRule|LoopRule|ClearUserValueRule)/;
-
   // Pattern 1: RuleCondition Property (ConditionRule, LoadRulesetRule, ClearUserValueRule)
   const ruleConditionPropertyPattern = /^\s+Property\s+:\s+RuleCondition/;
   const expressionPattern = /^\s+Expression\s+:\s+=(.+)/;
@@ -890,274 +2042,292 @@ function parseConditions(lines: string[]): ConditionSummary {
   const conditionExpressionPattern = /^\s+Condition Expression\s+:\s+=(.+)/;
   const conditionResultPattern = /^\s+Condition Result\s+:\s+(True|False)/;
 
-  let currentRuleset = '';
-  let currentRuleId = '';
-  let currentRuleName = '';
-  let currentRuleType = '';
-  let currentRuleLineNumber = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Track rule context
-    const ruleMatch = line.match(rulesetPattern);
-    if (ruleMatch) {
-      currentRuleset = ruleMatch[1];
-      currentRuleId = ruleMatch[2];
-      currentRuleName = ruleMatch[3].trim();
-      currentRuleLineNumber = i + 1;
-
-      // Look for rule type on next line
-      if (i + 1 < lines.length) {
-        const typeMatch = lines[i + 1].match(ruleTypePattern);
-        if (typeMatch) {
-          currentRuleType = typeMatch[1];
-        }
-      }
-    }
-
-    // Pattern 1: Property : RuleCondition
-    if (ruleConditionPropertyPattern.test(line)) {
-      let expression = '';
-      let trace = '';
-      let result: boolean | null = null;
-      const conditionLineNumber = i + 1;
-
-      // Look ahead for Expression, Trace, Result
-      for (let j = i + 1; j < Math.min(i + 15, lines.length); j++) {
-        const nextLine = lines[j];
+  return {
+    consume(lines, i, lineNumber, context) {
+      const { rule } = context;
+      const line = lines[i];
+      const end = blockEndIndex(lines, i, lineNumber, context);
+      const currentRuleset = rule?.ruleset ?? '';
+      const currentRuleId = rule?.ruleId ?? '';
+      const currentRuleName = rule?.ruleName ?? '';
+      const currentRuleType = rule?.ruleType ?? '';
+
+      // Pattern 1: Property : RuleCondition
+      if (ruleConditionPropertyPattern.test(line)) {
+        let expression = '';
+        let trace = '';
+        let result: boolean | null = null;
+
+        // Look ahead for Expression, Trace, Result, up to the next Property
+        for (let j = i + 1; j <= end; j++) {
+          const nextLine = lines[j];
+          if (/^\s+Property\s+:/.test(nextLine)) {
+            break;
+          }
 
-        // Stop if we hit another Property or section divider
-        if (/^\s+Property\s+:/.test(nextLine) || /^-{10,}/.test(nextLine) || rulesetPattern.test(nextLine)) {
-          break;
-        }
+          const exprMatch = nextLine.match(expressionPattern);
+          if (exprMatch) {
+            expression = `=${exprMatch[1].trim()}`;
+          }
 
-        const exprMatch = nextLine.match(expressionPattern);
-        if (exprMatch) {
-          expression = `=${exprMatch[1].trim()}`;
-        }
+          const traceMatch = nextLine.match(tracePattern);
+          if (traceMatch) {
+            trace = traceMatch[1].trim();
+          }
 
-        const traceMatch = nextLine.match(tracePattern);
-        if (traceMatch) {
-          trace = traceMatch[1].trim();
+          const resultMatch = nextLine.match(resultBoolPattern);
+          if (resultMatch) {
+            result = resultMatch[1] === 'True';
+            break; // Result is the last field we need
+          }
         }
 
-        const resultMatch = nextLine.match(resultBoolPattern);
-        if (resultMatch) {
-          result = resultMatch[1] === 'True';
-          break; // Result is the last field we need
+        // Only add if we got an expression and result
+        if (expression && result !== null) {
+          conditions.push({
+            ruleId: currentRuleId,
+            ruleName: currentRuleName,
+            ruleType: currentRuleType,
+            ruleset: currentRuleset,
+            expression,
+            trace,
+            result,
+            lineNumber,
+          });
         }
       }
 
-      // Only add if we got an expression and result
-      if (expression && result !== null) {
-        conditions.push({
-          ruleId: currentRuleId,
-          ruleName: currentRuleName,
-          ruleType: currentRuleType,
-          ruleset: currentRuleset,
-          expression,
-          trace,
-          result,
-          lineNumber: conditionLineNumber,
-        });
-      }
-    }
-
-    // Pattern 2: VariableRule Condition Expression (only if non-empty)
-    const condExprMatch = line.match(conditionExpressionPattern);
-    if (condExprMatch && currentRuleType === 'VariableRule') {
-      const expression = `=${condExprMatch[1].trim()}`;
-      let result: boolean | null = null;
+      // Pattern 2: VariableRule Condition Expression (only if non-empty)
+      const condExprMatch = line.match(conditionExpressionPattern);
+      if (condExprMatch && ruleTypeContributes(currentRuleType, 'conditionResults')) {
+        const expression = `=${condExprMatch[1].trim()}`;
+        let result: boolean | null = null;
 
-      // Look ahead for Condition Result
-      for (let j = i + 1; j < Math.min(i + 5, lines.length); j++) {
-        const resultMatch = lines[j].match(conditionResultPattern);
-        if (resultMatch) {
-          result = resultMatch[1] === 'True';
-          break;
+        // Look ahead for Condition Result, up to the next Property or condition
+        for (let j = i + 1; j <= end; j++) {
+          if (/^\s+Property\s+:/.test(lines[j]) || conditionExpressionPattern.test(lines[j])) {
+            break;
+          }
+          const resultMatch = lines[j].match(conditionResultPattern);
+          if (resultMatch) {
+            result = resultMatch[1] === 'True';
+            break;
+          }
         }
-      }
 
-      // Only add if we got a result (expression is non-empty by regex match)
-      if (result !== null) {
-        conditions.push({
-          ruleId: currentRuleId,
-          ruleName: currentRuleName,
-          ruleType: currentRuleType,
-          ruleset: currentRuleset,
-          expression,
-          trace: '', // VariableRule conditions don't have trace
-          result,
-          lineNumber: i + 1,
-        });
+        // Only add if we got a result (expression is non-empty by regex match)
+        if (result !== null) {
+          conditions.push({
+            ruleId: currentRuleId,
+            ruleName: currentRuleName,
+            ruleType: currentRuleType,
+            ruleset: currentRuleset,
+            expression,
+            trace: '', // VariableRule conditions don't have trace
+            result,
+            lineNumber,
+          });
+        }
       }
-    }
-  }
+    },
 
-  // Calculate summary stats
-  const firedCount = conditions.filter(c => c.result).length;
-  const skippedCount = conditions.filter(c => !c.result).length;
+    finish() {
+      // Calculate summary stats
+      const firedCount = conditions.filter(c => c.result).length;
+      const skippedCount = conditions.filter(c => !c.result).length;
 
-  return {
-    totalConditions: conditions.length,
-    firedCount,
-    skippedCount,
-    conditions,
+      return {
+        totalConditions: conditions.length,
+        firedCount,
+        skippedCount,
+        conditions,
+      };
+    },
   };
 }
 
+// "14:30:22.125", or a TimeSpan such as "00:00:00.0125" or "1.02:00:00"; milliseconds
+function parseClockTime(value: string): number | null {
+  const match = value.match(/^(?:(\d+)\.)?(\d{1,2}):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match;
+  return (((Number(days ?? 0) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+}
+
+// Logged rule start: a full date and time, or a bare time of day
+function parseRuleTimestamp(value: string): number | null {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? parseClockTime(value) : time;
+}
+
+// Logged rule time: "12.5 ms", "0.8 s", a bare number of milliseconds, or a TimeSpan
+function parseElapsed(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (!match) return parseClockTime(value);
+  const amount = Number(match[1]);
+  return match[2]?.toLowerCase() === 's' ? amount * 1000 : amount;
+}
+
 /**
  * Parse rule executions into a timeline showing order and relationships
  * Tracks which rules trigger other rules via LoadRulesetRule
  */
-function parseRuleExecutionTimeline(lines: string[]): RuleExecutionTimeline {
+function createTimelineParser(): LineConsumer<RuleExecutionTimeline> {
   const executions: RuleExecution[] = [];
   const rulesetOrder: string[] = [];
   const seenRulesets = new Set<string>();
 
-  // Pattern: Ruleset: <name> Rule: <id> <name> (Ruleset: <name>)
-  const rulesetPattern = /^Ruleset: (\S+) Rule: (\d+) (.+?) \(Ruleset:/;
-  const ruleTypePattern = /^(ConditionRule|VariableRule|LoadRulesetRule|CreateComponentRule|CreateDynamicOptionListRule|CreateDynamicOptionListGroupRule|ScreenDisplayRule|ForEachRule|LoopRule|ClearUserValueRule)/;
+  const rulesetPropertyPattern = /^\s+Property\s+:\s+Ruleset\s*$/;
+  const quotedResultPattern = /^\s+Result\s+:\s+"([^"]+)"/;
+  // Timing lines engines log inside a rule block when timing output is enabled
+  const timestampPattern = /^\s+Timestamp\s+:\s+(.+?)\s*$/;
+  const elapsedPattern = /^\s+Elapsed(?: Time)?\s+:\s+(.+?)\s*$/;
 
-  // Stack to track ruleset nesting (LoadRulesetRule triggers)
-  const rulesetStack: { ruleset: string; executionId: number }[] = [];
-  let currentDepth = 0;
-  let executionId = 0;
+  // LoadRulesetRules whose loaded ruleset is still running, innermost last.
+  // target is null until known: from the load's Ruleset property, or else the
+  // ruleset of the first rule after the load if it runs in another ruleset.
+  const loadStack: { execution: RuleExecution; target: string | null }[] = [];
+  // LoadRulesetRule whose target ruleset hasn't been read yet
+  let pendingLoad: RuleExecution | null = null;
+
+  return {
+    consume(lines, i, lineNumber, { block, isStart }) {
+      if (pendingLoad && rulesetPropertyPattern.test(lines[i])) {
+        const resultMatch = i + 1 < lines.length ? lines[i + 1].match(quotedResultPattern) : null;
+        if (resultMatch) {
+          pendingLoad.loadedRuleset = resultMatch[1];
+        }
+        pendingLoad = null;
+        return;
+      }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const ruleMatch = line.match(rulesetPattern);
-
-    if (ruleMatch) {
-      const ruleset = ruleMatch[1];
-      const ruleId = ruleMatch[2];
-      const ruleName = ruleMatch[3].trim();
-
-      // Look for rule type on next line
-      let ruleType = 'Unknown';
-      if (i + 1 < lines.length) {
-        const typeMatch = lines[i + 1].match(ruleTypePattern);
-        if (typeMatch) {
-          ruleType = typeMatch[1];
+      if (!isStart && block?.kind === 'rule') {
+        const execution = executions[block.executionId];
+        const timestampMatch = lines[i].match(timestampPattern);
+        const elapsedMatch = timestampMatch ? null : lines[i].match(elapsedPattern);
+        if (execution && timestampMatch && execution.startedAt === undefined) {
+          execution.startedAt = parseRuleTimestamp(timestampMatch[1]) ?? undefined;
+        } else if (execution && elapsedMatch && execution.elapsedMs === undefined) {
+          execution.elapsedMs = parseElapsed(elapsedMatch[1]) ?? undefined;
         }
+        return;
       }
 
+      if (!isStart || block?.kind !== 'rule') return;
+      const { executionId, ruleset, ruleId, ruleName, ruleType } = block;
+
       // Track ruleset order
       if (!seenRulesets.has(ruleset)) {
         seenRulesets.add(ruleset);
         rulesetOrder.push(ruleset);
       }
 
-      // Handle depth changes based on ruleset switches
-      // If we're in a different ruleset than the top of stack, we've gone deeper
-      while (rulesetStack.length > 0 && rulesetStack[rulesetStack.length - 1].ruleset !== ruleset) {
-        // Check if this ruleset is anywhere in the stack (coming back up)
-        const stackIndex = rulesetStack.findIndex(s => s.ruleset === ruleset);
-        if (stackIndex >= 0) {
-          // Pop back to that level
-          rulesetStack.splice(stackIndex + 1);
-          currentDepth = rulesetStack.length;
-          break;
-        } else {
-          // New ruleset - we're going deeper
-          break;
-        }
+      const top = loadStack[loadStack.length - 1];
+      if (top && top.target === null) {
+        top.target = top.execution.loadedRuleset ?? (ruleset !== top.execution.ruleset ? ruleset : null);
       }
 
-      // Find parent (the LoadRulesetRule that triggered this ruleset)
-      let parentExecutionId: number | null = null;
-      if (rulesetStack.length > 0) {
-        const parent = rulesetStack[rulesetStack.length - 1];
-        if (parent.ruleset !== ruleset) {
-          parentExecutionId = parent.executionId;
+      // A rule back in a load's own ruleset means that load and every load
+      // above it have finished. Rules in other rulesets (loop bodies, say)
+      // stay under the innermost load.
+      for (let k = loadStack.length - 1; k >= 0; k--) {
+        if (loadStack[k].target === ruleset) break;
+        if (loadStack[k].execution.ruleset === ruleset) {
+          loadStack.length = k;
+          break;
         }
       }
 
+      // Parent is the innermost load still running
+      const parentExecutionId = loadStack.length > 0 ? loadStack[loadStack.length - 1].execution.executionId : null;
+
       const execution: RuleExecution = {
-        executionId: executionId++,
+        executionId,
         ruleId,
         ruleName,
         ruleType,
         ruleset,
-        lineNumber: i + 1,
-        depth: currentDepth,
+        lineNumber,
+        depth: loadStack.length,
         parentExecutionId,
         childExecutionIds: [],
-        duration: { startLine: i + 1, endLine: i + 1 },
+        duration: { startLine: lineNumber, endLine: lineNumber },
       };
 
       executions.push(execution);
+      const loadsRuleset = ruleTypeContributes(ruleType, 'rulesetLoads');
+      pendingLoad = loadsRuleset ? execution : null;
 
-      // If this is a LoadRulesetRule, push to stack for tracking children
-      if (ruleType === 'LoadRulesetRule') {
-        rulesetStack.push({ ruleset, executionId: execution.executionId });
-        currentDepth++;
+      // Rules that follow run in the loaded ruleset until it ends
+      if (loadsRuleset) {
+        loadStack.push({ execution, target: null });
       }
 
-      // Update parent's child list
+      // Update parent's child list (execution IDs are array indices)
       if (parentExecutionId !== null) {
-        const parent = executions.find(e => e.executionId === parentExecutionId);
+        const parent = executions[parentExecutionId];
         if (parent) {
           parent.childExecutionIds.push(execution.executionId);
         }
       }
-    }
-  }
+    },
 
-  // Calculate end lines (duration) - each rule ends when the next one starts
-  for (let i = 0; i < executions.length - 1; i++) {
-    executions[i].duration = {
-      startLine: executions[i].lineNumber,
-      endLine: executions[i + 1].lineNumber - 1,
-    };
-  }
+    finish() {
+      // Calculate end lines (duration) - each rule ends when the next one starts
+      for (let i = 0; i < executions.length - 1; i++) {
+        executions[i].duration = {
+          startLine: executions[i].lineNumber,
+          endLine: executions[i + 1].lineNumber - 1,
+        };
+      }
 
-  // Find hotspots (clusters of high activity in same ruleset)
-  const hotspots: RuleExecutionTimeline['hotspots'] = [];
-  const HOTSPOT_THRESHOLD = 10; // Min rules to be a hotspot
+      // Find hotspots (clusters of high activity in same ruleset)
+      const hotspots: RuleExecutionTimeline['hotspots'] = [];
+      const HOTSPOT_THRESHOLD = 10; // Min rules to be a hotspot
 
-  let currentHotspot: { ruleset: string; start: number; count: number } | null = null;
+      let currentHotspot: { ruleset: string; start: number; count: number } | null = null;
 
-  for (let i = 0; i < executions.length; i++) {
-    const exec = executions[i];
+      for (let i = 0; i < executions.length; i++) {
+        const exec = executions[i];
 
-    if (currentHotspot && currentHotspot.ruleset === exec.ruleset) {
-      currentHotspot.count++;
-    } else {
-      // Save previous hotspot if it meets threshold
+        if (currentHotspot && currentHotspot.ruleset === exec.ruleset) {
+          currentHotspot.count++;
+        } else {
+          // Save previous hotspot if it meets threshold
+          if (currentHotspot && currentHotspot.count >= HOTSPOT_THRESHOLD) {
+            hotspots.push({
+              startExecution: currentHotspot.start,
+              endExecution: i - 1,
+              ruleCount: currentHotspot.count,
+              ruleset: currentHotspot.ruleset,
+            });
+          }
+          // Start new hotspot tracking
+          currentHotspot = { ruleset: exec.ruleset, start: i, count: 1 };
+        }
+      }
+
+      // Don't forget the last hotspot
       if (currentHotspot && currentHotspot.count >= HOTSPOT_THRESHOLD) {
         hotspots.push({
           startExecution: currentHotspot.start,
-          endExecution: i - 1,
+          endExecution: executions.length - 1,
           ruleCount: currentHotspot.count,
           ruleset: currentHotspot.ruleset,
         });
       }
-      // Start new hotspot tracking
-      currentHotspot = { ruleset: exec.ruleset, start: i, count: 1 };
-    }
-  }
-
-  // Don't forget the last hotspot
-  if (currentHotspot && currentHotspot.count >= HOTSPOT_THRESHOLD) {
-    hotspots.push({
-      startExecution: currentHotspot.start,
-      endExecution: executions.length - 1,
-      ruleCount: currentHotspot.count,
-      ruleset: currentHotspot.ruleset,
-    });
-  }
 
-  // Calculate max depth
-  const maxDepth = executions.reduce((max, e) => Math.max(max, e.depth), 0);
+      // Calculate max depth
+      const maxDepth = executions.reduce((max, e) => Math.max(max, e.depth), 0);
 
-  return {
-    executions,
-    totalExecutions: executions.length,
-    maxDepth,
-    rulesetOrder,
-    hotspots,
+      return {
+        executions,
+        totalExecutions: executions.length,
+        maxDepth,
+        rulesetOrder,
+        hotspots,
+      };
+    },
   };
 }
 
@@ -1169,6 +2339,8 @@ export interface TraceDiff {
   removedFeatures: string[];
   optionChanges: OptionChange[];
   valueChanges: ValueChange[];
+  propertyChanges: FeaturePropertyChange[];
+  componentChanges: ComponentChange[];
   metadataChanges: MetadataChange[];
   integrationOutputDiff: IntegrationOutputDiff;
   variableDiff: VariableDiff;
@@ -1243,6 +2415,13 @@ export interface ValueChange {
   currentValue: string | null;
 }
 
+export interface FeaturePropertyChange {
+  feature: string;
+  property: string;                // Screen Option property name, e.g. "Visible"
+  baselineValue: string | null;    // null if the property wasn't logged
+  currentValue: string | null;
+}
+
 export interface OptionChange {
   feature: string;
   baselineOptions: string[];
@@ -1251,22 +2430,147 @@ export interface OptionChange {
   removedOptions: string[];
 }
 
+export interface ComponentChange {
+  path: string;                    // Position in the component tree, e.g. "Rack/Chassis/PSU"
+  name: string;
+  change: 'added' | 'removed' | 'quantity';
+  baselineQuantity: number | null;
+  currentQuantity: number | null;
+  lineNumber: number;              // Creation line in the current trace, or the baseline for removals
+}
+
 export interface MetadataChange {
   field: string;
   baseline: string;
   current: string;
+  sessionDetail: boolean;          // Identifies the run (timestamp, user, session ids), not the configuration
+}
+
+/**
+ * Difference between the trace state after one interaction step and after a
+ * later one, in the same shapes as a trace comparison
+ */
+export interface StepDiff extends Omit<TraceDiff, 'metadataChanges' | 'componentChanges'> {
+  fromStep: number;
+  toStep: number;
 }
 
+// Named metadata that differs between runs of the same configuration
+const SESSION_METADATA_FIELDS = new Set<HeaderMetadataField>(['timestamp', 'user', 'culture', 'headerID']);
+
+// Header fields without a named field that identify a run, e.g. SessionID or RequestTime
+const SESSION_HEADER_FIELD_PATTERN = /session|request|correlation|timestamp|time$|date$/i;
+
 export function compareTraces(baseline: ParsedTrace, current: ParsedTrace): TraceDiff {
+  const metadataChanges: MetadataChange[] = [];
+  const { addedFeatures, removedFeatures, optionChanges, valueChanges, propertyChanges } =
+    compareFeatures(baseline.features, current.features);
+
+  // Compare metadata
+  const metaFields: HeaderMetadataField[] = [
+    'instance', 'application', 'configurationId', 'partNumber',
+    'partNamespace', 'configurationMode', 'headerID', 'timestamp', 'user', 'culture'
+  ];
+
+  for (const field of metaFields) {
+    if (baseline.metadata[field] !== current.metadata[field]) {
+      metadataChanges.push({
+        field,
+        baseline: baseline.metadata[field],
+        current: current.metadata[field],
+        sessionDetail: SESSION_METADATA_FIELDS.has(field),
+      });
+    }
+  }
+
+  // Header fields without a named field, under their name in the trace
+  const headerNames = new Set([...baseline.metadata.headerFields.keys(), ...current.metadata.headerFields.keys()]);
+  for (const name of headerNames) {
+    if (Object.hasOwn(HEADER_METADATA_FIELDS, name)) continue;
+    const baselineValue = baseline.metadata.headerFields.get(name) ?? '';
+    const currentValue = current.metadata.headerFields.get(name) ?? '';
+    if (baselineValue !== currentValue) {
+      metadataChanges.push({
+        field: name,
+        baseline: baselineValue,
+        current: currentValue,
+        sessionDetail: SESSION_HEADER_FIELD_PATTERN.test(name),
+      });
+    }
+  }
+
+  const componentChanges = compareComponents(baseline.components, current.components);
+
+  // Compare integration outputs
+  const integrationOutputDiff = compareIntegrationOutputs(
+    baseline.integrationOutputs,
+    current.integrationOutputs
+  );
+
+  // Compare variable assignments
+  const variableDiff = compareVariables(
+    baseline.variableTracking,
+    current.variableTracking
+  );
+
+  // Compare condition evaluations
+  const conditionDiff = compareConditions(
+    baseline.conditionTracking,
+    current.conditionTracking
+  );
+
+  return {
+    addedFeatures,
+    removedFeatures,
+    optionChanges,
+    valueChanges,
+    propertyChanges,
+    componentChanges,
+    metadataChanges,
+    integrationOutputDiff,
+    variableDiff,
+    conditionDiff,
+  };
+}
+
+/**
+ * Compare the trace state after two interaction steps (1-based), e.g. a step
+ * and the one before it, to see what a single click changed
+ */
+export function compareSteps(trace: ParsedTrace, fromStep: number, toStep: number): StepDiff {
+  const from = getStateAfterStep(trace, fromStep);
+  const to = getStateAfterStep(trace, toStep);
+
+  return {
+    fromStep,
+    toStep,
+    ...compareFeatures(from.features, to.features),
+    integrationOutputDiff: compareIntegrationOutputs(from.integrationOutputs, to.integrationOutputs),
+    variableDiff: compareVariables(from.variableTracking, to.variableTracking),
+    conditionDiff: compareConditions(from.conditionTracking, to.conditionTracking),
+  };
+}
+
+// Group GUIDs differ whenever the option list does, which optionChanges already reports
+const PROPERTIES_NOT_COMPARED = new Set(['Option List Group']);
+
+/**
+ * Compare Screen Options between two traces: presence, option lists,
+ * selected values and other Screen Option properties
+ */
+function compareFeatures(
+  baseline: Map<string, Pick<FeatureData, 'options' | 'selectedValue' | 'properties'>>,
+  current: Map<string, Pick<FeatureData, 'options' | 'selectedValue' | 'properties'>>
+): Pick<TraceDiff, 'addedFeatures' | 'removedFeatures' | 'optionChanges' | 'valueChanges' | 'propertyChanges'> {
   const addedFeatures: string[] = [];
   const removedFeatures: string[] = [];
   const optionChanges: OptionChange[] = [];
   const valueChanges: ValueChange[] = [];
-  const metadataChanges: MetadataChange[] = [];
+  const propertyChanges: FeaturePropertyChange[] = [];
 
   // Find added/removed features
-  const baselineFeatures = new Set(baseline.features.keys());
-  const currentFeatures = new Set(current.features.keys());
+  const baselineFeatures = new Set(baseline.keys());
+  const currentFeatures = new Set(current.keys());
 
   for (const feature of currentFeatures) {
     if (!baselineFeatures.has(feature)) {
@@ -1284,8 +2588,8 @@ export function compareTraces(baseline: ParsedTrace, current: ParsedTrace): Trac
   for (const feature of baselineFeatures) {
     if (!currentFeatures.has(feature)) continue;
 
-    const baselineData = baseline.features.get(feature)!;
-    const currentData = current.features.get(feature)!;
+    const baselineData = baseline.get(feature)!;
+    const currentData = current.get(feature)!;
 
     // Compare options
     const baselineSet = new Set(baselineData.options);
@@ -1312,52 +2616,71 @@ export function compareTraces(baseline: ParsedTrace, current: ParsedTrace): Trac
         currentValue: currentData.selectedValue,
       });
     }
-  }
 
-  // Compare metadata
-  const metaFields: (keyof ConfigurationMetadata)[] = [
-    'instance', 'application', 'configurationId', 'partNumber',
-    'partNamespace', 'configurationMode'
-  ];
+    // Compare the remaining properties
+    const propertyNames = new Set([...baselineData.properties.keys(), ...currentData.properties.keys()]);
+    for (const property of propertyNames) {
+      if (PROPERTIES_NOT_COMPARED.has(property)) continue;
 
-  for (const field of metaFields) {
-    if (baseline.metadata[field] !== current.metadata[field]) {
-      metadataChanges.push({
-        field,
-        baseline: baseline.metadata[field],
-        current: current.metadata[field],
-      });
+      const baselineValue = baselineData.properties.get(property) ?? null;
+      const currentValue = currentData.properties.get(property) ?? null;
+      if (baselineValue !== currentValue) {
+        propertyChanges.push({ feature, property, baselineValue, currentValue });
+      }
     }
   }
 
-  // Compare integration outputs
-  const integrationOutputDiff = compareIntegrationOutputs(
-    baseline.integrationOutputs,
-    current.integrationOutputs
-  );
+  return { addedFeatures, removedFeatures, optionChanges, valueChanges, propertyChanges };
+}
 
-  // Compare variable assignments
-  const variableDiff = compareVariables(
-    baseline.variableTracking,
-    current.variableTracking
-  );
+/**
+ * Compare component trees by path: components created in only one trace,
+ * and changed quantities
+ */
+function compareComponents(baseline: ComponentData[], current: ComponentData[]): ComponentChange[] {
+  const changes: ComponentChange[] = [];
+  const byPath = (components: ComponentData[]) =>
+    new Map(flattenComponentTree(buildComponentTree(components)).map(node => [node.path, node.component]));
+  const baselineComponents = byPath(baseline);
+  const currentComponents = byPath(current);
+
+  for (const [path, component] of currentComponents) {
+    const before = baselineComponents.get(path);
+    if (!before) {
+      changes.push({
+        path,
+        name: component.name,
+        change: 'added',
+        baselineQuantity: null,
+        currentQuantity: component.quantity,
+        lineNumber: component.lineNumber,
+      });
+    } else if (before.quantity !== component.quantity) {
+      changes.push({
+        path,
+        name: component.name,
+        change: 'quantity',
+        baselineQuantity: before.quantity,
+        currentQuantity: component.quantity,
+        lineNumber: component.lineNumber,
+      });
+    }
+  }
 
-  // Compare condition evaluations
-  const conditionDiff = compareConditions(
-    baseline.conditionTracking,
-    current.conditionTracking
-  );
+  for (const [path, component] of baselineComponents) {
+    if (!currentComponents.has(path)) {
+      changes.push({
+        path,
+        name: component.name,
+        change: 'removed',
+        baselineQuantity: component.quantity,
+        currentQuantity: null,
+        lineNumber: component.lineNumber,
+      });
+    }
+  }
 
-  return {
-    addedFeatures,
-    removedFeatures,
-    optionChanges,
-    valueChanges,
-    metadataChanges,
-    integrationOutputDiff,
-    variableDiff,
-    conditionDiff,
-  };
+  return changes;
 }
 
 /**
@@ -1648,6 +2971,7 @@ export interface BehavioralIssue {
   };
   severity: 'error' | 'warning' | 'info';
   details?: string;                // Additional context
+  removedOptions?: RemovedOptionsBreakdown; // options_changed: why baseline options are missing
 }
 
 export interface SelectionComparison {
@@ -1758,6 +3082,18 @@ export function compareBehavior(
           const addedOptions = testFeature.options.filter(o => !baseOpts.has(o));
           const removedOptions = baselineFeature.options.filter(o => !testOpts.has(o));
 
+          // The test trace's full list tells a rule filtering an option from the model dropping it
+          const breakdown = removedOptions.length > 0
+            ? classifyRemovedOptions(removedOptions, getOptionList(testFeature, test.optionLists))
+            : undefined;
+          const details = breakdown
+            ? [
+                breakdown.filteredByRule.length > 0 && `Filtered out by a rule: ${breakdown.filteredByRule.join(', ')}`,
+                breakdown.removedFromModel.length > 0 && `Removed from the model: ${breakdown.removedFromModel.join(', ')}`,
+                breakdown.unexplained.length > 0 && `Missing options: ${breakdown.unexplained.join(', ')}`,
+              ].filter(Boolean).join('; ')
+            : `Added options: ${addedOptions.join(', ')}`;
+
           issues.push({
             type: 'options_changed',
             featureName,
@@ -1766,9 +3102,8 @@ export function compareBehavior(
             baseline: { value: baselineFeature.options },
             test: { value: testFeature.options },
             severity: 'error',
-            details: removedOptions.length > 0
-              ? `Missing options: ${removedOptions.join(', ')}`
-              : `Added options: ${addedOptions.join(', ')}`,
+            details,
+            removedOptions: breakdown,
           });
         }
       } else {
@@ -1983,231 +3318,3 @@ function setsEqual<T>(a: Set<T>, b: Set<T>): boolean {
   }
   return true;
 }
-
-// ============================================
-// ISSUE DETECTION
-// ============================================
-
-/**
- * Detect issues and warnings in parsed trace data
- */
-function detectIssues(data: {
-  rulesSummary: RuleExecutionSummary;
-  conditionTracking: ConditionSummary;
-  variableTracking: VariableTrackingSummary;
-  rollbackPoints: number;
-  lines: string[];
-}): IssuesSummary {
-  const issues: DetectedIssue[] = [];
-  let issueId = 0;
-
-  const createId = () => `issue-${++issueId}`;
-
-  // === PERFORMANCE ISSUES ===
-
-  // Check for hot rules (rules that execute many times)
-  for (const rule of data.rulesSummary.topRules) {
-    if (rule.executionCount > 50) {
-      issues.push({
-        id: createId(),
-        severity: 'error',
-        category: 'performance',
-        title: `Rule executes ${rule.executionCount} times`,
-        description: `"${rule.ruleName}" may indicate a performance issue or infinite loop`,
-        lineNumber: 0, // We don't track first occurrence line in topRules
-        context: {
-          ruleName: rule.ruleName,
-          ruleset: rule.ruleset,
-          count: rule.executionCount,
-        },
-      });
-    } else if (rule.executionCount > 20) {
-      issues.push({
-        id: createId(),
-        severity: 'warning',
-        category: 'performance',
-        title: `Rule executes ${rule.executionCount} times`,
-        description: `"${rule.ruleName}" executes frequently - consider optimization`,
-        lineNumber: 0,
-        context: {
-          ruleName: rule.ruleName,
-          ruleset: rule.ruleset,
-          count: rule.executionCount,
-        },
-      });
-    } else if (rule.executionCount > 10) {
-      issues.push({
-        id: createId(),
-        severity: 'info',
-        category: 'performance',
-        title: `Rule executes ${rule.executionCount} times`,
-        description: `"${rule.ruleName}" - consider if this frequency is expected`,
-        lineNumber: 0,
-        context: {
-          ruleName: rule.ruleName,
-          ruleset: rule.ruleset,
-          count: rule.executionCount,
-        },
-      });
-    }
-  }
-
-  // Check for excessive rollback points
-  if (data.rollbackPoints > 15) {
-    issues.push({
-      id: createId(),
-      severity: 'warning',
-      category: 'performance',
-      title: `${data.rollbackPoints} rollback points`,
-      description: 'High rollback count may indicate complex conflict resolution',
-      lineNumber: 0,
-      context: {
-        count: data.rollbackPoints,
-      },
-    });
-  }
-
-  // === LOGIC ISSUES ===
-
-  // Check for conditions that always evaluate to False (never fire)
-  // Group conditions by ruleId+ruleset+expression to find patterns
-  const conditionsByRule = new Map<string, { condition: ConditionEvaluation; trueCount: number; falseCount: number }>();
-
-  for (const condition of data.conditionTracking.conditions) {
-    const key = `${condition.ruleset}:${condition.ruleId}:${condition.expression}`;
-    if (!conditionsByRule.has(key)) {
-      conditionsByRule.set(key, { condition, trueCount: 0, falseCount: 0 });
-    }
-    const entry = conditionsByRule.get(key)!;
-    if (condition.result) {
-      entry.trueCount++;
-    } else {
-      entry.falseCount++;
-    }
-  }
-
-  for (const [, entry] of conditionsByRule) {
-    const totalEvals = entry.trueCount + entry.falseCount;
-    // If a condition is evaluated 3+ times and ALWAYS False, it's suspicious
-    if (totalEvals >= 3 && entry.trueCount === 0) {
-      issues.push({
-        id: createId(),
-        severity: 'warning',
-        category: 'logic',
-        title: `Condition always False (${totalEvals} evaluations)`,
-        description: `"${entry.condition.ruleName}" - rule never fires`,
-        lineNumber: entry.condition.lineNumber,
-        context: {
-          ruleName: entry.condition.ruleName,
-          ruleset: entry.condition.ruleset,
-          expression: entry.condition.expression,
-          count: totalEvals,
-        },
-      });
-    }
-  }
-
-  // === DATA ISSUES ===
-
-  // Check for null values in condition traces
-  const nullTraceConditions = data.conditionTracking.conditions.filter(
-    c => c.trace && c.trace.includes('null')
-  );
-
-  // Group by unique expression to avoid flooding with same issue
-  const uniqueNullExpressions = new Map<string, ConditionEvaluation>();
-  for (const c of nullTraceConditions) {
-    const key = c.expression;
-    if (!uniqueNullExpressions.has(key)) {
-      uniqueNullExpressions.set(key, c);
-    }
-  }
-
-  for (const [, condition] of uniqueNullExpressions) {
-    issues.push({
-      id: createId(),
-      severity: 'info',
-      category: 'data',
-      title: 'Null value in expression',
-      description: `Expression evaluates with null: ${condition.expression.slice(0, 60)}`,
-      lineNumber: condition.lineNumber,
-      context: {
-        expression: condition.expression,
-        ruleName: condition.ruleName,
-      },
-    });
-  }
-
-  // Check for variables read when unassigned
-  for (const [, variable] of data.variableTracking.variables) {
-    for (const assignment of variable.assignments) {
-      if (assignment.previousValue === '(unassigned)' && assignment.assignmentExpression.startsWith('=')) {
-        // This is a read before being properly assigned
-        issues.push({
-          id: createId(),
-          severity: 'warning',
-          category: 'data',
-          title: 'Variable read when unassigned',
-          description: `"${variable.name}" was unassigned when used in expression`,
-          lineNumber: assignment.lineNumber,
-          context: {
-            variableName: variable.name,
-            expression: assignment.assignmentExpression,
-          },
-        });
-        break; // Only report first occurrence per variable
-      }
-    }
-  }
-
-  // === CONFIGURATION ISSUES ===
-
-  // Check for duplicate rollback points by scanning the lines
-  const rollbackPattern = /Rollback point (\d+)/;
-  const rollbackCounts = new Map<string, { count: number; firstLine: number }>();
-
-  for (let i = 0; i < data.lines.length; i++) {
-    const match = data.lines[i].match(rollbackPattern);
-    if (match) {
-      const pointNum = match[1];
-      if (!rollbackCounts.has(pointNum)) {
-        rollbackCounts.set(pointNum, { count: 0, firstLine: i + 1 });
-      }
-      rollbackCounts.get(pointNum)!.count++;
-    }
-  }
-
-  for (const [pointNum, info] of rollbackCounts) {
-    if (info.count > 1) {
-      issues.push({
-        id: createId(),
-        severity: 'info',
-        category: 'configuration',
-        title: `Duplicate rollback point ${pointNum}`,
-        description: `Rollback point ${pointNum} appears ${info.count} times`,
-        lineNumber: info.firstLine,
-        context: {
-          count: info.count,
-        },
-      });
-    }
-  }
-
-  // Calculate severity counts
-  const errorCount = issues.filter(i => i.severity === 'error').length;
-  const warningCount = issues.filter(i => i.severity === 'warning').length;
-  const infoCount = issues.filter(i => i.severity === 'info').length;
-
-  // Sort issues: errors first, then warnings, then info
-  issues.sort((a, b) => {
-    const severityOrder = { error: 0, warning: 1, info: 2 };
-    return severityOrder[a.severity] - severityOrder[b.severity];
-  });
-
-  return {
-    issues,
-    errorCount,
-    warningCount,
-    infoCount,
-  };
-}
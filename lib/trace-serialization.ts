@@ -0,0 +1,337 @@
+/**
+ * Trace Serialization
+ * Stable, versioned JSON format for ParsedTrace.
+ * Maps are written as ordered [key, value] entry arrays so they survive JSON,
+ * JSONB and structured storage without losing contents or ordering.
+ * See docs/trace-schema.md for the format and migration rules.
+ */
+
+import { parseTrace } from './trace-parser';
+import type {
+  FeatureData,
+  FeatureOccurrence,
+  ParsedTrace,
+  RulesetSummary,
+  IntegrationTemplate,
+} from './trace-parser';
+
+/**
+ * Current schema version. Bump when a field or section is added or changes
+ * shape, and add a migration step below. Traces stored at an older version
+ * are re-parsed when their raw content is at hand.
+ */
+export const TRACE_SCHEMA_VERSION = 5;
+
+/**
+ * JSON shape of a value: every Map becomes an array of entries
+ */
+export type Serialized<T> =
+  T extends Map<infer K, infer V> ? Array<[K, Serialized<V>]> :
+  T extends Array<infer U> ? Array<Serialized<U>> :
+  T extends object ? { [P in keyof T]: Serialized<T[P]> } :
+  T;
+
+export type SerializedParsedTrace = Serialized<ParsedTrace> & {
+  schemaVersion: number;
+};
+
+// A document at some older schema version, upgraded one step at a time
+type TraceDocument = Record<string, unknown>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type LooseObject = Record<string, any>;
+
+/**
+ * Convert a legacy Map encoding (plain object from Object.fromEntries or an
+ * already-live Map) into entry arrays
+ */
+function toEntries(value: unknown): Array<[string, unknown]> {
+  if (value instanceof Map) return Array.from(value.entries());
+  if (Array.isArray(value)) return value as Array<[string, unknown]>;
+  if (value && typeof value === 'object') return Object.entries(value);
+  return [];
+}
+
+/**
+ * Migrations from version N to N + 1, keyed by N
+ */
+const MIGRATIONS: Record<number, (doc: TraceDocument) => TraceDocument> = {
+  // v0: unversioned traces from localStorage and the baselines API, where
+  // Maps were stored as plain objects (or lost entirely as `{}`)
+  0: (doc) => {
+    const rulesSummary = (doc.rulesSummary ?? {}) as LooseObject;
+    const integrationOutputs = (doc.integrationOutputs ?? {}) as LooseObject;
+    const variableTracking = (doc.variableTracking ?? {}) as LooseObject;
+
+    return {
+      ...doc,
+      features: toEntries(doc.features),
+      rulesSummary: {
+        ...rulesSummary,
+        rulesets: toEntries(rulesSummary.rulesets).map(([key, ruleset]) => [
+          key,
+          { ...(ruleset as LooseObject), rules: toEntries((ruleset as LooseObject).rules) },
+        ]),
+        ruleTypeBreakdown: toEntries(rulesSummary.ruleTypeBreakdown),
+      },
+      integrationOutputs: {
+        ...integrationOutputs,
+        templates: toEntries(integrationOutputs.templates).map(([key, template]) => [
+          key,
+          {
+            ...(template as LooseObject),
+            rows: ((template as LooseObject).rows ?? []).map((row: LooseObject) => ({
+              ...row,
+              properties: toEntries(row.properties),
+            })),
+          },
+        ]),
+      },
+      variableTracking: {
+        ...variableTracking,
+        variables: toEntries(variableTracking.variables),
+      },
+    };
+  },
+
+  // v1: features only kept their latest Screen Option section; that becomes
+  // the one known occurrence
+  1: (doc) => ({
+    ...doc,
+    features: ((doc.features ?? []) as Array<[string, LooseObject]>).map(([name, feature]) => [
+      name,
+      {
+        ...feature,
+        occurrences: feature.occurrences ?? [{
+          lineNumber: feature.lineNumber,
+          caption: feature.caption,
+          selectedValue: feature.selectedValue,
+          optionListGroup: feature.optionListGroup,
+          options: feature.options,
+        }],
+      },
+    ]),
+  }),
+
+  // v2: Screen Option properties other than Caption, Option List Id and
+  // Option List Group weren't captured; recover those three
+  2: (doc) => {
+    const withProperties = (feature: LooseObject, optionListId: string | null) => ({
+      ...feature,
+      properties: [
+        ['Caption', feature.caption],
+        ['Option List Id', optionListId],
+        ['Option List Group', feature.optionListGroup],
+      ].filter(([, value]) => value !== null && value !== undefined),
+    });
+
+    return {
+      ...doc,
+      features: ((doc.features ?? []) as Array<[string, LooseObject]>).map(([name, feature]) => [
+        name,
+        {
+          ...withProperties(feature, feature.optionListId),
+          occurrences: (feature.occurrences ?? []).map((o: LooseObject) => withProperties(o, feature.optionListId)),
+        },
+      ]),
+      steps: ((doc.steps ?? []) as LooseObject[]).map(step => ({
+        ...step,
+        features: (step.features ?? []).map((f: LooseObject) => withProperties(f, null)),
+      })),
+    };
+  },
+
+  // v3: only seven header fields were kept; rebuild headerFields from them
+  // (a stored trace's Timestamp, user and culture are lost)
+  3: (doc) => {
+    const metadata = (doc.metadata ?? {}) as LooseObject;
+    return {
+      ...doc,
+      metadata: {
+        ...metadata,
+        timestamp: '',
+        startedAt: null,
+        user: '',
+        culture: '',
+        headerFields: [
+          ['Instance', metadata.instance],
+          ['Application', metadata.application],
+          ['ConfigurationID', metadata.configurationId],
+          ['PartNumber', metadata.partNumber],
+          ['PartNamespace', metadata.partNamespace],
+          ['ConfigurationMode', metadata.configurationMode],
+          ['HeaderID', metadata.headerID],
+        ].filter(([, value]) => value),
+      },
+    };
+  },
+
+  // v4: rule executions had no Timestamp or Elapsed values, and versions
+  // before the detector registry stored issues without a detectorId. Neither
+  // can be recovered without the raw trace.
+  4: (doc) => {
+    const issues = (doc.issues ?? {}) as LooseObject;
+    return {
+      ...doc,
+      ...(Array.isArray(issues.issues) && {
+        issues: {
+          ...issues,
+          issues: issues.issues.map((issue: LooseObject) => ({ ...issue, detectorId: issue.detectorId ?? 'unknown' })),
+        },
+      }),
+    };
+  },
+};
+
+/**
+ * Check whether a stored value was written by serializeParsedTrace
+ */
+export function isSerializedParsedTrace(value: unknown): value is SerializedParsedTrace {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as LooseObject).schemaVersion === 'number'
+  );
+}
+
+// Screen Option properties, on features, their occurrences and step features
+function serializeProperties<T extends Pick<FeatureOccurrence, 'properties'>>(value: T) {
+  return { ...value, properties: Array.from(value.properties.entries()) };
+}
+
+function deserializeProperties<T extends Serialized<Pick<FeatureOccurrence, 'properties'>>>(value: T) {
+  return { ...value, properties: new Map(value.properties) };
+}
+
+/**
+ * Replace every Map in the trace with its entries (unversioned)
+ */
+function serializeSections(trace: ParsedTrace): Serialized<ParsedTrace> {
+  const { rulesSummary, integrationOutputs, variableTracking } = trace;
+
+  return {
+    ...trace,
+    metadata: { ...trace.metadata, headerFields: Array.from(trace.metadata.headerFields.entries()) },
+    features: Array.from(trace.features.entries()).map(([key, feature]) => [
+      key,
+      { ...serializeProperties(feature), occurrences: feature.occurrences.map(serializeProperties) },
+    ]),
+    optionLists: Array.from(trace.optionLists.entries()),
+    optionSources: Array.from(trace.optionSources.entries()),
+    rulesSummary: {
+      ...rulesSummary,
+      rulesets: Array.from(rulesSummary.rulesets.entries()).map(([key, ruleset]) => [
+        key,
+        { ...ruleset, rules: Array.from(ruleset.rules.entries()) },
+      ]),
+      ruleTypeBreakdown: Array.from(rulesSummary.ruleTypeBreakdown.entries()),
+    },
+    integrationOutputs: {
+      ...integrationOutputs,
+      templates: Array.from(integrationOutputs.templates.entries()).map(([key, template]) => [
+        key,
+        {
+          ...template,
+          rows: template.rows.map(row => ({
+            ...row,
+            properties: Array.from(row.properties.entries()),
+          })),
+        },
+      ]),
+    },
+    variableTracking: {
+      ...variableTracking,
+      variables: Array.from(variableTracking.variables.entries()),
+    },
+    steps: trace.steps.map(step => ({ ...step, features: step.features.map(serializeProperties) })),
+  };
+}
+
+/**
+ * Convert a ParsedTrace into its versioned JSON form
+ */
+export function serializeParsedTrace(trace: ParsedTrace): SerializedParsedTrace {
+  return { schemaVersion: TRACE_SCHEMA_VERSION, ...serializeSections(trace) };
+}
+
+/**
+ * Rebuild a ParsedTrace from any supported schema version.
+ * Unversioned input is treated as the legacy v0 object encoding. A trace
+ * stored at an older version is re-parsed from rawContent when it's given;
+ * otherwise sections it predates come back empty, with parse coverage unknown.
+ */
+export function deserializeParsedTrace(value: unknown, rawContent?: string): ParsedTrace {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid serialized trace: expected an object');
+  }
+
+  let doc = value as TraceDocument;
+  let version = isSerializedParsedTrace(value) ? value.schemaVersion : 0;
+
+  if (version > TRACE_SCHEMA_VERSION) {
+    throw new Error(
+      `Serialized trace uses schema version ${version}, but this build only supports up to ${TRACE_SCHEMA_VERSION}`
+    );
+  }
+
+  if (version < TRACE_SCHEMA_VERSION && rawContent !== undefined) {
+    return parseTrace(rawContent);
+  }
+
+  while (version < TRACE_SCHEMA_VERSION) {
+    doc = MIGRATIONS[version](doc);
+    version++;
+  }
+
+  // Sections added to the parser after the trace was stored start out empty,
+  // except coverage: an empty parse reports 100%, which would pass for clean
+  const stored = { ...doc };
+  delete stored.schemaVersion;
+  const empty = serializeSections(parseTrace(''));
+  const serialized = {
+    ...empty,
+    parseCoverage: { ...empty.parseCoverage, percent: null },
+    ...stored,
+  } as Serialized<ParsedTrace>;
+  const { rulesSummary, integrationOutputs, variableTracking } = serialized;
+
+  return {
+    ...serialized,
+    metadata: { ...serialized.metadata, headerFields: new Map(serialized.metadata.headerFields) },
+    features: new Map(
+      serialized.features.map(([key, feature]): [string, FeatureData] => [
+        key,
+        { ...deserializeProperties(feature), occurrences: feature.occurrences.map(deserializeProperties) },
+      ])
+    ),
+    optionLists: new Map(serialized.optionLists),
+    optionSources: new Map(serialized.optionSources),
+    rulesSummary: {
+      ...rulesSummary,
+      rulesets: new Map(
+        rulesSummary.rulesets.map(([key, ruleset]): [string, RulesetSummary] => [
+          key,
+          { ...ruleset, rules: new Map(ruleset.rules) },
+        ])
+      ),
+      ruleTypeBreakdown: new Map(rulesSummary.ruleTypeBreakdown),
+    },
+    integrationOutputs: {
+      ...integrationOutputs,
+      templates: new Map(
+        integrationOutputs.templates.map(([key, template]): [string, IntegrationTemplate] => [
+          key,
+          {
+            ...template,
+            rows: template.rows.map(row => ({ ...row, properties: new Map(row.properties) })),
+          },
+        ])
+      ),
+    },
+    variableTracking: {
+      ...variableTracking,
+      variables: new Map(variableTracking.variables),
+    },
+    steps: serialized.steps.map(step => ({ ...step, features: step.features.map(deserializeProperties) })),
+  };
+}
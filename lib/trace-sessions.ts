@@ -0,0 +1,207 @@
+/**
+ * Trace Sessions
+ * Splits a log holding several configuration sessions, each opened by its own
+ * <InputParameters> header, into one ParsedTrace per session instead of
+ * merging them into one.
+ */
+
+import { createTraceParser, progressPercent, utf8ByteLength, writeTraceStream } from './trace-parser';
+import type { ParsedTrace, TraceParser, TraceParserOptions } from './trace-parser';
+
+export interface TraceSession {
+  index: number;        // 1-based, in file order
+  startLine: number;    // First line of the session in the whole file
+  endLine: number;      // Last line of the session in the whole file
+  trace: ParsedTrace;   // Line numbers count from the session's first line
+}
+
+export interface TraceSessionParser {
+  write(chunk: string): void;     // Feed the next chunk of trace text (may split lines anywhere)
+  end(): TraceSession[];          // Flush the last line and parse every session
+}
+
+// A header opens a new session once the current one has a header or rules of its own
+const sessionHeaderPattern = /^[ \t]*<InputParameters\b/gm;
+const ruleHeaderPattern = /^Ruleset: /m;
+
+interface OpenSession {
+  parser: TraceParser;
+  startLine: number;
+  lineBreaks: number;
+  hasHeader: boolean;
+  hasRules: boolean;
+}
+
+/**
+ * Create an incremental parser that starts a fresh trace parser for each
+ * session. A log with a single session parses exactly as parseTrace() does.
+ */
+export function createTraceSessionParser(options: TraceParserOptions = {}): TraceSessionParser {
+  const sessions: TraceSession[] = [];
+  let pending = '';      // Text after the last line break seen so far
+  let heldBreak = '';    // Line break ending the routed text, held until it's known not to end a session
+  let charactersRead = 0;
+  let bytesRead = 0;
+  let linesRouted = 0;
+  let ended = false;
+
+  const openSession = (startLine: number): OpenSession => ({
+    parser: createTraceParser(),
+    startLine,
+    lineBreaks: 0,
+    hasHeader: false,
+    hasRules: false,
+  });
+
+  let current = openSession(1);
+
+  const closeSession = (endLine: number) => {
+    sessions.push({
+      index: sessions.length + 1,
+      startLine: current.startLine,
+      endLine,
+      trace: current.parser.end(),
+    });
+  };
+
+  const feed = (text: string) => {
+    if (!text) return;
+    current.parser.write(text);
+    if (!current.hasHeader && !current.hasRules) {
+      current.hasRules = ruleHeaderPattern.test(text);
+    }
+    for (let at = text.indexOf('\n'); at >= 0; at = text.indexOf('\n', at + 1)) {
+      current.lineBreaks++;
+    }
+  };
+
+  // Feed text except its final line break, which a session's last line
+  // doesn't get: parseTrace() would count an empty line after it
+  const feedHeld = (text: string) => {
+    if (!text) return;
+    const lineBreak = text.match(/\r?\n$/)?.[0] ?? '';
+    feed(heldBreak + text.slice(0, text.length - lineBreak.length));
+    heldBreak = lineBreak;
+  };
+
+  // Route complete lines to the session they belong to
+  const route = (text: string) => {
+    let from = 0;
+    for (const match of text.matchAll(sessionHeaderPattern)) {
+      feedHeld(text.slice(from, match.index));
+      from = match.index;
+      if (current.hasHeader || current.hasRules) {
+        const endLine = current.startLine + current.lineBreaks;
+        heldBreak = '';
+        closeSession(endLine);
+        current = openSession(endLine + 1);
+      }
+      current.hasHeader = true;
+    }
+    feedHeld(text.slice(from));
+  };
+
+  const reportProgress = () => {
+    if (!options.onProgress) return;
+    options.onProgress({
+      linesParsed: linesRouted,
+      charactersRead,
+      totalCharacters: options.totalCharacters ?? null,
+      bytesRead,
+      totalBytes: options.totalBytes ?? null,
+      percent: ended ? 100 : progressPercent({ charactersRead, bytesRead }, options),
+    });
+  };
+
+  return {
+    write(chunk: string) {
+      if (ended) {
+        throw new Error('Cannot write to a trace parser after end()');
+      }
+
+      charactersRead += chunk.length;
+      if (options.totalBytes) bytesRead += utf8ByteLength(chunk);
+      const text = pending + chunk;
+      const lastBreak = text.lastIndexOf('\n');
+      if (lastBreak >= 0) {
+        pending = text.slice(lastBreak + 1);
+        const before = current.startLine + current.lineBreaks;
+        route(text.slice(0, lastBreak + 1));
+        linesRouted += current.startLine + current.lineBreaks - before;
+      } else {
+        pending = text;
+      }
+
+      reportProgress();
+    },
+
+    end(): TraceSession[] {
+      if (!ended) {
+        ended = true;
+        route(pending);
+        pending = '';
+        // The last session keeps its final line break, as parseTrace() would see it
+        feed(heldBreak);
+        heldBreak = '';
+        // The parser counts the text after the last line break as a line, even when empty
+        closeSession(current.startLine + current.lineBreaks);
+        linesRouted = current.startLine + current.lineBreaks;
+        reportProgress();
+      }
+      return sessions;
+    },
+  };
+}
+
+/**
+ * Parse every session in a trace held in memory
+ */
+export function parseTraceSessions(traceContent: string): TraceSession[] {
+  const parser = createTraceSessionParser();
+  parser.write(traceContent);
+  return parser.end();
+}
+
+/**
+ * Parse every session in a trace from a stream of text chunks
+ */
+export async function parseTraceSessionsStream(
+  source: ReadableStream<string> | AsyncIterable<string>,
+  options: TraceParserOptions = {}
+): Promise<TraceSession[]> {
+  const parser = createTraceSessionParser(options);
+  await writeTraceStream(source, parser);
+  return parser.end();
+}
+
+// Offset of the first character of a line, counting from a known line's offset; -1 past the end
+function findLineOffset(content: string, line: number, fromLine = 1, fromOffset = 0): number {
+  let offset = fromOffset;
+  for (let current = fromLine; current < line; current++) {
+    const lineBreak = content.indexOf('\n', offset);
+    if (lineBreak < 0) return -1;
+    offset = lineBreak + 1;
+  }
+  return offset;
+}
+
+/**
+ * A session's own lines, numbered the way its ParsedTrace numbers them
+ */
+export function getSessionContent(traceContent: string, session: Pick<TraceSession, 'startLine' | 'endLine'>): string {
+  const start = findLineOffset(traceContent, session.startLine);
+  if (start < 0) return '';
+  const next = findLineOffset(traceContent, session.endLine + 1, session.startLine, start);
+  return next < 0
+    ? traceContent.slice(start)
+    : traceContent.slice(start, next).replace(/\r?\n$/, '');
+}
+
+/**
+ * Short label for a session, e.g. "Session 2: PN-100 (lines 812-1630)"
+ */
+export function getSessionLabel(session: TraceSession): string {
+  const { partNumber, configurationId } = session.trace.metadata;
+  const name = partNumber || configurationId;
+  return `Session ${session.index}${name ? `: ${name}` : ''} (lines ${session.startLine.toLocaleString()}-${session.endLine.toLocaleString()})`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Variable State Reconstruction
+ * Answers "what was every variable's value at line N / execution K" from the
+ * recorded assignments, using a per-variable line index and binary search.
+ */
+
+import type {
+  RuleExecutionTimeline,
+  VariableAssignment,
+  VariableSummary,
+  VariableTrackingSummary,
+} from './trace-parser';
+
+/**
+ * A variable's value as of a point in the trace
+ */
+export interface VariableSnapshot {
+  name: string;                    // Display name
+  value: string | null;
+  assignment: VariableAssignment;  // The assignment that produced the value
+}
+
+export interface VariableStateIndex {
+  // Values after every assignment on or before the line, sorted by name
+  getVariableStateAt(lineNumber: number): VariableSnapshot[];
+  // Values as an execution saw them: before its own assignments
+  getVariableStateAtExecution(timeline: RuleExecutionTimeline, executionId: number): VariableSnapshot[];
+}
+
+interface IndexedVariable {
+  summary: VariableSummary;
+  lines: number[];                 // Assignment lines, ascending
+}
+
+/**
+ * Index of the last element <= target, or -1
+ */
+function lastAtOrBefore(lines: number[], target: number): number {
+  let low = 0;
+  let high = lines.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid] <= target) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Build a state index over a trace's variable assignments
+ */
+export function createVariableStateIndex(variableTracking: VariableTrackingSummary): VariableStateIndex {
+  const variables: IndexedVariable[] = [...variableTracking.variables.values()]
+    .map(summary => ({ summary, lines: summary.assignments.map(a => a.lineNumber) }))
+    .sort((a, b) => a.summary.name.localeCompare(b.summary.name));
+
+  const getVariableStateAt = (lineNumber: number): VariableSnapshot[] => {
+    const snapshot: VariableSnapshot[] = [];
+    for (const { summary, lines } of variables) {
+      // Skip variables first assigned later without searching
+      if (lines.length === 0 || lines[0] > lineNumber) continue;
+      const assignment = summary.assignments[lastAtOrBefore(lines, lineNumber)];
+      snapshot.push({ name: summary.name, value: assignment.resultValue, assignment });
+    }
+    return snapshot;
+  };
+
+  return {
+    getVariableStateAt,
+    getVariableStateAtExecution(timeline, executionId) {
+      const execution = timeline.executions.find(e => e.executionId === executionId);
+      // Assignments are logged after the rule header, so the header line is "before"
+      return execution ? getVariableStateAt(execution.lineNumber) : [];
+    },
+  };
+}
+
+const indexCache = new WeakMap<VariableTrackingSummary, VariableStateIndex>();
+
+/**
+ * Shared index per parsed trace, so UI panels don't rebuild it per selection
+ */
+export function getVariableStateIndex(variableTracking: VariableTrackingSummary): VariableStateIndex {
+  let index = indexCache.get(variableTracking);
+  if (!index) {
+    index = createVariableStateIndex(variableTracking);
+    indexCache.set(variableTracking, index);
+  }
+  return index;
+}
+
+/**
+ * Shorthand for a one-off lookup
+ */
+export function getVariableStateAt(variableTracking: VariableTrackingSummary, lineNumber: number): VariableSnapshot[] {
+  return getVariableStateIndex(variableTracking).getVariableStateAt(lineNumber);
+}
@@ -0,0 +1,11 @@
+-- Flag traces whose raw_content was rebuilt from a localStorage baseline's
+-- parsed data rather than read from the trace file. Their parsed_data is
+-- migrated on a schema bump, never re-parsed from the rebuilt text.
+
+ALTER TABLE public.traces
+  ADD COLUMN raw_content_reconstructed BOOLEAN DEFAULT FALSE NOT NULL;
+
+-- Rows migrated before the flag existed carry the note reconstructRawContent() writes
+UPDATE public.traces
+  SET raw_content_reconstructed = TRUE
+  WHERE raw_content LIKE '%# NOTE: This trace was reconstructed from localStorage data%';